@@ -10,6 +10,11 @@ const correlationRoutes = require('./routes/correlations');
 
 // Import services
 const { initializeBlockchainListeners } = require('./services/blockchainService');
+const { startIndexer } = require('./services/indexerService');
+const { redistributePending } = require('./services/trustService');
+const { startKeeper, runKeeper, getKeeperStatus } = require('./services/keeperService');
+const { finalizePending } = require('./services/verificationService');
+const { reembedStale } = require('./services/embeddingService');
 const { startTestRumorScheduler, generateAndPostTestRumor, autoVerifyTestRumors, getTestRumors } = require('./services/testRumorService');
 
 const app = express();
@@ -34,6 +39,10 @@ app.use('/api/rumors', rumorRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/correlations', correlationRoutes);
 app.use('/api/votes', require('./routes/votes'));
+app.use('/api/stream', require('./routes/stream'));
+app.use('/api/content', require('./routes/content'));
+app.use('/api/verification', require('./routes/verification'));
+app.use('/api/leaderboard', require('./routes/leaderboard'));
 
 // ═══ Test Rumor Admin Routes ═══
 // POST /api/admin/test-rumor/generate — Manually trigger a test rumor
@@ -70,6 +79,29 @@ app.get('/api/admin/test-rumors', (req, res) => {
     }
 });
 
+// ═══ Keeper Admin Routes ═══
+// GET /api/admin/keeper — Last keeper run, rumors it locked, pending eligible count
+app.get('/api/admin/keeper', async (req, res) => {
+    try {
+        res.json(await getKeeperStatus(parseInt(req.query.limit) || 10));
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// POST /api/admin/keeper/run — Manually trigger a keeper run
+app.post('/api/admin/keeper/run', async (req, res) => {
+    try {
+        const run = await runKeeper('manual');
+        if (!run) {
+            return res.status(409).json({ error: 'A keeper run is already in progress' });
+        }
+        res.json({ success: run.status !== 'FAILED', run });
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
 // Error handling middleware
 app.use((err, req, res, next) => {
     console.error('Error:', err);
@@ -93,6 +125,18 @@ app.listen(PORT, () => {
     if (process.env.IDENTITY_REGISTRY_ADDRESS) {
         initializeBlockchainListeners().catch(console.error);
 
+        // Backfill the off-chain rumor index from the last indexed block, then catch up on
+        // deletions (trust redistribution) and locks (verdicts) missed while the server was down,
+        // and re-embed rumors stored by a previous embedding provider
+        startIndexer()
+            .then(() => redistributePending())
+            .then(() => finalizePending())
+            .then(() => reembedStale())
+            .catch(console.error);
+
+        // Lock rumors whose voting window has expired (AutomationKeeper)
+        startKeeper();
+
         // Start the test rumor scheduler (weekly AI-generated false rumors)
         startTestRumorScheduler();
     } else {
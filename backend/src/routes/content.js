@@ -0,0 +1,40 @@
+const express = require('express');
+const router = express.Router();
+const { getRaw } = require('../services/ipfsService');
+const { isValidCID } = require('../services/cidService');
+
+/**
+ * GET /api/content/:cid
+ * Serve stored content (rumor JSON or evidence files) by CID
+ */
+router.get('/:cid', async (req, res) => {
+    try {
+        const { cid } = req.params;
+        if (!isValidCID(cid)) {
+            return res.status(400).json({ error: 'Invalid CID' });
+        }
+
+        const result = await getRaw(cid);
+        if (result.integrity === 'mismatch') {
+            return res.status(502).json({ error: 'Content integrity check failed' });
+        }
+        if (!result.success) {
+            return res.status(404).json({ error: 'Content not found' });
+        }
+
+        res.set({
+            'Content-Type': result.mimeType,
+            'Content-Length': result.buffer.length,
+            // Content-addressed: the bytes behind a CID never change
+            'Cache-Control': 'public, max-age=31536000, immutable',
+            'X-Content-Type-Options': 'nosniff',
+            'X-Content-Integrity': result.integrity,
+        });
+        res.send(result.buffer);
+    } catch (error) {
+        console.error('Content serve error:', error);
+        res.status(500).json({ error: 'Failed to fetch content' });
+    }
+});
+
+module.exports = router;
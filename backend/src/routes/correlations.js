@@ -1,7 +1,7 @@
 const express = require('express');
 const router = express.Router();
 const { analyzeCorrelation } = require('../services/geminiService');
-const { getRelatedRumors, getRumor } = require('../services/blockchainService');
+const { getRelatedRumors, getRumor, publicRumor } = require('../services/blockchainService');
 const { getContent } = require('../services/ipfsService');
 
 /**
@@ -17,7 +17,7 @@ router.get('/:rumorId', async (req, res) => {
         // Fetch details for related rumors
         const supportiveDetails = await Promise.all(
             related.supportive.map(async (id) => {
-                const rumor = await getRumor(parseInt(id));
+                const rumor = publicRumor(await getRumor(parseInt(id)));
                 if (rumor?.contentHash) {
                     const content = await getContent(rumor.contentHash);
                     return {
@@ -31,7 +31,7 @@ router.get('/:rumorId', async (req, res) => {
 
         const contradictoryDetails = await Promise.all(
             related.contradictory.map(async (id) => {
-                const rumor = await getRumor(parseInt(id));
+                const rumor = publicRumor(await getRumor(parseInt(id)));
                 if (rumor?.contentHash) {
                     const content = await getContent(rumor.contentHash);
                     return {
@@ -0,0 +1,85 @@
+const express = require('express');
+const router = express.Router();
+const { verifyUserToken } = require('../services/tokenService');
+const { BOARDS, minResolved, getLeaderboard, getListing, setOptOut } = require('../services/leaderboardService');
+
+// Middleware to check token
+const authenticate = async (req, res, next) => {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        return res.status(401).json({ error: 'No token provided' });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const result = await verifyUserToken(token);
+
+    if (!result.valid) {
+        return res.status(401).json({ error: 'Invalid or expired token' });
+    }
+
+    req.user = result.user;
+    next();
+};
+
+/**
+ * GET /api/leaderboard
+ * Ranked students by pseudonymous ID
+ * Query: board (accuracy | credibility | improved, default accuracy), limit (1-100, default 25)
+ */
+router.get('/', (req, res) => {
+    try {
+        const board = req.query.board ? String(req.query.board).toLowerCase() : 'accuracy';
+        if (!BOARDS.includes(board)) {
+            return res.status(400).json({ error: `Invalid board (expected one of ${BOARDS.join(', ')})` });
+        }
+
+        const limit = Math.min(Math.max(parseInt(req.query.limit) || 25, 1), 100);
+
+        res.json({ board, minResolved: minResolved(), entries: getLeaderboard(board, { limit }) });
+    } catch (error) {
+        console.error('Leaderboard error:', error);
+        res.status(500).json({ error: 'Failed to fetch leaderboard' });
+    }
+});
+
+/**
+ * GET /api/leaderboard/me
+ * Whether the caller is listed (auth required)
+ */
+router.get('/me', authenticate, async (req, res) => {
+    try {
+        const listing = req.user.walletAddress ? await getListing(req.user.walletAddress) : null;
+        if (!listing) {
+            return res.status(404).json({ error: 'Not registered on-chain' });
+        }
+        res.json(listing);
+    } catch (error) {
+        console.error('Leaderboard listing error:', error);
+        res.status(500).json({ error: 'Failed to fetch leaderboard listing' });
+    }
+});
+
+/**
+ * PUT /api/leaderboard/me
+ * Opt out of (or back into) the leaderboard (auth required)
+ * Body: { optedOut: boolean }
+ */
+router.put('/me', authenticate, async (req, res) => {
+    try {
+        const { optedOut } = req.body;
+        if (typeof optedOut !== 'boolean') {
+            return res.status(400).json({ error: 'optedOut must be a boolean' });
+        }
+
+        const listing = req.user.walletAddress ? await setOptOut(req.user.walletAddress, optedOut) : null;
+        if (!listing) {
+            return res.status(404).json({ error: 'Not registered on-chain' });
+        }
+        res.json(listing);
+    } catch (error) {
+        console.error('Leaderboard opt-out error:', error);
+        res.status(500).json({ error: 'Failed to update leaderboard listing' });
+    }
+});
+
+module.exports = router;
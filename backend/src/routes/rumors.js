@@ -2,9 +2,20 @@ const express = require('express');
 const router = express.Router();
 const multer = require('multer');
 const { uploadJSON, uploadFile, getContent, getGatewayUrl } = require('../services/ipfsService');
-const { processRumor } = require('../services/geminiService');
-const { getRumor, getRelatedRumors, createRumor } = require('../services/blockchainService');
+const { generateEmbedding, extractKeywords } = require('../services/geminiService');
+const { getRumor, publicRumor, getRelatedRumors, createRumor, deleteRumor, getTombstone } = require('../services/blockchainService');
 const { verifyUserToken, exportPrivateKey } = require('../services/tokenService');
+const { listRumors, getRumorStats, getIndexedRumor, syncRumor, RUMOR_STATUSES } = require('../services/indexerService');
+const { embeddingText, ensureEmbedding, querySimilar } = require('../services/embeddingService');
+const { processNewRumor, getCorrelationRecords } = require('../services/correlationService');
+const { DUPLICATE_THRESHOLDS } = require('../services/embeddingProviders');
+const { isValidThumbnail, evidenceName, recordEvidence, findReusedEvidence, describeEvidence } = require('../services/evidenceService');
+const { stripMetadata, perceptualHash } = require('../services/metadataService');
+const { parseKeywordList, mergeKeywords } = require('../services/keywordService');
+const { processDeletedRumor, getTrustLog } = require('../services/trustService');
+const { getVerdict } = require('../services/verificationService');
+const { buildVoteTimeline } = require('../services/timelineService');
+const { getAuthorRumors } = require('../services/authorHistoryService');
 
 // Configure multer for file uploads
 const upload = multer({
@@ -38,11 +49,28 @@ const authenticate = async (req, res, next) => {
     next();
 };
 
+// Middleware to identify the caller when a token is sent; anonymous requests pass through
+const identify = async (req, res, next) => {
+    const authHeader = req.headers.authorization;
+    if (authHeader && authHeader.startsWith('Bearer ')) {
+        const result = await verifyUserToken(authHeader.split(' ')[1]);
+        if (!result.valid) {
+            return res.status(401).json({ error: 'Invalid or expired token' });
+        }
+        req.user = result.user;
+    }
+    next();
+};
+
 /**
  * POST /api/rumors/create
  * Authenticated endpoint to create a rumor
  */
-router.post('/create', authenticate, upload.array('evidence', 5), async (req, res) => {
+router.post('/create', authenticate, upload.fields([
+    { name: 'evidence', maxCount: 5 },
+    // Optional browser-generated previews, named `thumb-<evidence index>.<ext>`
+    { name: 'thumbnails', maxCount: 5 },
+]), async (req, res) => {
     try {
         const { title, description } = req.body;
 
@@ -50,15 +78,66 @@ router.post('/create', authenticate, upload.array('evidence', 5), async (req, re
             return res.status(400).json({ error: 'Title and description are required' });
         }
 
-        // 1. Upload evidence files to IPFS
+        // 1. Strip identifying metadata, then upload evidence files (and their thumbnails)
         const evidenceHashes = [];
-        if (req.files && req.files.length > 0) {
-            for (const file of req.files) {
-                const result = await uploadFile(file.buffer, file.originalname, file.mimetype);
-                if (result.success) {
-                    evidenceHashes.push(result.hash);
+        const evidenceReport = [];
+        const evidenceFiles = req.files?.evidence || [];
+        const thumbnails = new Map();
+        for (const thumb of req.files?.thumbnails || []) {
+            const match = thumb.originalname.match(/^thumb-(\d+)\./);
+            if (match && isValidThumbnail(thumb)) thumbnails.set(parseInt(match[1]), thumb);
+        }
+
+        // Nothing is published unless every file could be cleaned
+        const cleanedFiles = [];
+        for (const file of evidenceFiles) {
+            const cleaned = await stripMetadata(file.buffer, file.mimetype);
+            if (!cleaned.supported) {
+                return res.status(400).json({
+                    error: `Could not check ${file.originalname} for identifying metadata; remove it or re-export it and try again`,
+                });
+            }
+            cleanedFiles.push(cleaned);
+        }
+
+        for (const [index, file] of evidenceFiles.entries()) {
+            const cleaned = cleanedFiles[index];
+            const phash = cleaned.mimeType.startsWith('image/') ? await perceptualHash(cleaned.buffer) : null;
+
+            // The original filename stays out of the content store and the evidence index
+            const name = evidenceName(index, cleaned.mimeType);
+            const result = await uploadFile(cleaned.buffer, name, cleaned.mimeType);
+            if (!result.success) continue;
+
+            let thumbnailCid = null;
+            const thumb = thumbnails.get(index);
+            if (thumb) {
+                // A thumbnail that cannot be cleaned is dropped; the evidence itself is still published
+                const cleanThumb = await stripMetadata(thumb.buffer, thumb.mimetype);
+                if (cleanThumb.supported) {
+                    const thumbResult = await uploadFile(cleanThumb.buffer, `thumb-${name}`, cleanThumb.mimeType);
+                    if (thumbResult.success) thumbnailCid = thumbResult.hash;
                 }
             }
+
+            // Look for earlier rumors using the same picture before this upload is recorded
+            const reusedIn = [...new Set(findReusedEvidence(phash).map(match => match.rumorID))];
+
+            recordEvidence({
+                cid: result.hash,
+                name,
+                mimeType: cleaned.mimeType,
+                size: cleaned.buffer.length,
+                thumbnailCid,
+                phash,
+            });
+            evidenceHashes.push(result.hash);
+            evidenceReport.push({
+                name: file.originalname,
+                cid: result.hash,
+                metadataRemoved: cleaned.removed,
+                reusedIn,
+            });
         }
 
         // 2. Create rumor content object
@@ -75,27 +154,44 @@ router.post('/create', authenticate, upload.array('evidence', 5), async (req, re
             return res.status(500).json({ error: 'Failed to upload rumor content' });
         }
 
-        // 4. Process with AI (generate keywords)
-        // We do this asynchronously to not block the response, or synchronously if needed for keywords
-        // For simplicity, we'll do basic keyword extraction or skip
-        const aiResult = await processRumor(contentResult.hash, `${title} ${description}`, []);
+        // 4. Embed the text, then merge the author's keywords with the AI ones. Clients that showed
+        // the author a keyword review send its AI keywords back, so what was reviewed is what is stored
+        const text = embeddingText({ title, description });
+        const embeddingResult = await generateEmbedding(text);
+        const embedding = embeddingResult.success ? embeddingResult.embedding : [];
+        const aiKeywords = req.body.aiKeywords !== undefined
+            ? parseKeywordList(req.body.aiKeywords)
+            : (await extractKeywords(text)).keywords || [];
+        const { keywords, rejected: rejectedKeywords } = mergeKeywords(
+            parseKeywordList(req.body.keywords),
+            aiKeywords,
+            { exclude: parseKeywordList(req.body.excludeKeywords) }
+        );
 
         // 5. Submit transaction to blockchain via user wallet (if available) or master (fallback)
         // Extract token to get private key
         const token = req.headers.authorization.split(' ')[1];
         const privateKey = exportPrivateKey(token);
 
-        const rumorId = await createRumor(contentResult.hash, evidenceHashes, aiResult.keywords || [], privateKey);
+        const rumorId = await createRumor(contentResult.hash, evidenceHashes, keywords.map(k => k.keyword), privateKey);
 
         if (!rumorId) {
             return res.status(500).json({ error: 'Failed to create rumor on blockchain' });
         }
 
+        // Index immediately so the rumor shows up in the feed without waiting for the event,
+        // then look for correlated rumors in the background
+        processNewRumor(rumorId, embedding)
+            .catch(err => console.error(`Correlation job for rumor #${rumorId} failed:`, err.message));
+
         res.json({
             success: true,
             message: 'Rumor created successfully!',
             rumorId,
             contentHash: contentResult.hash,
+            keywords: keywords.map(k => k.keyword),
+            rejectedKeywords,
+            evidenceReport,
         });
 
     } catch (error) {
@@ -104,6 +200,73 @@ router.post('/create', authenticate, upload.array('evidence', 5), async (req, re
     }
 });
 
+/**
+ * POST /api/rumors/duplicates
+ * Authenticated pre-submit check: existing rumors that look like the same story
+ * Body: { title, description, k? (1-10, default 5) }
+ */
+router.post('/duplicates', authenticate, async (req, res) => {
+    try {
+        const { title, description } = req.body;
+        const k = Math.min(Math.max(parseInt(req.body.k) || 5, 1), 10);
+
+        if (!title || !title.trim()) {
+            return res.status(400).json({ error: 'Title is required' });
+        }
+
+        // Same text the stored rumor embeddings were built from
+        const text = embeddingText({ title: String(title), description: String(description || '') });
+        const { embedding, provider } = await generateEmbedding(text);
+        const threshold = parseFloat(process.env.DUPLICATE_THRESHOLD) || DUPLICATE_THRESHOLDS[provider] || 0.8;
+
+        const duplicates = querySimilar(embedding, { k: k * 2, threshold })
+            .map(({ rumorID, similarity }) => ({ rumor: getIndexedRumor(rumorID), similarity }))
+            .filter(({ rumor }) => rumor && rumor.status !== 'DELETED')
+            .slice(0, k)
+            .map(({ rumor, similarity }) => ({
+                rumorID: rumor.rumorID,
+                title: rumor.content?.title || null,
+                description: rumor.content?.description || null,
+                currentConfidence: rumor.currentConfidence,
+                status: rumor.status,
+                createdAt: rumor.createdAt,
+                similarity: Math.round(similarity * 1000) / 1000,
+            }));
+
+        res.json({ duplicates });
+    } catch (error) {
+        console.error('Duplicate check error:', error);
+        res.status(500).json({ error: 'Failed to check for duplicates' });
+    }
+});
+
+/**
+ * POST /api/rumors/keywords
+ * Authenticated preview of the keywords /create will use for a draft
+ * Body: { title, description, keywords?: string[], excludeKeywords?: string[] }
+ */
+router.post('/keywords', authenticate, async (req, res) => {
+    try {
+        const { title, description } = req.body;
+        if (!title || !description) {
+            return res.status(400).json({ error: 'Title and description are required' });
+        }
+
+        // Same text as /create, so the LLM cache hands back the same AI keywords there
+        const { keywords: aiKeywords = [] } = await extractKeywords(`${title} ${description}`);
+        const result = mergeKeywords(
+            parseKeywordList(req.body.keywords),
+            aiKeywords,
+            { exclude: parseKeywordList(req.body.excludeKeywords) }
+        );
+
+        res.json(result);
+    } catch (error) {
+        console.error('Keyword preview error:', error);
+        res.status(500).json({ error: 'Failed to preview keywords' });
+    }
+});
+
 // LEGACY: Keep existing /prepare for backward compatibility if needed, or remove
 router.post('/prepare', upload.array('evidence', 5), async (req, res) => {
     // ... same implementation as before ...
@@ -114,96 +277,146 @@ router.post('/prepare', upload.array('evidence', 5), async (req, res) => {
 
 /**
  * GET /api/rumors
- * List rumors with optional filters
+ * List rumors with optional filters (served from the off-chain index)
+ * `search` supports free text (prefix matched, ranked) and `#keyword` exact filters
  */
 router.get('/', async (req, res) => {
     try {
         const { status, limit = 20, offset = 0, search } = req.query;
-        const limitNum = parseInt(limit);
-        const offsetNum = parseInt(offset);
-
-        // Get total rumors from blockchain
-        const { initializeProvider } = require('../services/blockchainService');
-        const { contracts } = initializeProvider();
-
-        if (!contracts.rumorRegistry) {
-            return res.json({ rumors: [], total: 0 });
-        }
-
-        const totalRumors = Number(await contracts.rumorRegistry.getTotalRumors());
-
-        if (totalRumors === 0) {
-            return res.json({ rumors: [], total: 0 });
-        }
-
-        // Fetch rumors from blockchain (newest first)
-        const rumors = [];
-        const startId = Math.max(1, totalRumors - offsetNum);
-        const endId = Math.max(1, startId - limitNum + 1);
-
-        for (let id = startId; id >= endId && id >= 1; id--) {
-            try {
-                const rumor = await getRumor(id);
-                if (rumor && rumor.visible) {
-                    // Filter by status if provided
-                    if (status && rumor.status !== status.toUpperCase()) {
-                        continue;
-                    }
-
-                    // Fetch content from IPFS
-                    let content = null;
-                    if (rumor.contentHash) {
-                        const contentResult = await getContent(rumor.contentHash);
-                        if (contentResult.success) {
-                            content = contentResult.content;
-                        }
-                    }
-
-                    rumors.push({
-                        ...rumor,
-                        content,
-                        evidenceUrls: rumor.evidenceHashes?.map(h => getGatewayUrl(h)) || [],
-                    });
-                }
-            } catch (err) {
-                console.error(`Error fetching rumor ${id}:`, err.message);
-            }
+        const limitNum = Math.min(parseInt(limit) || 20, 100);
+        const offsetNum = parseInt(offset) || 0;
+
+        const statusFilter = status ? status.toUpperCase() : undefined;
+        if (statusFilter && !RUMOR_STATUSES.includes(statusFilter)) {
+            return res.status(400).json({ error: 'Invalid status filter' });
         }
 
-        res.json({ rumors, total: totalRumors });
+        const { rumors, total } = listRumors({
+            status: statusFilter,
+            search: search ? String(search).slice(0, 200) : undefined,
+            limit: limitNum,
+            offset: offsetNum,
+        });
+        const { counts, totalVotes } = getRumorStats();
+
+        res.json({
+            rumors: rumors.map(rumor => ({
+                ...rumor,
+                evidenceUrls: rumor.evidenceHashes.map(h => getGatewayUrl(h)),
+            })),
+            total,
+            counts,
+            totalVotes,
+        });
     } catch (error) {
         console.error('Rumor list error:', error);
         res.status(500).json({ error: 'Failed to fetch rumors' });
     }
 });
 
+/**
+ * GET /api/rumors/mine
+ * The caller's own rumors, newest first (auth required; never served for other users)
+ * Query: status, limit (1-100, default 20), offset
+ */
+router.get('/mine', authenticate, async (req, res) => {
+    try {
+        const status = req.query.status ? String(req.query.status).toUpperCase() : undefined;
+        if (status && !RUMOR_STATUSES.includes(status)) {
+            return res.status(400).json({ error: 'Invalid status filter' });
+        }
+        if (!req.user.walletAddress) {
+            return res.status(400).json({ error: 'No wallet linked to this account' });
+        }
+
+        const limit = Math.min(Math.max(parseInt(req.query.limit) || 20, 1), 100);
+        const offset = Math.max(parseInt(req.query.offset) || 0, 0);
+        const { rumors, total, counts } = await getAuthorRumors(req.user.walletAddress, { status, limit, offset });
+
+        // Ties the caller's identity to their rumors: keep it out of shared caches
+        res.set('Cache-Control', 'private, no-store');
+        res.json({ rumors, total, counts, limit, offset });
+    } catch (error) {
+        console.error('Author rumors error:', error);
+        res.status(500).json({ error: 'Failed to fetch your rumors' });
+    }
+});
+
 /**
  * GET /api/rumors/:id
- * Get rumor details
+ * Get rumor details. The author is never included; with a token, `isAuthor`
+ * tells the caller whether they posted it.
  */
-router.get('/:id', async (req, res) => {
+router.get('/:id', identify, async (req, res) => {
     try {
         const rumorID = req.params.id;
-        const blockchainData = await getRumor(parseInt(rumorID));
+        const onChain = await getRumor(parseInt(rumorID));
 
-        if (!blockchainData) {
+        if (!onChain) {
             return res.status(404).json({ error: 'Rumor not found' });
         }
 
-        // Fetch content if needed
+        const blockchainData = publicRumor(onChain);
+        const wallet = req.user?.walletAddress;
+        const isAuthor = !!wallet && onChain.authorWallet.toLowerCase() === wallet.toLowerCase();
+        // isAuthor differs per caller
+        if (wallet) res.set('Cache-Control', 'private, no-store');
+
+        // Deleted rumors are served as tombstones: numbers only, no content or evidence
+        if (blockchainData.status === 'DELETED') {
+            return res.json({
+                rumorID: blockchainData.rumorID,
+                isAuthor,
+                status: blockchainData.status,
+                visible: false,
+                createdAt: blockchainData.createdAt,
+                currentConfidence: blockchainData.currentConfidence,
+                totalConfirmVotes: blockchainData.totalConfirmVotes,
+                totalDisputeVotes: blockchainData.totalDisputeVotes,
+                evidenceHashes: [],
+                keywords: [],
+                tombstone: await getTombstone(parseInt(rumorID)),
+                trustLog: getTrustLog(rumorID),
+            });
+        }
+
+        // Fetch content if needed (rejected if it does not hash to the on-chain contentHash)
         let content = null;
+        let contentIntegrity = 'unavailable';
         if (blockchainData.contentHash) {
             const contentResult = await getContent(blockchainData.contentHash);
             if (contentResult.success) content = contentResult.content;
+            contentIntegrity = contentResult.integrity || 'unavailable';
         }
 
         const related = await getRelatedRumors(parseInt(rumorID));
+        const records = getCorrelationRecords(rumorID);
+        const describe = (id) => {
+            const indexed = getIndexedRumor(id);
+            const record = records.find(r => r.rumorA === id || r.rumorB === id);
+            return {
+                rumorID: id,
+                title: indexed?.content?.title || null,
+                currentConfidence: indexed?.currentConfidence ?? null,
+                status: indexed?.status ?? null,
+                aiConfidence: record?.confidence ?? null,
+                reasoning: record?.reasoning || null,
+            };
+        };
 
         res.json({
             ...blockchainData,
+            isAuthor,
             content,
-            relatedRumors: related,
+            contentIntegrity,
+            relatedRumors: {
+                supportive: related.supportive.map(describe),
+                contradictory: related.contradictory.map(describe),
+            },
             evidenceUrls: blockchainData.evidenceHashes?.map(h => getGatewayUrl(h)) || [],
+            evidence: describeEvidence(blockchainData.evidenceHashes || [], getGatewayUrl),
+            trustLog: getTrustLog(rumorID),
+            verdict: getVerdict(rumorID),
         });
     } catch (error) {
         console.error('Rumor fetch error:', error);
@@ -211,6 +424,135 @@ router.get('/:id', async (req, res) => {
     }
 });
 
+/**
+ * DELETE /api/rumors/:id
+ * Authenticated: the author deletes their rumor from their own wallet.
+ * The contract keeps a tombstone (final confidence, vote count); locked rumors cannot be deleted.
+ */
+router.delete('/:id', authenticate, async (req, res) => {
+    try {
+        const rumorID = parseInt(req.params.id);
+        if (!rumorID || rumorID < 1) {
+            return res.status(400).json({ error: 'Invalid rumor ID' });
+        }
+
+        const rumor = await getRumor(rumorID);
+        if (!rumor) {
+            return res.status(404).json({ error: 'Rumor not found' });
+        }
+        if (!req.user.walletAddress || rumor.authorWallet.toLowerCase() !== req.user.walletAddress.toLowerCase()) {
+            return res.status(403).json({ error: 'Only the author can delete this rumor' });
+        }
+        if (rumor.status === 'DELETED') {
+            return res.status(409).json({ error: 'Rumor is already deleted' });
+        }
+        if (rumor.status === 'LOCKED') {
+            return res.status(409).json({ error: 'Locked rumors cannot be deleted' });
+        }
+
+        const token = req.headers.authorization.split(' ')[1];
+        const privateKey = exportPrivateKey(token);
+        if (!privateKey) {
+            return res.status(500).json({ error: 'Could not retrieve wallet key' });
+        }
+
+        const txHash = await deleteRumor(rumorID, privateKey);
+
+        // Update the index now rather than waiting for the RumorDeleted event,
+        // then pass the tombstone's trust on to correlated rumors in the background
+        await syncRumor(rumorID);
+        processDeletedRumor(rumorID)
+            .catch(err => console.error(`Trust redistribution for rumor #${rumorID} failed:`, err.message));
+
+        res.json({
+            success: true,
+            message: 'Rumor deleted',
+            rumorId: rumorID,
+            txHash,
+            tombstone: await getTombstone(rumorID),
+        });
+    } catch (error) {
+        console.error('Delete rumor error:', error);
+        res.status(500).json({ error: 'Failed to delete rumor' });
+    }
+});
+
+/**
+ * GET /api/rumors/:id/votes
+ * Anonymized vote timeline: cumulative weighted scores and confidence after
+ * each vote, plus lock, correlation boost and trust transfer markers
+ */
+router.get('/:id/votes', async (req, res) => {
+    try {
+        const rumorID = parseInt(req.params.id);
+        if (!rumorID || rumorID < 1) {
+            return res.status(400).json({ error: 'Invalid rumor ID' });
+        }
+
+        const timeline = await buildVoteTimeline(rumorID);
+        if (!timeline) {
+            return res.status(404).json({ error: 'Rumor not found' });
+        }
+
+        res.json(timeline);
+    } catch (error) {
+        console.error('Vote timeline error:', error);
+        res.status(500).json({ error: 'Failed to fetch vote timeline' });
+    }
+});
+
+/**
+ * GET /api/rumors/:id/similar
+ * Nearest neighbours by embedding similarity
+ * Query: k (1-20, default 5), threshold (0-1, default 0.75)
+ */
+router.get('/:id/similar', async (req, res) => {
+    try {
+        const rumorID = parseInt(req.params.id);
+        const k = Math.min(Math.max(parseInt(req.query.k) || 5, 1), 20);
+        const threshold = req.query.threshold !== undefined ? parseFloat(req.query.threshold) : 0.75;
+
+        if (!rumorID || rumorID < 1) {
+            return res.status(400).json({ error: 'Invalid rumor ID' });
+        }
+        if (isNaN(threshold) || threshold < 0 || threshold > 1) {
+            return res.status(400).json({ error: 'Threshold must be between 0 and 1' });
+        }
+
+        let rumor = getIndexedRumor(rumorID);
+        if (!rumor) {
+            await syncRumor(rumorID);
+            rumor = getIndexedRumor(rumorID);
+        }
+        if (!rumor) {
+            return res.status(404).json({ error: 'Rumor not found' });
+        }
+
+        const embedding = await ensureEmbedding(rumor);
+        if (!embedding) {
+            return res.json({ rumorId: rumorID, similar: [] });
+        }
+
+        // Over-fetch so deleted rumors can be dropped without coming up short
+        const similar = querySimilar(embedding, { k: k * 2, threshold, exclude: [rumorID] })
+            .map(({ rumorID: id, similarity }) => ({ rumor: getIndexedRumor(id), similarity }))
+            .filter(({ rumor }) => rumor && rumor.status !== 'DELETED')
+            .slice(0, k)
+            .map(({ rumor, similarity }) => ({
+                rumorID: rumor.rumorID,
+                title: rumor.content?.title || null,
+                currentConfidence: rumor.currentConfidence,
+                status: rumor.status,
+                similarity: Math.round(similarity * 1000) / 1000,
+            }));
+
+        res.json({ rumorId: rumorID, similar });
+    } catch (error) {
+        console.error('Similar rumors error:', error);
+        res.status(500).json({ error: 'Failed to fetch similar rumors' });
+    }
+});
+
 /**
  * GET /api/rumors/:id/content
  */
@@ -0,0 +1,25 @@
+const express = require('express');
+const router = express.Router();
+const { subscribe } = require('../services/streamService');
+
+/**
+ * GET /api/stream
+ * Server-Sent Events for every rumor (RumorCreated, VoteCast, ConfidenceUpdated, RumorLocked)
+ */
+router.get('/', (req, res) => {
+    subscribe(req, res);
+});
+
+/**
+ * GET /api/stream/rumors/:id
+ * Server-Sent Events for a single rumor
+ */
+router.get('/rumors/:id', (req, res) => {
+    const rumorID = parseInt(req.params.id);
+    if (!rumorID || rumorID < 1) {
+        return res.status(400).json({ error: 'Invalid rumor ID' });
+    }
+    subscribe(req, res, rumorID);
+});
+
+module.exports = router;
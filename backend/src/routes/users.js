@@ -1,6 +1,77 @@
 const express = require('express');
 const router = express.Router();
-const { getStudent, hasUserVoted } = require('../services/blockchainService');
+const { getStudent, hasUserVoted, getVotingAllowance } = require('../services/blockchainService');
+const { getVoterHistory } = require('../services/voteHistoryService');
+const { getCredibilityHistory } = require('../services/credibilityHistoryService');
+const { verifyUserToken } = require('../services/tokenService');
+
+// Middleware to check token
+const authenticate = async (req, res, next) => {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        return res.status(401).json({ error: 'No token provided' });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const result = await verifyUserToken(token);
+
+    if (!result.valid) {
+        return res.status(401).json({ error: 'Invalid or expired token' });
+    }
+
+    req.user = result.user;
+    next();
+};
+
+/**
+ * GET /api/users/me/credibility-history
+ * The caller's credibility score over time, each change linked to the rumor
+ * that caused it, plus status changes (auth required; never served for other users)
+ */
+router.get('/me/credibility-history', authenticate, async (req, res) => {
+    try {
+        if (!req.user.walletAddress) {
+            return res.status(400).json({ error: 'No wallet linked to this account' });
+        }
+
+        const history = await getCredibilityHistory(req.user.walletAddress);
+        if (!history) {
+            return res.status(404).json({ error: 'Not registered on-chain' });
+        }
+
+        // Ties the caller's identity to rumors they posted and voted on
+        res.set('Cache-Control', 'private, no-store');
+        res.json(history);
+    } catch (error) {
+        console.error('Credibility history error:', error);
+        res.status(500).json({ error: 'Failed to fetch credibility history' });
+    }
+});
+
+/**
+ * GET /api/users/me/votes
+ * The caller's votes, newest first, with rumor title, tx hash and outcome
+ * (auth required; never served for other users)
+ * Query: limit (1-100, default 20), offset
+ */
+router.get('/me/votes', authenticate, async (req, res) => {
+    try {
+        if (!req.user.walletAddress) {
+            return res.status(400).json({ error: 'No wallet linked to this account' });
+        }
+
+        const limit = Math.min(Math.max(parseInt(req.query.limit) || 20, 1), 100);
+        const offset = Math.max(parseInt(req.query.offset) || 0, 0);
+        const { votes, total } = await getVoterHistory(req.user.walletAddress, { limit, offset });
+
+        // Every rumor the caller voted on and which way
+        res.set('Cache-Control', 'private, no-store');
+        res.json({ votes, total, limit, offset });
+    } catch (error) {
+        console.error('Vote history error:', error);
+        res.status(500).json({ error: 'Failed to fetch vote history' });
+    }
+});
 
 /**
  * GET /api/users/:address
@@ -48,6 +119,31 @@ router.get('/:address/votes/:rumorId', async (req, res) => {
     }
 });
 
+/**
+ * GET /api/users/:address/voting-power
+ * Current voting weight and votes left this hour (MAX_VOTES_PER_HOUR)
+ */
+router.get('/:address/voting-power', async (req, res) => {
+    try {
+        const { address } = req.params;
+
+        if (!address || !address.startsWith('0x')) {
+            return res.status(400).json({ error: 'Invalid wallet address' });
+        }
+
+        const allowance = await getVotingAllowance(address);
+
+        if (!allowance) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+
+        res.json(allowance);
+    } catch (error) {
+        console.error('Voting power fetch error:', error);
+        res.status(500).json({ error: 'Failed to fetch voting power' });
+    }
+});
+
 /**
  * GET /api/users/:address/stats
  * Get user statistics
@@ -0,0 +1,84 @@
+const express = require('express');
+const router = express.Router();
+const { getVerificationPolicy, listVerdicts, getVerdict, previewOutcomes, OUTCOMES } = require('../services/verificationService');
+const { verifyUserToken } = require('../services/tokenService');
+
+// Middleware to identify the caller when a token is sent; anonymous requests pass through
+const identify = async (req, res, next) => {
+    const authHeader = req.headers.authorization;
+    if (authHeader && authHeader.startsWith('Bearer ')) {
+        const result = await verifyUserToken(authHeader.split(' ')[1]);
+        if (!result.valid) {
+            return res.status(401).json({ error: 'Invalid or expired token' });
+        }
+        req.user = result.user;
+    }
+    next();
+};
+
+/**
+ * GET /api/verification
+ * Current decision policy and recorded verdicts (optionally filtered by outcome)
+ */
+router.get('/', (req, res) => {
+    try {
+        const outcome = req.query.outcome ? String(req.query.outcome).toUpperCase() : undefined;
+        if (outcome && !OUTCOMES.includes(outcome)) {
+            return res.status(400).json({ error: `Invalid outcome (expected one of ${OUTCOMES.join(', ')})` });
+        }
+
+        const limit = Math.min(parseInt(req.query.limit) || 20, 100);
+        const offset = Math.max(parseInt(req.query.offset) || 0, 0);
+        const { verdicts, total } = listVerdicts({ outcome, limit, offset });
+
+        res.json({ policy: getVerificationPolicy(), verdicts, total, limit, offset });
+    } catch (error) {
+        console.error('Verdict list error:', error);
+        res.status(500).json({ error: 'Failed to fetch verdicts' });
+    }
+});
+
+/**
+ * GET /api/verification/:rumorId/preview
+ * Projected credibility change per cohort (author, confirm voters, dispute voters)
+ * under either outcome; with a token, `you` holds the caller's own stake
+ */
+router.get('/:rumorId/preview', identify, async (req, res) => {
+    try {
+        const rumorID = parseInt(req.params.rumorId);
+        if (!rumorID || rumorID < 1) {
+            return res.status(400).json({ error: 'Invalid rumor ID' });
+        }
+
+        // Only ever the caller's own wallet: a vote and authorship are not public
+        const wallet = req.user?.walletAddress || undefined;
+        const preview = await previewOutcomes(rumorID, wallet);
+        if (!preview) {
+            return res.status(404).json({ error: 'Rumor not found' });
+        }
+        if (wallet) res.set('Cache-Control', 'private, no-store');
+        res.json(preview);
+    } catch (error) {
+        console.error('Verification preview error:', error);
+        res.status(500).json({ error: 'Failed to preview verification' });
+    }
+});
+
+/**
+ * GET /api/verification/:rumorId
+ * Verdict for a rumor with the inputs, policy and inputs hash it was decided from
+ */
+router.get('/:rumorId', (req, res) => {
+    try {
+        const verdict = getVerdict(parseInt(req.params.rumorId));
+        if (!verdict) {
+            return res.status(404).json({ error: 'No verdict for this rumor' });
+        }
+        res.json(verdict);
+    } catch (error) {
+        console.error('Verdict fetch error:', error);
+        res.status(500).json({ error: 'Failed to fetch verdict' });
+    }
+});
+
+module.exports = router;
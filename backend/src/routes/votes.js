@@ -44,11 +44,12 @@ router.post('/', authenticate, async (req, res) => {
             return res.status(500).json({ error: 'Could not retrieve wallet key' });
         }
 
-        await voteOnRumor(rumorId, isConfirm, privateKey);
+        const receipt = await voteOnRumor(rumorId, isConfirm, privateKey);
 
         res.json({
             success: true,
             message: 'Vote cast successfully!',
+            receipt,
         });
     } catch (error) {
         console.error('Vote error:', error);
@@ -0,0 +1,70 @@
+/**
+ * Author History Service
+ *
+ * The rumors a student has posted (RumorRegistry.getRumorsByAuthor), for
+ * the author's own profile. Only reachable with the author's token: the
+ * list ties a studentID to rumors, so it is never served publicly and the
+ * entries carry no author ID or wallet.
+ */
+
+const { getStudent, getRumorsByAuthor } = require('./blockchainService');
+const { getIndexedRumor, syncRumor, RUMOR_STATUSES } = require('./indexerService');
+const { getVerdict } = require('./verificationService');
+
+/**
+ * How a rumor ended up
+ * @returns {'TRUE'|'FALSE'|'INCONCLUSIVE'|null} Null while voting is open, before a verdict, or once deleted
+ */
+function rumorOutcome(rumor) {
+    if (rumor.status === 'VERIFIED') return 'TRUE';
+    if (rumor.status === 'DEBUNKED') return 'FALSE';
+    if (rumor.status === 'LOCKED' && getVerdict(rumor.rumorID)?.outcome === 'INCONCLUSIVE') return 'INCONCLUSIVE';
+    return null;
+}
+
+/**
+ * One page of an author's rumors, newest first
+ * @param {string} walletAddress - Author wallet (from the auth token)
+ * @param {{status?: string, limit?: number, offset?: number}} [options]
+ * @returns {Promise<{rumors: object[], total: number, counts: object}>}
+ */
+async function getAuthorRumors(walletAddress, { status, limit = 20, offset = 0 } = {}) {
+    const counts = Object.fromEntries(RUMOR_STATUSES.map(s => [s, 0]));
+
+    const student = await getStudent(walletAddress);
+    if (!student) return { rumors: [], total: 0, counts };
+
+    const rumors = [];
+    for (const rumorID of (await getRumorsByAuthor(student.studentID)).reverse()) {
+        let rumor = getIndexedRumor(rumorID);
+        if (!rumor) {
+            // Not reached by the indexer yet
+            await syncRumor(rumorID);
+            rumor = getIndexedRumor(rumorID);
+        }
+        if (!rumor) continue;
+        counts[rumor.status] = (counts[rumor.status] || 0) + 1;
+        rumors.push(rumor);
+    }
+
+    const filtered = status ? rumors.filter(rumor => rumor.status === status) : rumors;
+
+    return {
+        rumors: filtered.slice(offset, offset + limit).map(rumor => ({
+            rumorID: rumor.rumorID,
+            // Deleted rumors keep only their numbers in the index
+            title: rumor.content?.title || null,
+            status: rumor.status,
+            currentConfidence: parseInt(rumor.currentConfidence),
+            totalVotes: parseInt(rumor.totalConfirmVotes) + parseInt(rumor.totalDisputeVotes),
+            createdAt: rumor.createdAt,
+            outcome: rumorOutcome(rumor),
+        })),
+        total: filtered.length,
+        counts,
+    };
+}
+
+module.exports = {
+    getAuthorRumors,
+};
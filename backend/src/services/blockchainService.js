@@ -11,16 +11,26 @@ const IDENTITY_REGISTRY_ABI = [
     'function registerStudent(bytes32 emailHMAC, bytes signature) external',
     'function getStudent(address wallet) view returns (tuple(uint256 studentID, address walletAddress, bytes32 emailHMAC, uint256 credibilityScore, uint8 status, uint256 votingPower, uint256 registeredAt, uint256 totalPosts, uint256 totalVotes, uint256 accuratePredictions, uint256 inaccuratePredictions, uint256 discreditedUntil, uint256 postsToday, uint256 lastPostDate, uint256 votesThisHour, uint256 lastVoteHour))',
     'function isRegistered(address wallet) view returns (bool)',
+    'function getVotingWeight(address wallet) view returns (uint256)',
+    'function nextStudentID() view returns (uint256)',
+    'function studentIDToWallet(uint256 studentID) view returns (address)',
 ];
 
 const RUMOR_REGISTRY_ABI = [
     'event RumorCreated(uint256 indexed rumorID, uint256 indexed authorID, string contentHash, int256 initialConfidence, uint256 timestamp)',
     'event ConfidenceUpdated(uint256 indexed rumorID, int256 newConfidence, uint256 timestamp)',
     'event RumorLocked(uint256 indexed rumorID, int256 finalConfidence, uint256 timestamp)',
+    'event RumorVerified(uint256 indexed rumorID, bool isTrue, uint256 timestamp)',
     'event RumorDeleted(uint256 indexed rumorID, uint256 indexed authorID, int256 finalConfidence)',
     'function createRumor(string contentHash, string[] evidenceHashes, string[] keywords) returns (uint256)',
     'function getRumor(uint256 rumorID) view returns (tuple(uint256 rumorID, uint256 authorID, address authorWallet, string contentHash, string[] evidenceHashes, bool hasEvidence, int256 initialConfidence, int256 currentConfidence, int256 lockedConfidence, uint8 status, bool visible, uint256 createdAt, uint256 lockedAt, uint256 totalConfirmVotes, uint256 totalDisputeVotes, int256 weightedConfirmScore, int256 weightedDisputeScore, string[] keywords))',
     'function getTotalRumors() view returns (uint256)',
+    'function getRumorsByAuthor(uint256 authorID) view returns (uint256[])',
+    'function isEligibleForLock(uint256 rumorID) view returns (bool)',
+    'function lockRumor(uint256 rumorID) external',
+    'function deleteRumor(uint256 rumorID) external',
+    'function addTrustBonus(uint256 rumorID, int256 bonus) external',
+    'function tombstones(uint256 rumorID) view returns (uint256 originalRumorID, int256 finalConfidence, uint256 voteCount, uint256 deletedAt, uint256 deletedBy, bool trustRedistributed)',
 ];
 
 const VOTING_SYSTEM_ABI = [
@@ -28,13 +38,44 @@ const VOTING_SYSTEM_ABI = [
     'function voteOnRumor(uint256 rumorID, uint8 voteType) external returns (uint256)',
     'function getVote(uint256 voteID) view returns (tuple(uint256 voteID, uint256 rumorID, uint256 voterID, address voterWallet, uint8 voteType, uint256 voterWeight, uint256 voterCredibility, uint256 timestamp))',
     'function getVotesForRumor(uint256 rumorID) view returns (uint256[])',
+    'function getVotesByVoter(address voter) view returns (uint256[])',
     'function hasUserVoted(uint256 rumorID, address voter) view returns (bool)',
+    'function getVoteAnalytics(uint256 rumorID) view returns (uint256 totalVotes, uint256 weightedConfirm, uint256 weightedDispute)',
+    'function MAX_VOTES_PER_HOUR() view returns (uint256)',
 ];
 
 const CORRELATION_MANAGER_ABI = [
     'event CorrelationAdded(uint256 indexed rumorA, uint256 indexed rumorB, uint8 relationshipType, uint256 aiConfidence)',
     'event CorrelationBoostApplied(uint256 indexed rumorID, int256 boost, uint256 credibleSupportCount)',
     'function getRelatedRumors(uint256 rumorID) view returns (uint256[] supportive, uint256[] contradictory)',
+    'function addCorrelations(uint256[] rumorAs, uint256[] rumorBs, uint8[] types, uint256[] confidences) external',
+    'function CORRELATION_VALIDITY_DAYS() view returns (uint256)',
+    'function deactivateCorrelations(uint256 rumorID) external',
+];
+
+const VERIFICATION_CONTROLLER_ABI = [
+    'event RumorVerificationCompleted(uint256 indexed rumorID, bool isTrue, uint256 totalRewardsDistributed, uint256 totalPenaltiesApplied)',
+    'event AuthorRewarded(uint256 indexed rumorID, uint256 indexed authorID, uint256 amount)',
+    'event AuthorPenalized(uint256 indexed rumorID, uint256 indexed authorID, uint256 amount)',
+    'event VoterRewarded(uint256 indexed rumorID, address indexed voter, uint256 amount)',
+    'event VoterPenalized(uint256 indexed rumorID, address indexed voter, uint256 amount)',
+    'function batchVerify(uint256[] rumorIDs, bool[] results) external',
+    'function getVerificationStatus(uint256 rumorID) view returns (bool isVerified, bool result)',
+    'function previewVerification(uint256 rumorID, bool isTrue) view returns (uint256 totalRewards, uint256 totalPenalties)',
+    'function AUTHOR_REWARD_TRUE() view returns (uint256)',
+    'function AUTHOR_PENALTY_FALSE() view returns (uint256)',
+    'function VOTER_REWARD_CORRECT() view returns (uint256)',
+    'function VOTER_PENALTY_WRONG_CONFIRM() view returns (uint256)',
+    'function VOTER_REWARD_CORRECT_DISPUTE() view returns (uint256)',
+    'function VOTER_PENALTY_WRONG_DISPUTE() view returns (uint256)',
+];
+
+const AUTOMATION_KEEPER_ABI = [
+    'event RumorsLocked(uint256[] rumorIDs, uint256 timestamp)',
+    'function checkUpkeep(bytes checkData) view returns (bool upkeepNeeded, bytes performData)',
+    'function performUpkeep(bytes performData) external',
+    'function getEligibleLockCount() view returns (uint256)',
+    'function batchSize() view returns (uint256)',
 ];
 
 /**
@@ -87,6 +128,22 @@ function initializeProvider() {
                 signerOrProvider
             );
         }
+
+        if (process.env.VERIFICATION_CONTROLLER_ADDRESS) {
+            contracts.verificationController = new ethers.Contract(
+                process.env.VERIFICATION_CONTROLLER_ADDRESS,
+                VERIFICATION_CONTROLLER_ABI,
+                signerOrProvider
+            );
+        }
+
+        if (process.env.AUTOMATION_KEEPER_ADDRESS) {
+            contracts.automationKeeper = new ethers.Contract(
+                process.env.AUTOMATION_KEEPER_ADDRESS,
+                AUTOMATION_KEEPER_ABI,
+                signerOrProvider
+            );
+        }
     }
 
     return { provider, contracts };
@@ -142,11 +199,125 @@ async function createRumor(contentHash, evidenceHashes, keywords, privateKey) {
     }
 }
 
+/**
+ * Delete a rumor (soft delete; the contract records a tombstone)
+ * @param {number} rumorID - Rumor ID
+ * @param {string} privateKey - Author's private key (only the author may delete)
+ * @returns {Promise<string>} Transaction hash
+ */
+async function deleteRumor(rumorID, privateKey) {
+    const { contracts, provider } = initializeProvider();
+
+    if (!contracts.rumorRegistry) {
+        throw new Error('RumorRegistry contract not initialized');
+    }
+
+    const signer = new ethers.Wallet(privateKey, provider);
+    const contractWithSigner = contracts.rumorRegistry.connect(signer);
+
+    try {
+        console.log(`🗑️ Deleting rumor ${rumorID}`);
+        const tx = await contractWithSigner.deleteRumor(rumorID);
+        const receipt = await tx.wait();
+
+        console.log('✅ Rumor deleted:', receipt.hash);
+        return receipt.hash;
+    } catch (error) {
+        console.error('Delete rumor error:', error);
+        throw error;
+    }
+}
+
+/**
+ * Get the tombstone of a deleted rumor. trustRedistributed comes from the
+ * off-chain redistribution log; the on-chain flag is never set.
+ * @param {number} rumorID - Rumor ID
+ * @returns {Promise<{finalConfidence: string, voteCount: string, deletedAt: string, trustRedistributed: boolean}|null>}
+ */
+async function getTombstone(rumorID) {
+    const { contracts } = initializeProvider();
+
+    if (!contracts.rumorRegistry) {
+        return null;
+    }
+
+    try {
+        const tombstone = await contracts.rumorRegistry.tombstones(rumorID);
+        if (tombstone.originalRumorID.toString() === '0') return null;
+
+        return {
+            finalConfidence: tombstone.finalConfidence.toString(),
+            voteCount: tombstone.voteCount.toString(),
+            deletedAt: new Date(Number(tombstone.deletedAt) * 1000).toISOString(),
+            trustRedistributed: require('./trustService').isTrustRedistributed(rumorID),
+        };
+    } catch (error) {
+        console.error('Error fetching tombstone:', error);
+        return null;
+    }
+}
+
+/**
+ * Move trust from a deleted rumor onto a related ACTIVE rumor (RumorRegistry owner only)
+ * @param {number} rumorID - Rumor receiving the bonus
+ * @param {number} bonus - Confidence change (negative for a penalty)
+ * @param {string} [privateKey] - Owner private key (otherwise uses Master)
+ * @returns {Promise<string>} Transaction hash
+ */
+async function addTrustBonus(rumorID, bonus, privateKey) {
+    const { contracts, provider } = initializeProvider();
+
+    if (!contracts.rumorRegistry) {
+        throw new Error('RumorRegistry contract not initialized');
+    }
+
+    let contractWithSigner = contracts.rumorRegistry;
+    if (privateKey) {
+        const signer = new ethers.Wallet(privateKey, provider);
+        contractWithSigner = contracts.rumorRegistry.connect(signer);
+    } else if (!contracts.rumorRegistry.runner) {
+        throw new Error('Contract is read-only and no private key provided');
+    }
+
+    console.log(`⚖️  Trust bonus for rumor ${rumorID}: ${bonus > 0 ? '+' : ''}${bonus}`);
+    const tx = await contractWithSigner.addTrustBonus(rumorID, bonus);
+    const receipt = await tx.wait();
+    return receipt.hash;
+}
+
+/**
+ * Deactivate every correlation involving a rumor (CorrelationManager owner only)
+ * @param {number} rumorID - Deleted rumor
+ * @param {string} [privateKey] - Owner private key (otherwise uses Master)
+ * @returns {Promise<string>} Transaction hash
+ */
+async function deactivateCorrelations(rumorID, privateKey) {
+    const { contracts, provider } = initializeProvider();
+
+    if (!contracts.correlationManager) {
+        throw new Error('CorrelationManager contract not initialized');
+    }
+
+    let contractWithSigner = contracts.correlationManager;
+    if (privateKey) {
+        const signer = new ethers.Wallet(privateKey, provider);
+        contractWithSigner = contracts.correlationManager.connect(signer);
+    } else if (!contracts.correlationManager.runner) {
+        throw new Error('Contract is read-only and no private key provided');
+    }
+
+    console.log(`🔗 Deactivating correlations of rumor ${rumorID}`);
+    const tx = await contractWithSigner.deactivateCorrelations(rumorID);
+    const receipt = await tx.wait();
+    return receipt.hash;
+}
+
 /**
  * Vote on a rumor
  * @param {number} rumorID - Rumor ID
  * @param {boolean} isConfirm - True for confirm, False for dispute
  * @param {string} [privateKey] - Optional private key
+ * @returns {Promise<object>} Vote receipt (vote ID, weight, tx hash, block number)
  */
 async function voteOnRumor(rumorID, isConfirm, privateKey) {
     const { contracts, provider } = initializeProvider();
@@ -168,16 +339,73 @@ async function voteOnRumor(rumorID, isConfirm, privateKey) {
         console.log(`🗳️ Voting on rumor ${rumorID}: ${isConfirm ? 'CONFIRM' : 'DISPUTE'}`);
 
         const tx = await contractWithSigner.voteOnRumor(rumorID, voteType);
-        await tx.wait();
+        const receipt = await tx.wait();
 
-        console.log('✅ Vote confirmed');
-        return true;
+        console.log('✅ Vote confirmed:', receipt.hash);
+
+        // Receipt for the voter, built from the VoteCast event
+        const event = receipt.logs
+            .map(log => {
+                try { return contracts.votingSystem.interface.parseLog(log); } catch (e) { return null; }
+            })
+            .find(parsed => parsed && parsed.name === 'VoteCast');
+
+        return {
+            voteID: event ? event.args.voteID.toString() : null,
+            rumorID: String(rumorID),
+            voteType: isConfirm ? 'CONFIRM' : 'DISPUTE',
+            weight: event ? Number(event.args.weight) : null,
+            voter: receipt.from,
+            txHash: receipt.hash,
+            blockNumber: receipt.blockNumber,
+            timestamp: event ? new Date(Number(event.args.timestamp) * 1000).toISOString() : null,
+            votingSystem: process.env.VOTING_SYSTEM_ADDRESS,
+        };
     } catch (error) {
         console.error('Vote error:', error);
         throw error;
     }
 }
 
+/**
+ * Submit AI-detected correlations to CorrelationManager
+ * @param {Array<{rumorA: number, rumorB: number, relationship: string, confidence: number}>} correlations
+ *   relationship is 'supportive' or 'contradictory'; confidence is 0-1
+ * @param {string} [privateKey] - Oracle private key (otherwise uses Master)
+ * @returns {Promise<string>} Transaction hash
+ */
+async function addCorrelations(correlations, privateKey) {
+    const { contracts, provider } = initializeProvider();
+
+    if (!contracts.correlationManager) {
+        throw new Error('CorrelationManager contract not initialized');
+    }
+
+    let contractWithSigner = contracts.correlationManager;
+    if (privateKey) {
+        const signer = new ethers.Wallet(privateKey, provider);
+        contractWithSigner = contracts.correlationManager.connect(signer);
+    } else if (!contracts.correlationManager.runner) {
+        throw new Error('Contract is read-only and no private key provided');
+    }
+
+    try {
+        const rumorAs = correlations.map(c => c.rumorA);
+        const rumorBs = correlations.map(c => c.rumorB);
+        const types = correlations.map(c => (c.relationship === 'contradictory' ? 1 : 0));
+        const confidences = correlations.map(c => Math.round(Math.min(Math.max(c.confidence, 0), 1) * 100));
+
+        console.log(`🔗 Submitting ${correlations.length} correlation(s) on-chain`);
+        const tx = await contractWithSigner.addCorrelations(rumorAs, rumorBs, types, confidences);
+        await tx.wait();
+
+        console.log('✅ Correlations confirmed:', tx.hash);
+        return tx.hash;
+    } catch (error) {
+        console.error('Add correlations error:', error);
+        throw error;
+    }
+}
 
 /**
  * Set up event listeners for blockchain events with reconnection logic
@@ -185,6 +413,15 @@ async function voteOnRumor(rumorID, isConfirm, privateKey) {
 async function initializeBlockchainListeners() {
     try {
         const { provider, contracts } = initializeProvider();
+        const indexer = require('./indexerService');
+        const stream = require('./streamService');
+
+        // Re-index the rumor, then push the fresh snapshot to SSE subscribers
+        const indexAndPublish = (eventName, rumorID, log, extra = {}) => {
+            return indexer.handleRumorEvent(rumorID, log).then(rumor => {
+                if (rumor) stream.publish(eventName, { rumorID: rumor.rumorID, rumor, ...extra });
+            });
+        };
 
         // Clear existing listeners to avoid duplicates on restart
         if (provider) provider.removeAllListeners();
@@ -210,31 +447,85 @@ async function initializeBlockchainListeners() {
         if (contracts.identityRegistry) {
             setupListener(contracts.identityRegistry, 'StudentRegistered', (studentID, wallet, timestamp) => {
                 console.log(`📝 New student registered: ID=${studentID}, wallet=${wallet}`);
+                indexer.handleStudentEvent(studentID);
             });
 
-            setupListener(contracts.identityRegistry, 'StatusChanged', (studentID, oldStatus, newStatus) => {
+            setupListener(contracts.identityRegistry, 'StatusChanged', (studentID, oldStatus, newStatus, event) => {
                 console.log(`🔄 Status changed: ID=${studentID}, ${oldStatus} → ${newStatus}`);
+                indexer.handleStudentEvent(studentID, { oldStatus, newStatus }, event.log);
+            });
+
+            setupListener(contracts.identityRegistry, 'CredibilityUpdated', (studentID, oldScore, newScore, event) => {
+                console.log(`⭐ Credibility updated: ID=${studentID}, ${oldScore} → ${newScore}`);
+                indexer.handleStudentEvent(studentID, { oldScore, newScore }, event.log);
             });
         }
 
         if (contracts.rumorRegistry) {
-            setupListener(contracts.rumorRegistry, 'RumorCreated', (rumorID, authorID, contentHash, confidence, timestamp) => {
+            setupListener(contracts.rumorRegistry, 'RumorCreated', (rumorID, authorID, contentHash, confidence, timestamp, event) => {
                 console.log(`📢 New rumor: ID=${rumorID}, author=${authorID}, confidence=${confidence}`);
+                indexAndPublish('RumorCreated', rumorID, event.log);
             });
 
-            setupListener(contracts.rumorRegistry, 'ConfidenceUpdated', (rumorID, newConfidence, timestamp) => {
+            setupListener(contracts.rumorRegistry, 'ConfidenceUpdated', (rumorID, newConfidence, timestamp, event) => {
                 console.log(`📊 Confidence updated: ID=${rumorID}, confidence=${newConfidence}`);
+                indexAndPublish('ConfidenceUpdated', rumorID, event.log, { newConfidence: newConfidence.toString() });
             });
 
-            setupListener(contracts.rumorRegistry, 'RumorLocked', (rumorID, finalConfidence, timestamp) => {
+            setupListener(contracts.rumorRegistry, 'RumorLocked', (rumorID, finalConfidence, timestamp, event) => {
                 console.log(`🔒 Rumor locked: ID=${rumorID}, finalConfidence=${finalConfidence}`);
+                indexAndPublish('RumorLocked', rumorID, event.log, { finalConfidence: finalConfidence.toString() }).then(() =>
+                    require('./verificationService').finalizePending()
+                ).catch(err => console.error(`Finalizing rumor ${rumorID} failed:`, err.message));
+            });
+
+            setupListener(contracts.rumorRegistry, 'RumorVerified', (rumorID, isTrue, timestamp, event) => {
+                console.log(`⚖️  Rumor verified: ID=${rumorID}, isTrue=${isTrue}`);
+                indexer.handleRumorEvent(rumorID, event.log);
+            });
+
+            setupListener(contracts.rumorRegistry, 'RumorDeleted', (rumorID, authorID, finalConfidence, event) => {
+                console.log(`🪦 Rumor deleted: ID=${rumorID}, finalConfidence=${finalConfidence}`);
+                indexer.handleRumorEvent(rumorID, event.log).then(() =>
+                    require('./trustService').processDeletedRumor(rumorID)
+                ).catch(err => console.error(`Trust redistribution failed for rumor ${rumorID}:`, err.message));
+            });
+        }
+
+        if (contracts.verificationController) {
+            for (const kind of ['AuthorRewarded', 'AuthorPenalized']) {
+                setupListener(contracts.verificationController, kind, (rumorID, authorID, amount, event) => {
+                    indexer.handleCredibilityReasonEvent({ kind, rumorID, amount, authorID }, event.log);
+                });
+            }
+            for (const kind of ['VoterRewarded', 'VoterPenalized']) {
+                setupListener(contracts.verificationController, kind, (rumorID, voter, amount, event) => {
+                    indexer.handleCredibilityReasonEvent({ kind, rumorID, amount, voter }, event.log);
+                });
+            }
+        }
+
+        if (contracts.correlationManager) {
+            setupListener(contracts.correlationManager, 'CorrelationBoostApplied', (rumorID, boost, credibleSupportCount, event) => {
+                console.log(`🔗 Correlation boost: rumor=${rumorID}, boost=${boost}`);
+                indexer.handleBoostEvent({ rumorID, boost, credibleSupportCount }, event.log);
             });
         }
 
         if (contracts.votingSystem) {
-            setupListener(contracts.votingSystem, 'VoteCast', (voteID, rumorID, voterID, voteType, weight, timestamp) => {
-                const type = voteType === 0 ? 'CONFIRM' : 'DISPUTE';
+            setupListener(contracts.votingSystem, 'VoteCast', (voteID, rumorID, voterID, voteType, weight, timestamp, event) => {
+                const type = Number(voteType) === 0 ? 'CONFIRM' : 'DISPUTE';
                 console.log(`🗳️  Vote cast: rumor=${rumorID}, type=${type}, weight=${weight}`);
+                indexer.handleVoteEvent({ voteID, rumorID, voterID, voteType, weight, timestamp }, event.log).then(rumor => {
+                    if (rumor) {
+                        stream.publish('VoteCast', {
+                            rumorID: rumor.rumorID,
+                            rumor,
+                            voteType: type,
+                            weight: weight.toString(),
+                        });
+                    }
+                });
             });
         }
 
@@ -281,6 +572,9 @@ async function getStudent(walletAddress) {
             totalVotes: student.totalVotes.toString(),
             accuratePredictions: student.accuratePredictions.toString(),
             inaccuratePredictions: student.inaccuratePredictions.toString(),
+            discreditedUntil: Number(student.discreditedUntil) > 0
+                ? new Date(Number(student.discreditedUntil) * 1000).toISOString()
+                : null,
         };
     } catch (error) {
         console.error('Error fetching student:', error);
@@ -290,6 +584,7 @@ async function getStudent(walletAddress) {
 
 /**
  * Get rumor from blockchain
+ * Includes authorID and authorWallet; strip them with publicRumor() before serving.
  * @param {number} rumorID - Rumor ID
  * @returns {Promise<object|null>} Rumor data or null
  */
@@ -311,12 +606,17 @@ async function getRumor(rumorID) {
             contentHash: rumor.contentHash,
             evidenceHashes: rumor.evidenceHashes,
             hasEvidence: rumor.hasEvidence,
+            initialConfidence: rumor.initialConfidence.toString(),
             currentConfidence: rumor.currentConfidence.toString(),
+            lockedConfidence: rumor.lockedConfidence.toString(),
             status: ['ACTIVE', 'LOCKED', 'VERIFIED', 'DEBUNKED', 'DELETED'][rumor.status],
             visible: rumor.visible,
             createdAt: new Date(Number(rumor.createdAt) * 1000).toISOString(),
+            lockedAt: Number(rumor.lockedAt) > 0 ? new Date(Number(rumor.lockedAt) * 1000).toISOString() : null,
             totalConfirmVotes: rumor.totalConfirmVotes.toString(),
             totalDisputeVotes: rumor.totalDisputeVotes.toString(),
+            weightedConfirmScore: rumor.weightedConfirmScore.toString(),
+            weightedDisputeScore: rumor.weightedDisputeScore.toString(),
             keywords: rumor.keywords,
         };
     } catch (error) {
@@ -325,6 +625,90 @@ async function getRumor(rumorID) {
     }
 }
 
+/**
+ * A getRumor() result without its author, for public responses.
+ * Which student posted a rumor is only ever told to that student.
+ * @param {object|null} rumor - Rumor from getRumor()
+ * @returns {object|null}
+ */
+function publicRumor(rumor) {
+    if (!rumor) return rumor;
+    const { authorID, authorWallet, ...rest } = rumor;
+    return rest;
+}
+
+/**
+ * Get votes by ID from VotingSystem
+ * @param {Array<number|bigint>} voteIDs - Vote IDs
+ * @returns {Promise<object[]>} Votes with weight, voter credibility and timestamp
+ */
+async function getVotes(voteIDs) {
+    const { contracts } = initializeProvider();
+
+    if (!contracts.votingSystem) {
+        return [];
+    }
+
+    const votes = await Promise.all(voteIDs.map(id => contracts.votingSystem.getVote(id)));
+
+    return votes.map(vote => ({
+        voteID: vote.voteID.toString(),
+        rumorID: vote.rumorID.toString(),
+        voterWallet: vote.voterWallet,
+        voteType: Number(vote.voteType) === 0 ? 'CONFIRM' : 'DISPUTE',
+        voterWeight: Number(vote.voterWeight),
+        voterCredibility: Number(vote.voterCredibility),
+        timestamp: Number(vote.timestamp),
+    }));
+}
+
+/**
+ * Get the IDs of every rumor posted by a student, oldest first
+ * @param {number|string} authorID - Author's student ID
+ * @returns {Promise<number[]>}
+ */
+async function getRumorsByAuthor(authorID) {
+    const { contracts } = initializeProvider();
+
+    if (!contracts.rumorRegistry) {
+        return [];
+    }
+
+    const rumorIDs = await contracts.rumorRegistry.getRumorsByAuthor(authorID);
+    return Array.from(rumorIDs, id => Number(id));
+}
+
+/**
+ * Get every vote on a rumor from VotingSystem, in vote order
+ * @param {number} rumorID - Rumor ID
+ * @returns {Promise<object[]>}
+ */
+async function getVotesForRumor(rumorID) {
+    const { contracts } = initializeProvider();
+
+    if (!contracts.votingSystem) {
+        return [];
+    }
+
+    return getVotes(await contracts.votingSystem.getVotesForRumor(rumorID));
+}
+
+/**
+ * Get the IDs of every vote cast by a wallet, oldest first
+ * @param {string} walletAddress - Voter wallet
+ * @returns {Promise<number[]>}
+ */
+async function getVotesByVoter(walletAddress) {
+    const { contracts } = initializeProvider();
+
+    if (!contracts.votingSystem) {
+        return [];
+    }
+
+    const voteIDs = await contracts.votingSystem.getVotesByVoter(walletAddress);
+    return Array.from(voteIDs, id => Number(id));
+}
+
 /**
  * Check if user has voted on a rumor
  * @param {number} rumorID - Rumor ID
@@ -346,6 +730,44 @@ async function hasUserVoted(rumorID, walletAddress) {
     }
 }
 
+/**
+ * Voting weight and hourly vote allowance of a user, as VotingSystem.voteOnRumor sees them
+ * @param {string} walletAddress - Voter wallet
+ * @returns {Promise<object|null>} Null if the wallet is not registered
+ */
+async function getVotingAllowance(walletAddress) {
+    const { provider, contracts } = initializeProvider();
+
+    if (!contracts.identityRegistry || !contracts.votingSystem) {
+        return null;
+    }
+    if (!(await contracts.identityRegistry.isRegistered(walletAddress))) {
+        return null;
+    }
+
+    const [student, weight, maxVotesPerHour, block] = await Promise.all([
+        contracts.identityRegistry.getStudent(walletAddress),
+        contracts.identityRegistry.getVotingWeight(walletAddress),
+        contracts.votingSystem.MAX_VOTES_PER_HOUR(),
+        provider.getBlock('latest'),
+    ]);
+
+    // Same hour bucketing as VotingSystem._checkVoteRateLimit (chain time, not server time)
+    const currentHour = Math.floor(block.timestamp / 3600);
+    const votesThisHour = Number(student.lastVoteHour) < currentHour ? 0 : Number(student.votesThisHour);
+    const max = Number(maxVotesPerHour);
+
+    return {
+        weight: Number(weight),
+        // Score added to the weighted confirm/dispute total, as in voteOnRumor
+        score: Math.trunc(Number(weight) / 100),
+        votesThisHour,
+        maxVotesPerHour: max,
+        remaining: Math.max(max - votesThisHour, 0),
+        resetsAt: new Date((currentHour + 1) * 3600 * 1000).toISOString(),
+    };
+}
+
 /**
  * Get related rumors
  * @param {number} rumorID - Rumor ID
@@ -426,10 +848,21 @@ module.exports = {
     initializeBlockchainListeners,
     getStudent,
     getRumor,
+    publicRumor,
+    getRumorsByAuthor,
     hasUserVoted,
+    getVotingAllowance,
     getRelatedRumors,
+    getVotes,
+    getVotesForRumor,
+    getVotesByVoter,
     createRumor,
+    deleteRumor,
+    getTombstone,
+    addTrustBonus,
+    deactivateCorrelations,
     voteOnRumor,
+    addCorrelations,
     fundWallet,
     registerStudentOnChain,
 };
@@ -0,0 +1,198 @@
+/**
+ * CID Service
+ *
+ * Computes and checks content identifiers so content fetched from any store
+ * can be verified against the contentHash anchored on-chain.
+ *
+ * Supported formats:
+ *  - CIDv1 raw + sha2-256, base32 ("bafkrei…") — the local content store
+ *  - CIDv0 ("Qm…") — dag-pb UnixFS file as built by `ipfs add` / Pinata
+ *    with default settings (256 KiB chunks, balanced layout, 174 links per node)
+ * Anything else is reported as unverifiable rather than as a mismatch.
+ */
+
+const crypto = require('crypto');
+
+// Multiformats codes
+const CID_VERSION = 0x01;
+const RAW_CODEC = 0x55;
+const SHA2_256 = 0x12;
+const SHA2_256_LENGTH = 0x20;
+
+// UnixFS importer defaults (kubo)
+const CHUNK_SIZE = 262144;
+const MAX_LINKS = 174;
+const UNIXFS_FILE = 2;
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+function base32(bytes) {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    for (const byte of bytes) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    return output;
+}
+
+function base58(bytes) {
+    const digits = [0];
+    for (const byte of bytes) {
+        let carry = byte;
+        for (let i = 0; i < digits.length; i++) {
+            carry += digits[i] << 8;
+            digits[i] = carry % 58;
+            carry = Math.floor(carry / 58);
+        }
+        while (carry > 0) {
+            digits.push(carry % 58);
+            carry = Math.floor(carry / 58);
+        }
+    }
+    let output = '';
+    for (let i = 0; i < bytes.length && bytes[i] === 0; i++) output += '1';
+    for (let i = digits.length - 1; i >= 0; i--) output += BASE58_ALPHABET[digits[i]];
+    return output;
+}
+
+function sha256Multihash(buffer) {
+    const digest = crypto.createHash('sha256').update(buffer).digest();
+    return Buffer.concat([Buffer.from([SHA2_256, SHA2_256_LENGTH]), digest]);
+}
+
+// ── Protobuf encoding (just what dag-pb and UnixFS need) ──
+
+function varint(value) {
+    const bytes = [];
+    while (value >= 0x80) {
+        bytes.push((value % 0x80) | 0x80);
+        value = Math.floor(value / 0x80);
+    }
+    bytes.push(value);
+    return Buffer.from(bytes);
+}
+
+function varintField(field, value) {
+    return Buffer.concat([varint(field << 3), varint(value)]);
+}
+
+function bytesField(field, bytes) {
+    return Buffer.concat([varint((field << 3) | 2), varint(bytes.length), bytes]);
+}
+
+function unixfsData({ data, filesize, blocksizes = [] }) {
+    return Buffer.concat([
+        varintField(1, UNIXFS_FILE),
+        data && data.length > 0 ? bytesField(2, data) : Buffer.alloc(0),
+        varintField(3, filesize),
+        ...blocksizes.map(size => varintField(4, size)),
+    ]);
+}
+
+// dag-pb serializes Links (field 2) before Data (field 1)
+function dagPbNode(links, data) {
+    return Buffer.concat([
+        ...links.map(link => bytesField(2, Buffer.concat([
+            bytesField(1, link.multihash),
+            bytesField(2, Buffer.alloc(0)),
+            varintField(3, link.tsize),
+        ]))),
+        bytesField(1, data),
+    ]);
+}
+
+function toDagNode(serialized, filesize, tsize) {
+    return { multihash: sha256Multihash(serialized), filesize, tsize };
+}
+
+/**
+ * Root multihash of a UnixFS file DAG (balanced layout)
+ */
+function unixfsRoot(buffer) {
+    if (buffer.length <= CHUNK_SIZE) {
+        const serialized = dagPbNode([], unixfsData({ data: buffer, filesize: buffer.length }));
+        return toDagNode(serialized, buffer.length, serialized.length);
+    }
+
+    let level = [];
+    for (let offset = 0; offset < buffer.length; offset += CHUNK_SIZE) {
+        const chunk = buffer.subarray(offset, offset + CHUNK_SIZE);
+        const serialized = dagPbNode([], unixfsData({ data: chunk, filesize: chunk.length }));
+        level.push(toDagNode(serialized, chunk.length, serialized.length));
+    }
+
+    while (level.length > 1) {
+        const parents = [];
+        for (let i = 0; i < level.length; i += MAX_LINKS) {
+            const children = level.slice(i, i + MAX_LINKS);
+            const filesize = children.reduce((sum, c) => sum + c.filesize, 0);
+            const serialized = dagPbNode(children, unixfsData({
+                filesize,
+                blocksizes: children.map(c => c.filesize),
+            }));
+            const tsize = serialized.length + children.reduce((sum, c) => sum + c.tsize, 0);
+            parents.push(toDagNode(serialized, filesize, tsize));
+        }
+        level = parents;
+    }
+
+    return level[0];
+}
+
+/**
+ * CIDv1 (raw, sha2-256) of a buffer, base32 encoded ("bafkrei…")
+ * @param {Buffer} buffer - Content bytes
+ * @returns {string}
+ */
+function computeCID(buffer) {
+    const bytes = Buffer.concat([Buffer.from([CID_VERSION, RAW_CODEC]), sha256Multihash(buffer)]);
+    // 'b' is the multibase prefix for base32 lower-case
+    return 'b' + base32(bytes);
+}
+
+/**
+ * CIDv0 ("Qm…") that `ipfs add` assigns to a buffer with default settings
+ * @param {Buffer} buffer - Content bytes
+ * @returns {string}
+ */
+function computeCIDv0(buffer) {
+    return base58(unixfsRoot(buffer).multihash);
+}
+
+/**
+ * Whether a string looks like a CIDv0 (Qm…) or base32 CIDv1 (b…)
+ */
+function isValidCID(cid) {
+    return /^Qm[1-9A-HJ-NP-Za-km-z]{44}$/.test(cid) || /^b[a-z2-7]{50,}$/.test(cid);
+}
+
+/**
+ * Check bytes against the CID they were fetched by
+ * @param {string} cid - Expected CID
+ * @param {Buffer} buffer - Fetched bytes
+ * @returns {'verified'|'mismatch'|'unverifiable'}
+ */
+function verifyCID(cid, buffer) {
+    if (cid.startsWith('Qm')) {
+        return computeCIDv0(buffer) === cid ? 'verified' : 'mismatch';
+    }
+    if (cid.startsWith('bafkrei')) {
+        return computeCID(buffer) === cid ? 'verified' : 'mismatch';
+    }
+    return 'unverifiable';
+}
+
+module.exports = {
+    computeCID,
+    computeCIDv0,
+    isValidCID,
+    verifyCID,
+};
@@ -0,0 +1,242 @@
+/**
+ * Correlation Service
+ *
+ * Runs after a rumor is created: stores its embedding, compares it with
+ * recent ACTIVE rumors, asks the AI whether similar ones describe the same
+ * event, and submits supportive/contradictory links to CorrelationManager.
+ * Every submission attempt is recorded so pairs are never sent twice.
+ */
+
+const path = require('path');
+
+// Mirrors CorrelationManager.CORRELATION_VALIDITY_DAYS
+const CORRELATION_VALIDITY_DAYS = 5;
+const RELATIONSHIPS = ['supportive', 'contradictory'];
+
+let db = null;
+
+function initCorrelationDB() {
+    if (db) return db;
+    try {
+        const Database = require('better-sqlite3');
+        const dbPath = path.join(__dirname, '../../data/tokens.db');
+        db = new Database(dbPath);
+
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS rumor_correlations (
+                rumor_a INTEGER NOT NULL,
+                rumor_b INTEGER NOT NULL,
+                relationship TEXT NOT NULL,
+                confidence INTEGER NOT NULL,
+                similarity REAL,
+                reasoning TEXT,
+                status TEXT NOT NULL,
+                tx_hash TEXT,
+                error TEXT,
+                created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+                PRIMARY KEY (rumor_a, rumor_b)
+            );
+            CREATE INDEX IF NOT EXISTS idx_rumor_correlations_b ON rumor_correlations(rumor_b);
+        `);
+
+        console.log('✅ Correlation store ready');
+        return db;
+    } catch (error) {
+        console.error('❌ Correlation DB init failed:', error.message);
+        return null;
+    }
+}
+
+function rumorText(rumor) {
+    const { embeddingText } = require('./embeddingService');
+    return rumor.content ? embeddingText(rumor.content) : '';
+}
+
+/**
+ * ACTIVE rumors created within the correlation window of a rumor
+ * @param {object} rumor - Indexed rumor
+ * @returns {object[]} Indexed rumors (excluding the rumor itself)
+ */
+function getCandidates(rumor) {
+    const { listRumors } = require('./indexerService');
+    const windowMs = CORRELATION_VALIDITY_DAYS * 24 * 60 * 60 * 1000;
+    const createdAt = new Date(rumor.createdAt).getTime();
+
+    return listRumors({ status: 'ACTIVE', limit: 500 }).rumors.filter(r =>
+        r.rumorID !== rumor.rumorID &&
+        r.content &&
+        Math.abs(new Date(r.createdAt).getTime() - createdAt) <= windowMs
+    );
+}
+
+/**
+ * Whether a pair (in either order) was already submitted
+ */
+function isKnownPair(database, a, b) {
+    return !!database.prepare(`
+        SELECT 1 FROM rumor_correlations
+        WHERE status = 'SUBMITTED' AND ((rumor_a = ? AND rumor_b = ?) OR (rumor_a = ? AND rumor_b = ?))
+    `).get(a, b, b, a);
+}
+
+function recordCorrelations(database, correlations, status, txHash, error) {
+    const insert = database.prepare(`
+        INSERT INTO rumor_correlations
+            (rumor_a, rumor_b, relationship, confidence, similarity, reasoning, status, tx_hash, error)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(rumor_a, rumor_b) DO UPDATE SET
+            relationship = excluded.relationship,
+            confidence = excluded.confidence,
+            similarity = excluded.similarity,
+            reasoning = excluded.reasoning,
+            status = excluded.status,
+            tx_hash = excluded.tx_hash,
+            error = excluded.error,
+            created_at = CURRENT_TIMESTAMP
+    `);
+
+    database.transaction(() => {
+        for (const c of correlations) {
+            insert.run(
+                c.rumorA, c.rumorB, c.relationship, Math.round(c.confidence * 100),
+                c.similarity ?? null, c.reasoning || null, status, txHash || null, error || null
+            );
+        }
+    })();
+}
+
+/**
+ * Drop correlations involving a rumor that is no longer ACTIVE on-chain.
+ * The index can lag behind locks, and one such pair reverts the whole batch.
+ */
+async function filterActive(correlations) {
+    const { getRumor } = require('./blockchainService');
+    const active = new Map();
+    for (const id of new Set(correlations.flatMap(c => [c.rumorA, c.rumorB]))) {
+        const rumor = await getRumor(id).catch(() => null);
+        active.set(id, rumor?.status === 'ACTIVE');
+    }
+    return correlations.filter(c => active.get(c.rumorA) && active.get(c.rumorB));
+}
+
+/**
+ * Submit correlations in one transaction; if it reverts, retry one pair at a
+ * time so a single bad pair does not fail the rest. Every pair is recorded.
+ * @returns {Promise<{submitted: object[], txHash: string|null, error: Error|null}>}
+ */
+async function submitCorrelations(database, correlations) {
+    const { addCorrelations } = require('./blockchainService');
+    const oracleKey = process.env.ORACLE_PRIVATE_KEY || process.env.MASTER_PRIVATE_KEY;
+
+    try {
+        const txHash = await addCorrelations(correlations, oracleKey);
+        recordCorrelations(database, correlations, 'SUBMITTED', txHash);
+        return { submitted: correlations, txHash, error: null };
+    } catch (error) {
+        if (correlations.length === 1) {
+            recordCorrelations(database, correlations, 'FAILED', null, error.shortMessage || error.message);
+            return { submitted: [], txHash: null, error };
+        }
+        console.warn(`⚠️  Correlation batch reverted (${error.shortMessage || error.message}), submitting pairs one at a time`);
+    }
+
+    const submitted = [];
+    let txHash = null;
+    let firstError = null;
+    for (const correlation of correlations) {
+        const result = await submitCorrelations(database, [correlation]);
+        submitted.push(...result.submitted);
+        txHash = result.txHash || txHash;
+        firstError = firstError || result.error;
+    }
+    return { submitted, txHash, error: firstError };
+}
+
+/**
+ * Find and submit correlations for a newly created rumor
+ * @param {number|string} rumorID - New rumor ID
+ * @param {number[]} [embedding] - Embedding already generated for the rumor text
+ * @returns {Promise<{correlations: object[], txHash?: string}>}
+ */
+async function processNewRumor(rumorID, embedding) {
+    const { syncRumor, getIndexedRumor } = require('./indexerService');
+    const { saveEmbedding, ensureEmbedding } = require('./embeddingService');
+    const { generateEmbedding, findCorrelations } = require('./geminiService');
+
+    const database = initCorrelationDB();
+    await syncRumor(rumorID);
+    const rumor = getIndexedRumor(rumorID);
+    if (!database || !rumor || !rumor.content) {
+        return { correlations: [] };
+    }
+
+    const text = rumorText(rumor);
+    if (!embedding || embedding.length === 0) {
+        const result = await generateEmbedding(text);
+        embedding = result.success ? result.embedding : [];
+    }
+    saveEmbedding(rumorID, embedding);
+
+    const candidates = getCandidates(rumor);
+    if (candidates.length === 0) {
+        return { correlations: [] };
+    }
+
+    // Rumors created before the embedding store existed get embedded on demand
+    const existingRumors = [];
+    for (const candidate of candidates) {
+        existingRumors.push({
+            id: Number(candidate.rumorID),
+            text: rumorText(candidate),
+            embedding: await ensureEmbedding(candidate),
+        });
+    }
+
+    const found = (await findCorrelations(Number(rumorID), text, embedding, existingRumors))
+        .filter(c => RELATIONSHIPS.includes(c.relationship))
+        .filter(c => !isKnownPair(database, c.rumorA, c.rumorB));
+
+    // The AI call takes a while; candidates may have been locked meanwhile
+    const correlations = found.length > 0 ? await filterActive(found) : [];
+    if (correlations.length === 0) {
+        return { correlations: [] };
+    }
+
+    const { submitted, txHash, error } = await submitCorrelations(database, correlations);
+    if (submitted.length === 0) {
+        throw error;
+    }
+    console.log(`🔗 Rumor #${rumorID}: ${submitted.length}/${correlations.length} correlation(s) submitted`);
+    return { correlations: submitted, txHash };
+}
+
+/**
+ * Recorded correlations involving a rumor (both directions)
+ * @param {number|string} rumorID - Rumor ID
+ * @returns {object[]}
+ */
+function getCorrelationRecords(rumorID) {
+    const database = initCorrelationDB();
+    if (!database) return [];
+
+    return database.prepare(`
+        SELECT * FROM rumor_correlations WHERE rumor_a = ? OR rumor_b = ? ORDER BY created_at DESC
+    `).all(Number(rumorID), Number(rumorID)).map(row => ({
+        rumorA: String(row.rumor_a),
+        rumorB: String(row.rumor_b),
+        relationship: row.relationship,
+        confidence: row.confidence,
+        similarity: row.similarity,
+        reasoning: row.reasoning,
+        status: row.status,
+        txHash: row.tx_hash,
+        createdAt: row.created_at,
+    }));
+}
+
+module.exports = {
+    CORRELATION_VALIDITY_DAYS,
+    initCorrelationDB,
+    processNewRumor,
+    getCorrelationRecords,
+};
@@ -0,0 +1,80 @@
+/**
+ * Credibility History Service
+ *
+ * A student's credibility score over time, built from the indexed
+ * CredibilityUpdated and StatusChanged events. Each score change is paired
+ * with the VerificationController event emitted right after it in the same
+ * transaction (AuthorRewarded, VoterPenalized, ...) to name the rumor that
+ * caused it. Reasons tie a studentID to the rumors they posted and voted
+ * on, so the history is only served to the student themselves.
+ */
+
+const { getStudent } = require('./blockchainService');
+const { getStudentHistory, getIndexedRumor } = require('./indexerService');
+
+// IdentityRegistry.CREDIBILITY_THRESHOLD
+const CREDIBILITY_THRESHOLD = 30;
+
+/**
+ * Match each score change to the reward/penalty event that follows it in its tx
+ */
+function pairReasons(changes, reasons) {
+    const byTx = new Map();
+    for (const reason of reasons) {
+        if (!reason.txHash) continue;
+        if (!byTx.has(reason.txHash)) byTx.set(reason.txHash, []);
+        byTx.get(reason.txHash).push(reason);
+    }
+
+    return changes.map(change => {
+        const candidates = byTx.get(change.txHash) || [];
+        // The reason event is emitted after the CredibilityUpdated it explains
+        const index = candidates.findIndex(reason => reason.logIndex > change.logIndex);
+        if (index === -1) return { change, reason: null };
+        const [reason] = candidates.splice(index, 1);
+        return { change, reason };
+    });
+}
+
+/**
+ * Credibility history of the student behind a wallet, oldest first
+ * @param {string} walletAddress - Student wallet (from the auth token)
+ * @returns {Promise<object|null>} Null if not registered
+ */
+async function getCredibilityHistory(walletAddress) {
+    const student = await getStudent(walletAddress);
+    if (!student) return null;
+
+    const { changes, statusChanges, reasons } = getStudentHistory(student.studentID);
+
+    const points = pairReasons(changes, reasons).map(({ change, reason }) => {
+        const rumor = reason ? getIndexedRumor(reason.rumorID) : null;
+        return {
+            timestamp: new Date(change.timestamp * 1000).toISOString(),
+            oldScore: change.oldScore,
+            newScore: change.newScore,
+            change: change.newScore - change.oldScore,
+            reason: reason
+                ? { kind: reason.kind, rumorID: reason.rumorID, title: rumor?.content?.title || null }
+                : null,
+        };
+    });
+
+    return {
+        studentID: student.studentID,
+        credibilityScore: parseInt(student.credibilityScore),
+        status: student.status,
+        discreditedUntil: student.discreditedUntil,
+        threshold: CREDIBILITY_THRESHOLD,
+        points,
+        statusChanges: statusChanges.map(change => ({
+            timestamp: new Date(change.timestamp * 1000).toISOString(),
+            oldStatus: change.oldStatus,
+            newStatus: change.newStatus,
+        })),
+    };
+}
+
+module.exports = {
+    getCredibilityHistory,
+};
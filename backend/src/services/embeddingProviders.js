@@ -0,0 +1,145 @@
+/**
+ * Embedding Providers
+ *
+ * Every provider exposes the same shape:
+ *   { name: string, dimensions: number, embed(text): Promise<number[]> }
+ *
+ * The active provider is chosen with EMBEDDING_PROVIDER ('gemini' | 'local').
+ * Without it, Gemini is used when GEMINI_API_KEY is set and the local
+ * provider otherwise. The local provider is deterministic and offline, so
+ * dev and CI get reproducible similarity scores.
+ *
+ * Vectors from different providers live in different spaces and are never
+ * compared: the embedding store tags each row with the provider that made it.
+ */
+
+const { GoogleGenerativeAI } = require('@google/generative-ai');
+
+const LOCAL_DIMENSIONS = 512;
+// gemini-embedding-001 returns 3072 dims unless asked for fewer
+const GEMINI_DIMENSIONS = 768;
+
+// Similarity at which two rumors are probably the same story. Scores are not
+// comparable across providers: hashed n-grams score paraphrases far lower
+// than a semantic model does.
+const DUPLICATE_THRESHOLDS = {
+    local: 0.5,
+    gemini: 0.85,
+};
+
+// Common words that would otherwise dominate short rumor texts
+const STOPWORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'for', 'from', 'has', 'have',
+    'he', 'her', 'his', 'i', 'in', 'is', 'it', 'its', 'of', 'on', 'or', 'she', 'so', 'that', 'the',
+    'their', 'them', 'there', 'they', 'this', 'to', 'was', 'we', 'were', 'will', 'with', 'you',
+]);
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(str) {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < str.length; i++) {
+        hash ^= str.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+function tokenize(text) {
+    return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(t => !STOPWORDS.has(t));
+}
+
+/**
+ * Offline provider: hashed word unigrams, bigrams and character trigrams
+ * with sublinear term frequency, L2-normalized. Same text → same vector.
+ */
+function createLocalProvider(dimensions = LOCAL_DIMENSIONS) {
+    return {
+        name: 'local',
+        dimensions,
+        async embed(text) {
+            const tokens = tokenize(text || '');
+            const counts = new Map();
+            const add = (feature, weight) => counts.set(feature, (counts.get(feature) || 0) + weight);
+
+            tokens.forEach((token, i) => {
+                add(`w:${token}`, 1);
+                if (i > 0) add(`b:${tokens[i - 1]} ${token}`, 0.5);
+                const padded = ` ${token} `;
+                for (let j = 0; j + 3 <= padded.length; j++) add(`c:${padded.slice(j, j + 3)}`, 0.2);
+            });
+
+            const vector = new Array(dimensions).fill(0);
+            for (const [feature, tf] of counts) {
+                const hash = fnv1a(feature);
+                // Signed hashing keeps collisions from only ever adding up
+                const sign = hash & 0x80000000 ? -1 : 1;
+                vector[hash % dimensions] += sign * (1 + Math.log(tf));
+            }
+
+            const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+            return vector.map(v => v / norm);
+        },
+    };
+}
+
+function createGeminiProvider(apiKey, dimensions = GEMINI_DIMENSIONS) {
+    const model = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model: 'gemini-embedding-001' });
+    return {
+        name: 'gemini',
+        dimensions,
+        async embed(text) {
+            const result = await model.embedContent({
+                content: { role: 'user', parts: [{ text }] },
+                outputDimensionality: dimensions,
+            });
+            const values = result.embedding.values;
+            if (values.length !== dimensions) {
+                throw new Error(`Expected ${dimensions}-dim embedding, got ${values.length}`);
+            }
+            return values;
+        },
+    };
+}
+
+let activeProvider = null;
+let localProvider = null;
+
+/**
+ * The deterministic offline provider
+ */
+function getLocalProvider() {
+    if (!localProvider) localProvider = createLocalProvider();
+    return localProvider;
+}
+
+/**
+ * The provider selected by configuration
+ */
+function getEmbeddingProvider() {
+    if (activeProvider) return activeProvider;
+
+    const configured = (process.env.EMBEDDING_PROVIDER || '').toLowerCase();
+    const name = configured || (process.env.GEMINI_API_KEY ? 'gemini' : 'local');
+
+    if (name === 'gemini' && process.env.GEMINI_API_KEY) {
+        activeProvider = createGeminiProvider(process.env.GEMINI_API_KEY);
+    } else {
+        if (name !== 'local') {
+            console.log(`⚠️  Embedding provider "${name}" unavailable - using local provider`);
+        }
+        activeProvider = getLocalProvider();
+    }
+
+    console.log(`🧮 Embedding provider: ${activeProvider.name} (${activeProvider.dimensions} dims)`);
+    return activeProvider;
+}
+
+module.exports = {
+    createLocalProvider,
+    createGeminiProvider,
+    getLocalProvider,
+    getEmbeddingProvider,
+    DUPLICATE_THRESHOLDS,
+};
@@ -0,0 +1,315 @@
+/**
+ * Embedding Service
+ *
+ * Persists one text embedding per rumor in SQLite so similarity searches
+ * can run against every rumor instead of whatever happens to be in memory.
+ * Vectors are stored as Float32 BLOBs, tagged with the provider that made
+ * them. Only vectors from the active provider are read or compared; rows
+ * from a previous provider are re-embedded (see reembedStale).
+ *
+ * Nearest-neighbour queries go through an in-memory random-hyperplane LSH
+ * index built from the active provider's vectors on first use.
+ */
+
+const path = require('path');
+const { getEmbeddingProvider } = require('./embeddingProviders');
+
+// LSH parameters: more tables → better recall, more bits → smaller buckets
+const ANN_TABLES = 8;
+const ANN_BITS = 12;
+const ANN_SEED = 0x5eed;
+// Below this many vectors an exact scan is cheaper than hashing
+const EXACT_SCAN_LIMIT = 500;
+
+let db = null;
+
+// In-memory ANN index (see rebuildIndex)
+let ann = null;
+
+function initEmbeddingDB() {
+    if (db) return db;
+    try {
+        const Database = require('better-sqlite3');
+        const dbPath = path.join(__dirname, '../../data/tokens.db');
+        db = new Database(dbPath);
+
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS rumor_embeddings (
+                rumor_id INTEGER PRIMARY KEY,
+                dimensions INTEGER NOT NULL,
+                vector BLOB NOT NULL,
+                provider TEXT,
+                created_at TEXT DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+
+        // Stores created before vectors were tagged (NULL provider: re-embedded on use)
+        const columns = db.prepare('PRAGMA table_info(rumor_embeddings)').all().map(c => c.name);
+        if (!columns.includes('provider')) {
+            db.exec('ALTER TABLE rumor_embeddings ADD COLUMN provider TEXT');
+        }
+
+        console.log('✅ Embedding store ready');
+        return db;
+    } catch (error) {
+        console.error('❌ Embedding DB init failed:', error.message);
+        return null;
+    }
+}
+
+function toBlob(embedding) {
+    return Buffer.from(new Float32Array(embedding).buffer);
+}
+
+function fromBlob(blob) {
+    return Array.from(new Float32Array(blob.buffer, blob.byteOffset, blob.byteLength / 4));
+}
+
+function activeProvider() {
+    return getEmbeddingProvider().name;
+}
+
+/**
+ * Store (or replace) the embedding for a rumor
+ * @param {number|string} rumorID - Rumor ID
+ * @param {number[]} embedding - Embedding vector
+ * @param {string} [provider] - Provider that made it (defaults to the active one)
+ */
+function saveEmbedding(rumorID, embedding, provider = activeProvider()) {
+    const database = initEmbeddingDB();
+    if (!database || !embedding || embedding.length === 0) return;
+
+    database.prepare(`
+        INSERT INTO rumor_embeddings (rumor_id, dimensions, vector, provider) VALUES (?, ?, ?, ?)
+        ON CONFLICT(rumor_id) DO UPDATE SET
+            dimensions = excluded.dimensions,
+            vector = excluded.vector,
+            provider = excluded.provider,
+            created_at = CURRENT_TIMESTAMP
+    `).run(Number(rumorID), embedding.length, toBlob(embedding), provider);
+
+    if (!ann) return;
+    if (ann.provider === provider && ann.dimensions === embedding.length) {
+        indexVector(Number(rumorID), embedding);
+    } else {
+        // Replaced by another provider's vector: no longer comparable
+        removeVector(Number(rumorID));
+    }
+}
+
+/**
+ * Get the stored embedding for a rumor, if the active provider made it
+ * @param {number|string} rumorID - Rumor ID
+ * @returns {number[]|null}
+ */
+function getEmbedding(rumorID) {
+    const database = initEmbeddingDB();
+    if (!database) return null;
+
+    const row = database.prepare('SELECT vector FROM rumor_embeddings WHERE rumor_id = ? AND provider = ?')
+        .get(Number(rumorID), activeProvider());
+    return row ? fromBlob(row.vector) : null;
+}
+
+/**
+ * Get stored embeddings for several rumors (active provider only)
+ * @param {Array<number|string>} rumorIDs - Rumor IDs
+ * @returns {Map<number, number[]>} rumorID → embedding (missing IDs are omitted)
+ */
+function getEmbeddings(rumorIDs) {
+    const result = new Map();
+    const database = initEmbeddingDB();
+    if (!database || rumorIDs.length === 0) return result;
+
+    const placeholders = rumorIDs.map(() => '?').join(', ');
+    database.prepare(`SELECT rumor_id, vector FROM rumor_embeddings WHERE rumor_id IN (${placeholders}) AND provider = ?`)
+        .all(...rumorIDs.map(Number), activeProvider())
+        .forEach(row => result.set(row.rumor_id, fromBlob(row.vector)));
+
+    return result;
+}
+
+/**
+ * Text a rumor is embedded from. Every embedding that gets compared (stored
+ * rumors, correlation candidates, duplicate checks) must go through this.
+ * @param {{title: string, description?: string}} content - Rumor content
+ * @returns {string}
+ */
+function embeddingText(content) {
+    return `${content.title} ${content.description || ''}`;
+}
+
+/**
+ * Get the stored embedding for a rumor, generating and storing it if missing
+ * @param {object} rumor - Indexed rumor (needs rumorID and content)
+ * @returns {Promise<number[]|null>}
+ */
+async function ensureEmbedding(rumor) {
+    const stored = getEmbedding(rumor.rumorID);
+    if (stored) return stored;
+    if (!rumor.content) return null;
+
+    const { generateEmbedding } = require('./geminiService');
+    const result = await generateEmbedding(embeddingText(rumor.content));
+    if (!result.success || !result.embedding?.length) return null;
+
+    saveEmbedding(rumor.rumorID, result.embedding, result.provider);
+    return result.embedding;
+}
+
+/**
+ * Re-embed every stored rumor whose vector came from another provider (or
+ * predates provider tagging). Stops at the first failure; the rest are
+ * re-embedded on demand by ensureEmbedding.
+ * @returns {Promise<number>} Number of rumors re-embedded
+ */
+async function reembedStale() {
+    const database = initEmbeddingDB();
+    if (!database) return 0;
+
+    const provider = activeProvider();
+    const stale = database.prepare('SELECT rumor_id FROM rumor_embeddings WHERE provider IS NOT ?').all(provider);
+    if (stale.length === 0) return 0;
+
+    const { getIndexedRumor } = require('./indexerService');
+    let count = 0;
+    for (const { rumor_id: rumorID } of stale) {
+        const rumor = getIndexedRumor(rumorID);
+        if (!rumor || !rumor.content) {
+            // Deleted (or never indexed): nothing to embed, and never comparable again
+            database.prepare('DELETE FROM rumor_embeddings WHERE rumor_id = ?').run(rumorID);
+            continue;
+        }
+        if (!(await ensureEmbedding(rumor))) break;
+        count++;
+    }
+
+    console.log(`🧮 Re-embedded ${count}/${stale.length} rumors with ${provider}`);
+    return count;
+}
+
+// Small seeded PRNG so hyperplanes (and query results) are stable across rebuilds
+function mulberry32(seed) {
+    return () => {
+        seed = (seed + 0x6D2B79F5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function normalize(vector) {
+    let norm = 0;
+    for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+    norm = Math.sqrt(norm) || 1;
+    const result = new Float32Array(vector.length);
+    for (let i = 0; i < vector.length; i++) result[i] = vector[i] / norm;
+    return result;
+}
+
+function dot(a, b) {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+    return sum;
+}
+
+function signature(vector, planes) {
+    let key = 0;
+    for (let bit = 0; bit < planes.length; bit++) {
+        if (dot(vector, planes[bit]) >= 0) key |= 1 << bit;
+    }
+    return key;
+}
+
+function removeVector(rumorID) {
+    const vector = ann.vectors.get(rumorID);
+    if (!vector) return;
+    ann.tables.forEach((table, t) => table.get(signature(vector, ann.planes[t]))?.delete(rumorID));
+    ann.vectors.delete(rumorID);
+}
+
+function indexVector(rumorID, embedding) {
+    removeVector(rumorID);
+    const vector = normalize(embedding);
+    ann.vectors.set(rumorID, vector);
+    ann.tables.forEach((table, t) => {
+        const key = signature(vector, ann.planes[t]);
+        if (!table.has(key)) table.set(key, new Set());
+        table.get(key).add(rumorID);
+    });
+}
+
+/**
+ * Rebuild the ANN index from the active provider's stored embeddings
+ * @returns {{provider: string, dimensions: number, size: number}}
+ */
+function rebuildIndex() {
+    const database = initEmbeddingDB();
+    const { name: provider, dimensions } = getEmbeddingProvider();
+    if (!database) return { provider, dimensions, size: 0 };
+
+    const random = mulberry32(ANN_SEED + dimensions);
+    const planes = Array.from({ length: ANN_TABLES }, () =>
+        Array.from({ length: ANN_BITS }, () => Float32Array.from({ length: dimensions }, () => random() * 2 - 1))
+    );
+    ann = { provider, dimensions, planes, tables: planes.map(() => new Map()), vectors: new Map() };
+
+    database.prepare('SELECT rumor_id, vector FROM rumor_embeddings WHERE provider = ? AND dimensions = ?')
+        .all(provider, dimensions)
+        .forEach(row => indexVector(row.rumor_id, fromBlob(row.vector)));
+
+    console.log(`🧭 ANN index rebuilt: ${ann.vectors.size} ${provider} vectors (${dimensions} dims)`);
+    return { provider, dimensions, size: ann.vectors.size };
+}
+
+/**
+ * Approximate nearest neighbours of an embedding
+ * @param {number[]} embedding - Query embedding
+ * @param {{k?: number, threshold?: number, exclude?: Array<number|string>}} [options]
+ * @returns {Array<{rumorID: number, similarity: number}>} Best first, similarity ≥ threshold
+ */
+function querySimilar(embedding, { k = 5, threshold = 0.75, exclude = [] } = {}) {
+    if (!embedding || embedding.length === 0) return [];
+    if (!ann || ann.provider !== activeProvider()) rebuildIndex();
+    // Not a vector from the active provider
+    if (embedding.length !== ann.dimensions) return [];
+
+    const query = normalize(embedding);
+    const excluded = new Set(exclude.map(Number));
+
+    let candidates;
+    if (ann.vectors.size <= EXACT_SCAN_LIMIT) {
+        candidates = ann.vectors.keys();
+    } else {
+        // Multi-probe: the query's own bucket plus every bucket one bit away
+        candidates = new Set();
+        ann.tables.forEach((table, t) => {
+            const key = signature(query, ann.planes[t]);
+            for (let bit = -1; bit < ANN_BITS; bit++) {
+                const bucket = table.get(bit < 0 ? key : key ^ (1 << bit));
+                if (bucket) bucket.forEach(id => candidates.add(id));
+            }
+        });
+    }
+
+    const results = [];
+    for (const rumorID of candidates) {
+        if (excluded.has(rumorID)) continue;
+        const similarity = dot(query, ann.vectors.get(rumorID));
+        if (similarity >= threshold) results.push({ rumorID, similarity });
+    }
+
+    return results.sort((a, b) => b.similarity - a.similarity).slice(0, k);
+}
+
+module.exports = {
+    initEmbeddingDB,
+    embeddingText,
+    saveEmbedding,
+    getEmbedding,
+    getEmbeddings,
+    ensureEmbedding,
+    reembedStale,
+    rebuildIndex,
+    querySimilar,
+};
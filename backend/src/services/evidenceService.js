@@ -0,0 +1,180 @@
+/**
+ * Evidence Service
+ *
+ * Keeps metadata for uploaded evidence files (generated name, MIME type,
+ * size and an optional thumbnail) keyed by CID, so the rumor page can
+ * preview evidence without downloading every file first.
+ * Uploaders' own filenames are never stored or served: they can name the
+ * author or the device ("IMG_john_doe.jpg").
+ * Thumbnails are generated in the submitter's browser and stored in the
+ * content store like any other file.
+ *
+ * Images also get a perceptual hash, which lets the same picture be
+ * recognised when it turns up as evidence for another rumor.
+ */
+
+const path = require('path');
+
+const { hammingDistance, detectMimeType } = require('./metadataService');
+
+// Thumbnails are small previews; anything bigger is ignored
+const MAX_THUMBNAIL_BYTES = 256 * 1024;
+const THUMBNAIL_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Perceptual hashes this close (out of 64 bits) are treated as the same image
+const REUSE_MAX_DISTANCE = 8;
+
+let db = null;
+
+function initEvidenceDB() {
+    if (db) return db;
+    try {
+        const Database = require('better-sqlite3');
+        const dbPath = path.join(__dirname, '../../data/tokens.db');
+        db = new Database(dbPath);
+
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS evidence_files (
+                cid TEXT PRIMARY KEY,
+                name TEXT,
+                mime_type TEXT NOT NULL,
+                size INTEGER NOT NULL,
+                thumbnail_cid TEXT,
+                phash TEXT,
+                created_at TEXT DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+
+        // Databases created before perceptual hashing
+        const columns = db.prepare('PRAGMA table_info(evidence_files)').all().map(c => c.name);
+        if (!columns.includes('phash')) {
+            db.exec('ALTER TABLE evidence_files ADD COLUMN phash TEXT');
+        }
+
+        // Rows from before generated names still hold the uploader's filename
+        db.exec("UPDATE evidence_files SET name = NULL WHERE name IS NOT NULL AND name NOT LIKE 'evidence-%'");
+
+        console.log('✅ Evidence metadata table ready');
+        return db;
+    } catch (error) {
+        console.error('❌ Evidence DB init failed:', error.message);
+        return null;
+    }
+}
+
+/**
+ * Whether an uploaded file is acceptable as a thumbnail (type taken from its signature)
+ * @param {{buffer: Buffer}} file - Multer file
+ */
+function isValidThumbnail(file) {
+    return !!file && THUMBNAIL_TYPES.includes(detectMimeType(file.buffer)) && file.buffer.length <= MAX_THUMBNAIL_BYTES;
+}
+
+// Extensions for the evidence types accepted on upload
+const EXTENSIONS = {
+    'image/jpeg': '.jpg',
+    'image/png': '.png',
+    'image/webp': '.webp',
+    'image/gif': '.gif',
+    'application/pdf': '.pdf',
+    'video/mp4': '.mp4',
+};
+
+/**
+ * Public name for the evidence file at `position` (0-based): `evidence-<n>.<ext>`.
+ * The extension follows the detected type, never the uploader's filename.
+ * @param {number} position - Index of the file in the rumor's evidence list
+ * @param {string|null} [mimeType] - Detected (or stored) MIME type
+ */
+function evidenceName(position, mimeType) {
+    return `evidence-${position + 1}${EXTENSIONS[mimeType] || ''}`;
+}
+
+/**
+ * Store metadata for an uploaded evidence file
+ * @param {{cid: string, name: string, mimeType: string, size: number, thumbnailCid?: string, phash?: string}} evidence
+ */
+function recordEvidence({ cid, name, mimeType, size, thumbnailCid, phash }) {
+    const database = initEvidenceDB();
+    if (!database) return;
+
+    database.prepare(`
+        INSERT INTO evidence_files (cid, name, mime_type, size, thumbnail_cid, phash) VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT(cid) DO UPDATE SET
+            name = COALESCE(evidence_files.name, excluded.name),
+            thumbnail_cid = COALESCE(evidence_files.thumbnail_cid, excluded.thumbnail_cid),
+            phash = COALESCE(evidence_files.phash, excluded.phash)
+    `).run(cid, name || null, mimeType, size, thumbnailCid || null, phash || null);
+}
+
+/**
+ * Find rumors whose evidence contains an image perceptually matching `phash`
+ * @param {string} phash - Perceptual hash of the new image
+ * @returns {Array<{rumorID: number, cid: string, distance: number}>} Closest matches first
+ */
+function findReusedEvidence(phash) {
+    const database = initEvidenceDB();
+    if (!database || !phash) return [];
+
+    const matches = database.prepare('SELECT cid, phash FROM evidence_files WHERE phash IS NOT NULL')
+        .all()
+        .map(row => ({ cid: row.cid, distance: hammingDistance(phash, row.phash) }))
+        .filter(match => match.distance <= REUSE_MAX_DISTANCE);
+    if (matches.length === 0) return [];
+
+    // Evidence lists come from the off-chain rumor index
+    const rumorsByCid = database.prepare(`
+        SELECT r.rumor_id FROM indexed_rumors r, json_each(r.evidence_hashes) e
+        WHERE e.value = ? AND r.status != 'DELETED'
+    `);
+
+    const results = [];
+    for (const match of matches) {
+        try {
+            for (const row of rumorsByCid.all(match.cid)) {
+                results.push({ rumorID: row.rumor_id, cid: match.cid, distance: match.distance });
+            }
+        } catch { /* rumor index not created yet */ }
+    }
+    return results.sort((a, b) => a.distance - b.distance);
+}
+
+/**
+ * Describe evidence files in the given order
+ * @param {string[]} cids - Evidence CIDs (e.g. a rumor's evidenceHashes)
+ * @param {Function} toUrl - Maps a CID to a gateway URL
+ * @returns {Array<{cid: string, url: string, name: string, mimeType: string|null, size: number|null, thumbnailUrl: string|null}>}
+ *   Fields other than name are null for evidence uploaded before metadata was recorded
+ */
+function describeEvidence(cids, toUrl) {
+    const database = initEvidenceDB();
+    const rows = new Map();
+    if (database && cids.length > 0) {
+        const placeholders = cids.map(() => '?').join(', ');
+        database.prepare(`SELECT * FROM evidence_files WHERE cid IN (${placeholders})`)
+            .all(...cids)
+            .forEach(row => rows.set(row.cid, row));
+    }
+
+    return cids.map((cid, position) => {
+        const row = rows.get(cid);
+        return {
+            cid,
+            url: toUrl(cid),
+            // From the position, so rows without a stored name still get one
+            name: evidenceName(position, row?.mime_type),
+            mimeType: row?.mime_type || null,
+            size: row?.size ?? null,
+            thumbnailUrl: row?.thumbnail_cid ? toUrl(row.thumbnail_cid) : null,
+        };
+    });
+}
+
+module.exports = {
+    initEvidenceDB,
+    isValidThumbnail,
+    evidenceName,
+    recordEvidence,
+    findReusedEvidence,
+    describeEvidence,
+};
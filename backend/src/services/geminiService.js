@@ -1,43 +1,22 @@
-const { GoogleGenerativeAI } = require('@google/generative-ai');
-
-let genAI = null;
-let model = null;
-let embeddingModel = null;
-
-function initializeGemini() {
-    if (!genAI && process.env.GEMINI_API_KEY) {
-        genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-        // User requested gemini-2.5-flash-lite, using gemini-1.5-flash (current version)
-        model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash-lite' });
-        embeddingModel = genAI.getGenerativeModel({ model: 'gemini-embedding-001' });
-    }
-    return { genAI, model, embeddingModel };
-}
+const { getEmbeddingProvider, getLocalProvider } = require('./embeddingProviders');
+const { generateJSON } = require('./llmService');
 
 /**
- * Generate text embedding for a rumor
+ * Generate text embedding for a rumor using the configured provider.
+ * There is no fallback: a vector from another provider could not be compared
+ * with the stored ones, so callers skip similarity work on failure.
  * @param {string} text - Text to embed
- * @returns {Promise<{success: boolean, embedding?: number[], error?: string}>}
+ * @returns {Promise<{success: boolean, embedding?: number[], provider?: string, error?: string}>}
  */
 async function generateEmbedding(text) {
-    const { embeddingModel } = initializeGemini();
+    const provider = getEmbeddingProvider();
 
-    if (!embeddingModel) {
-        console.log('⚠️  Gemini not configured - using mock embedding');
-        // Return a mock embedding for development
-        const mockEmbedding = Array.from({ length: 768 }, () => Math.random() * 2 - 1);
-        return { success: true, embedding: mockEmbedding };
-    }
-
-    // ... (inside generateEmbedding)
     try {
-        const result = await embeddingModel.embedContent(text);
-        return { success: true, embedding: result.embedding.values };
+        const embedding = await provider.embed(text);
+        return { success: true, embedding, provider: provider.name };
     } catch (error) {
-        console.error('Embedding generation failed (using mock):', error.message);
-        // Fallback to mock
-        const mockEmbedding = Array.from({ length: 768 }, () => Math.random() * 2 - 1);
-        return { success: true, embedding: mockEmbedding };
+        console.error(`Embedding generation failed with ${provider.name}:`, error.message);
+        return { success: false, provider: provider.name, error: error.message };
     }
 }
 
@@ -83,67 +62,95 @@ function findSimilarRumors(targetEmbedding, rumorEmbeddings, threshold = 0.75) {
         .sort((a, b) => b.similarity - a.similarity);
 }
 
-// ... (inside generateEmbedding) matches current file structure, ignoring
+const KEYWORDS_SCHEMA = {
+    type: 'object',
+    required: ['keywords'],
+    properties: {
+        keywords: { type: 'array', maxItems: 20, items: { type: 'string', minLength: 1 } },
+    },
+};
+
+const CORRELATION_SCHEMA = {
+    type: 'object',
+    required: ['sameEvent', 'relationship', 'confidence'],
+    properties: {
+        sameEvent: { type: 'boolean' },
+        relationship: { type: 'string', enum: ['supportive', 'contradictory', 'unrelated'] },
+        confidence: { type: 'number', minimum: 0, maximum: 1 },
+        reasoning: { type: 'string' },
+    },
+};
+
+// Used by the local correlation heuristic to spot "X is happening" vs "X is not happening"
+const NEGATION = /\b(not|no|never|fake|false|denied|cancel(?:l)?ed|untrue|hoax|isn't|aren't|won't|wasn't)\b/i;
+
+function localKeywords(text) {
+    const words = text.toLowerCase().replace(/[^\w\s]/g, '').split(/\s+/).filter(w => w.length > 3);
+    return [...new Set(words)].slice(0, 10);
+}
 
 /**
- * Extract keywords from text using Gemini
- * @param {string} text - Text to extract keywords from
- * @returns {Promise<{success: boolean, keywords?: string[], error?: string}>}
+ * Deterministic offline correlation: lexical similarity of local embeddings,
+ * with a negation mismatch read as contradiction. Text overlap alone cannot
+ * tell that two rumors describe the same event, so it never claims sameEvent:
+ * heuristic guesses are never submitted on-chain as correlations.
  */
-async function extractKeywords(text) {
-    const { model } = initializeGemini();
+async function localCorrelation(rumorA, rumorB) {
+    const local = getLocalProvider();
+    const similarity = cosineSimilarity(await local.embed(rumorA), await local.embed(rumorB));
+    const confidence = Math.round(Math.min(Math.max(similarity, 0), 1) * 100) / 100;
 
-    if (!model) {
-        // Mock fallback
-        const words = text.toLowerCase().replace(/[^\w\s]/g, '').split(/\s+/).filter(w => w.length > 3);
-        const unique = [...new Set(words)].slice(0, 10);
-        return { success: true, keywords: unique };
+    if (similarity < 0.75) {
+        return {
+            sameEvent: false,
+            relationship: 'unrelated',
+            confidence: Math.round((1 - confidence) * 100) / 100,
+            reasoning: 'Local heuristic: low text overlap',
+        };
     }
 
-    try {
-        const prompt = `Extract the 5-10 most important keywords or entities from this text. Return only a JSON array of strings, no other text.
+    const relationship = NEGATION.test(rumorA) !== NEGATION.test(rumorB) ? 'contradictory' : 'supportive';
+    return {
+        sameEvent: false,
+        relationship,
+        confidence,
+        reasoning: relationship === 'contradictory'
+            ? 'Local heuristic: high text overlap with opposite negation (same event not confirmed)'
+            : 'Local heuristic: high text overlap (same event not confirmed)',
+    };
+}
+
+/**
+ * Extract keywords from text using the configured LLM
+ * @param {string} text - Text to extract keywords from
+ * @returns {Promise<{success: boolean, keywords?: string[], error?: string}>}
+ */
+async function extractKeywords(text) {
+    const prompt = `Extract the 5-10 most important keywords or entities from this text.
 
 Text: "${text}"
 
-Response format: ["keyword1", "keyword2", ...]`;
+Respond with ONLY a JSON object in this exact format:
+{"keywords": ["keyword1", "keyword2", ...]}`;
 
-        const result = await model.generateContent(prompt);
-        const response = result.response.text();
+    const { data } = await generateJSON({
+        task: 'keywords',
+        prompt,
+        schema: KEYWORDS_SCHEMA,
+        fallback: () => ({ keywords: localKeywords(text) }),
+    });
 
-        // Parse JSON from response
-        const jsonMatch = response.match(/\[.*\]/s);
-        if (jsonMatch) {
-            const keywords = JSON.parse(jsonMatch[0]);
-            return { success: true, keywords };
-        }
-        throw new Error('Failed to parse keywords');
-    } catch (error) {
-        console.error('Keyword extraction failed (using mock):', error.message);
-        // Fallback
-        const words = text.toLowerCase().replace(/[^\w\s]/g, '').split(/\s+/).filter(w => w.length > 3);
-        const unique = [...new Set(words)].slice(0, 10);
-        return { success: true, keywords: unique };
-    }
+    return { success: true, keywords: data.keywords.slice(0, 10) };
 }
 
 /**
- * Analyze correlation between two rumors using Gemini
+ * Analyze correlation between two rumors using the configured LLM
  * @param {string} rumorA - First rumor text
  * @param {string} rumorB - Second rumor text
- * @returns {Promise<{success: boolean, result?: {sameEvent: boolean, relationship: string, confidence: number}, error?: string}>}
+ * @returns {Promise<{success: boolean, result?: {sameEvent: boolean, relationship: string, confidence: number, reasoning?: string}, error?: string}>}
  */
 async function analyzeCorrelation(rumorA, rumorB) {
-    const { model } = initializeGemini();
-
-    if (!model) {
-        return {
-            success: true,
-            result: { sameEvent: false, relationship: 'unknown', confidence: 0.5 },
-        };
-    }
-
-    try {
-        const prompt = `Analyze if these two campus rumors are describing the same event or are related.
+    const prompt = `Analyze if these two campus rumors are describing the same event or are related.
 
 Rumor A: "${rumorA}"
 
@@ -157,46 +164,25 @@ Respond with ONLY a JSON object in this exact format:
   "reasoning": "brief explanation"
 }`;
 
-        const result = await model.generateContent(prompt);
-        const response = result.response.text();
+    const { data } = await generateJSON({
+        task: 'correlation',
+        prompt,
+        schema: CORRELATION_SCHEMA,
+        fallback: () => localCorrelation(rumorA, rumorB),
+    });
 
-        const jsonMatch = response.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-            const analysis = JSON.parse(jsonMatch[0]);
-            return { success: true, result: analysis };
-        }
-        throw new Error('Failed to parse correlation analysis');
-    } catch (error) {
-        console.error('Correlation analysis failed (using mock):', error.message);
-        // Fallback
-        return {
-            success: true,
-            result: {
-                sameEvent: false,
-                relationship: 'unknown',
-                confidence: 0.5,
-                reasoning: 'AI analysis unavailable'
-            },
-        };
-    }
+    return { success: true, result: data };
 }
 
 /**
- * Process a new rumor - generate embedding and find correlations
- * @param {string} rumorId - Rumor ID
+ * Find correlations between a rumor and existing rumors
+ * @param {string|number} rumorId - Rumor ID
  * @param {string} text - Rumor text
- * @param {Array<{id: number, text: string, embedding: number[]}>} existingRumors - Existing rumors
- * @returns {Promise<{embedding: number[], keywords: string[], correlations: object[]}>}
+ * @param {number[]} embedding - Embedding of the rumor text
+ * @param {Array<{id: number, text: string, embedding: number[]}>} existingRumors - Candidate rumors
+ * @returns {Promise<object[]>} Correlations that describe the same event
  */
-async function processRumor(rumorId, text, existingRumors = []) {
-    // Generate embedding
-    const embeddingResult = await generateEmbedding(text);
-    const embedding = embeddingResult.success ? embeddingResult.embedding : [];
-
-    // Extract keywords
-    const keywordResult = await extractKeywords(text);
-    const keywords = keywordResult.success ? keywordResult.keywords : [];
-
+async function findCorrelations(rumorId, text, embedding, existingRumors = []) {
     // Find similar rumors
     const similarRumors = findSimilarRumors(
         embedding,
@@ -221,6 +207,27 @@ async function processRumor(rumorId, text, existingRumors = []) {
         }
     }
 
+    return correlations;
+}
+
+/**
+ * Process a new rumor - generate embedding and find correlations
+ * @param {string} rumorId - Rumor ID
+ * @param {string} text - Rumor text
+ * @param {Array<{id: number, text: string, embedding: number[]}>} existingRumors - Existing rumors
+ * @returns {Promise<{embedding: number[], keywords: string[], correlations: object[]}>}
+ */
+async function processRumor(rumorId, text, existingRumors = []) {
+    // Generate embedding
+    const embeddingResult = await generateEmbedding(text);
+    const embedding = embeddingResult.success ? embeddingResult.embedding : [];
+
+    // Extract keywords
+    const keywordResult = await extractKeywords(text);
+    const keywords = keywordResult.success ? keywordResult.keywords : [];
+
+    const correlations = await findCorrelations(rumorId, text, embedding, existingRumors);
+
     return { embedding, keywords, correlations };
 }
 
@@ -230,5 +237,6 @@ module.exports = {
     findSimilarRumors,
     extractKeywords,
     analyzeCorrelation,
+    findCorrelations,
     processRumor,
 };
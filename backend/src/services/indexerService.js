@@ -0,0 +1,912 @@
+/**
+ * Rumor Indexer Service
+ *
+ * Keeps an off-chain SQLite copy of rumor state so list queries don't have
+ * to walk the chain one rumor ID at a time.
+ *
+ * Flow:
+ * 1. On startup, backfill contract events from the last indexed block
+ *    (or INDEXER_START_BLOCK on first run) up to the chain head
+ * 2. Every RumorCreated / ConfidenceUpdated / RumorLocked / RumorVerified /
+ *    RumorDeleted / VoteCast event re-syncs the affected rumor from chain
+ * 3. VoteCast events are also stored individually in `indexed_votes`, and
+ *    CorrelationManager's CorrelationBoostApplied events in `indexed_boosts`
+ * 4. IdentityRegistry StudentRegistered / StatusChanged / CredibilityUpdated
+ *    events re-sync the student into `indexed_students`; credibility and
+ *    status changes are also kept in `indexed_credibility_changes` and
+ *    `indexed_status_changes`, and VerificationController's Author/Voter
+ *    Rewarded/Penalized events in `indexed_credibility_reasons`
+ * 5. GET /api/rumors serves list, status filter, search and counts from the index
+ *
+ * Search uses an FTS5 table over title, description and keywords (bm25 ranked,
+ * prefix matched). `#tag` terms in a query are exact keyword filters.
+ */
+
+const path = require('path');
+const { ethers } = require('ethers');
+
+const RUMOR_STATUSES = ['ACTIVE', 'LOCKED', 'VERIFIED', 'DEBUNKED', 'DELETED'];
+const RUMOR_EVENTS = ['RumorCreated', 'ConfidenceUpdated', 'RumorLocked', 'RumorVerified', 'RumorDeleted'];
+const STUDENT_STATUSES = ['NONE', 'NEW_USER', 'CREDIBLE_USER', 'DISCREDITED', 'BLOCKED'];
+const CREDIBILITY_REASON_EVENTS = ['AuthorRewarded', 'AuthorPenalized', 'VoterRewarded', 'VoterPenalized'];
+const BLOCK_RANGE = parseInt(process.env.INDEXER_BLOCK_RANGE) || 2000;
+
+let db = null;
+let backfilled = false;
+
+function initIndexDB() {
+    if (db) return db;
+    try {
+        const Database = require('better-sqlite3');
+        const dbPath = path.join(__dirname, '../../data/tokens.db');
+        db = new Database(dbPath);
+
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS indexed_rumors (
+                rumor_id INTEGER PRIMARY KEY,
+                author_id INTEGER NOT NULL,
+                author_wallet TEXT NOT NULL,
+                content_hash TEXT NOT NULL,
+                evidence_hashes TEXT NOT NULL DEFAULT '[]',
+                has_evidence BOOLEAN DEFAULT 0,
+                initial_confidence INTEGER DEFAULT 0,
+                current_confidence INTEGER DEFAULT 0,
+                status TEXT NOT NULL,
+                visible BOOLEAN DEFAULT 1,
+                created_at TEXT NOT NULL,
+                total_confirm_votes INTEGER DEFAULT 0,
+                total_dispute_votes INTEGER DEFAULT 0,
+                weighted_confirm_score INTEGER DEFAULT 0,
+                weighted_dispute_score INTEGER DEFAULT 0,
+                keywords TEXT NOT NULL DEFAULT '[]',
+                content TEXT,
+                updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+        db.exec('CREATE INDEX IF NOT EXISTS idx_indexed_rumors_status ON indexed_rumors(status)');
+
+        // Indexes created before the voting panel showed the weighted split
+        const columns = db.prepare('PRAGMA table_info(indexed_rumors)').all().map(c => c.name);
+        if (!columns.includes('weighted_confirm_score')) {
+            // NULL until the rumor is re-read from chain (see resyncInitialConfidence)
+            db.exec('ALTER TABLE indexed_rumors ADD COLUMN initial_confidence INTEGER');
+            db.exec('ALTER TABLE indexed_rumors ADD COLUMN weighted_confirm_score INTEGER DEFAULT 0');
+            db.exec('ALTER TABLE indexed_rumors ADD COLUMN weighted_dispute_score INTEGER DEFAULT 0');
+        }
+
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS indexed_votes (
+                vote_id INTEGER PRIMARY KEY,
+                rumor_id INTEGER NOT NULL,
+                voter_id INTEGER NOT NULL,
+                vote_type INTEGER NOT NULL,
+                weight INTEGER NOT NULL,
+                timestamp INTEGER NOT NULL,
+                block_number INTEGER,
+                tx_hash TEXT
+            )
+        `);
+        db.exec('CREATE INDEX IF NOT EXISTS idx_indexed_votes_rumor ON indexed_votes(rumor_id)');
+
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS indexed_boosts (
+                rumor_id INTEGER NOT NULL,
+                boost INTEGER NOT NULL,
+                credible_support_count INTEGER NOT NULL,
+                timestamp INTEGER NOT NULL,
+                block_number INTEGER NOT NULL,
+                log_index INTEGER NOT NULL,
+                tx_hash TEXT,
+                PRIMARY KEY (block_number, log_index)
+            )
+        `);
+        db.exec('CREATE INDEX IF NOT EXISTS idx_indexed_boosts_rumor ON indexed_boosts(rumor_id)');
+
+        db.exec(`
+            CREATE VIRTUAL TABLE IF NOT EXISTS indexed_rumors_fts USING fts5(
+                rumor_id UNINDEXED,
+                title,
+                description,
+                keywords,
+                tokenize = 'porter unicode61'
+            )
+        `);
+
+        // Populate search index for rows indexed before FTS existed
+        db.exec(`
+            INSERT INTO indexed_rumors_fts (rumor_id, title, description, keywords)
+            SELECT rumor_id,
+                   COALESCE(json_extract(content, '$.title'), ''),
+                   COALESCE(json_extract(content, '$.description'), ''),
+                   (SELECT COALESCE(group_concat(value, ' '), '') FROM json_each(indexed_rumors.keywords))
+            FROM indexed_rumors
+            WHERE rumor_id NOT IN (SELECT rumor_id FROM indexed_rumors_fts)
+        `);
+
+        // Wallets stay internal: the leaderboard is keyed by student ID only
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS indexed_students (
+                student_id INTEGER PRIMARY KEY,
+                wallet_address TEXT NOT NULL,
+                credibility_score INTEGER NOT NULL DEFAULT 0,
+                status TEXT NOT NULL,
+                accurate_predictions INTEGER NOT NULL DEFAULT 0,
+                inaccurate_predictions INTEGER NOT NULL DEFAULT 0,
+                total_votes INTEGER NOT NULL DEFAULT 0,
+                registered_at TEXT NOT NULL,
+                updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS indexed_credibility_changes (
+                student_id INTEGER NOT NULL,
+                old_score INTEGER NOT NULL,
+                new_score INTEGER NOT NULL,
+                timestamp INTEGER NOT NULL,
+                block_number INTEGER NOT NULL,
+                log_index INTEGER NOT NULL,
+                tx_hash TEXT,
+                PRIMARY KEY (block_number, log_index)
+            )
+        `);
+        db.exec('CREATE INDEX IF NOT EXISTS idx_credibility_changes_time ON indexed_credibility_changes(timestamp)');
+
+        // Indexes created before credibility changes were tied to their cause
+        const changeColumns = db.prepare('PRAGMA table_info(indexed_credibility_changes)').all().map(c => c.name);
+        if (!changeColumns.includes('tx_hash')) {
+            db.exec('ALTER TABLE indexed_credibility_changes ADD COLUMN tx_hash TEXT');
+        }
+        db.exec('CREATE INDEX IF NOT EXISTS idx_credibility_changes_student ON indexed_credibility_changes(student_id)');
+
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS indexed_status_changes (
+                student_id INTEGER NOT NULL,
+                old_status TEXT NOT NULL,
+                new_status TEXT NOT NULL,
+                timestamp INTEGER NOT NULL,
+                block_number INTEGER NOT NULL,
+                log_index INTEGER NOT NULL,
+                PRIMARY KEY (block_number, log_index)
+            )
+        `);
+        db.exec('CREATE INDEX IF NOT EXISTS idx_status_changes_student ON indexed_status_changes(student_id)');
+
+        // Why a score changed: emitted right after the matching CredibilityUpdated, in the same tx
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS indexed_credibility_reasons (
+                student_id INTEGER NOT NULL,
+                rumor_id INTEGER NOT NULL,
+                kind TEXT NOT NULL,
+                amount INTEGER NOT NULL,
+                block_number INTEGER NOT NULL,
+                log_index INTEGER NOT NULL,
+                tx_hash TEXT,
+                PRIMARY KEY (block_number, log_index)
+            )
+        `);
+        db.exec('CREATE INDEX IF NOT EXISTS idx_credibility_reasons_student ON indexed_credibility_reasons(student_id)');
+
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS indexer_state (
+                key TEXT PRIMARY KEY,
+                value TEXT NOT NULL
+            )
+        `);
+
+        console.log('✅ Rumor index tables ready');
+        return db;
+    } catch (error) {
+        console.error('❌ Index DB init failed:', error.message);
+        return null;
+    }
+}
+
+/**
+ * Get the last block that has been fully indexed
+ */
+function getLastIndexedBlock() {
+    const database = initIndexDB();
+    if (!database) return null;
+    const row = database.prepare("SELECT value FROM indexer_state WHERE key = 'last_block'").get();
+    return row ? parseInt(row.value) : null;
+}
+
+function setLastIndexedBlock(blockNumber) {
+    const database = initIndexDB();
+    if (!database) return;
+    database.prepare(`
+        INSERT INTO indexer_state (key, value) VALUES ('last_block', ?)
+        ON CONFLICT(key) DO UPDATE SET value = excluded.value
+        WHERE CAST(indexer_state.value AS INTEGER) < CAST(excluded.value AS INTEGER)
+    `).run(String(blockNumber));
+}
+
+/**
+ * Re-read a rumor from chain and upsert it into the index.
+ * Content is fetched from IPFS only once per rumor.
+ * @param {number|string} rumorID - Rumor ID
+ */
+async function syncRumor(rumorID) {
+    const database = initIndexDB();
+    if (!database) return null;
+
+    const { getRumor } = require('./blockchainService');
+    const rumor = await getRumor(Number(rumorID));
+    if (!rumor) return null;
+
+    const deleted = rumor.status === 'DELETED';
+    const existing = database.prepare('SELECT content FROM indexed_rumors WHERE rumor_id = ?').get(rumor.rumorID);
+    // Deleted rumors keep only their tombstone numbers: text is dropped from the index
+    let content = deleted ? null : existing?.content || null;
+
+    if (!content && !deleted && rumor.contentHash) {
+        const { getContent } = require('./ipfsService');
+        const contentResult = await getContent(rumor.contentHash);
+        if (contentResult.success) {
+            content = JSON.stringify(contentResult.content);
+        }
+    }
+
+    database.prepare(`
+        INSERT INTO indexed_rumors (
+            rumor_id, author_id, author_wallet, content_hash, evidence_hashes, has_evidence,
+            initial_confidence, current_confidence, status, visible, created_at, total_confirm_votes,
+            total_dispute_votes, weighted_confirm_score, weighted_dispute_score, keywords, content, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+        ON CONFLICT(rumor_id) DO UPDATE SET
+            evidence_hashes = excluded.evidence_hashes,
+            has_evidence = excluded.has_evidence,
+            initial_confidence = excluded.initial_confidence,
+            current_confidence = excluded.current_confidence,
+            status = excluded.status,
+            visible = excluded.visible,
+            total_confirm_votes = excluded.total_confirm_votes,
+            total_dispute_votes = excluded.total_dispute_votes,
+            weighted_confirm_score = excluded.weighted_confirm_score,
+            weighted_dispute_score = excluded.weighted_dispute_score,
+            keywords = excluded.keywords,
+            content = excluded.content,
+            updated_at = excluded.updated_at
+    `).run(
+        Number(rumor.rumorID),
+        Number(rumor.authorID),
+        rumor.authorWallet,
+        rumor.contentHash,
+        JSON.stringify(rumor.evidenceHashes || []),
+        rumor.hasEvidence ? 1 : 0,
+        Number(rumor.initialConfidence),
+        Number(rumor.currentConfidence),
+        rumor.status,
+        rumor.visible ? 1 : 0,
+        rumor.createdAt,
+        Number(rumor.totalConfirmVotes),
+        Number(rumor.totalDisputeVotes),
+        Number(rumor.weightedConfirmScore),
+        Number(rumor.weightedDisputeScore),
+        JSON.stringify(rumor.keywords || []),
+        content
+    );
+
+    updateSearchIndex(Number(rumor.rumorID), content ? JSON.parse(content) : null, deleted ? [] : rumor.keywords || []);
+
+    return rumor;
+}
+
+/**
+ * Replace the full-text search row for a rumor
+ */
+function updateSearchIndex(rumorID, content, keywords) {
+    const database = initIndexDB();
+    if (!database) return;
+    database.prepare('DELETE FROM indexed_rumors_fts WHERE rumor_id = ?').run(rumorID);
+    database.prepare(`
+        INSERT INTO indexed_rumors_fts (rumor_id, title, description, keywords) VALUES (?, ?, ?, ?)
+    `).run(rumorID, content?.title || '', content?.description || '', keywords.join(' '));
+}
+
+/**
+ * Split a search query into free-text terms and `#keyword` filters
+ * @param {string} query - Raw search string, e.g. "closing #library"
+ * @returns {{terms: string[], keywords: string[]}}
+ */
+function parseSearchQuery(query) {
+    const terms = [];
+    const keywords = [];
+
+    for (const token of (query || '').toLowerCase().split(/\s+/)) {
+        if (token.startsWith('#')) {
+            const keyword = token.slice(1).trim();
+            if (keyword) keywords.push(keyword);
+        } else {
+            const term = token.replace(/[^\p{L}\p{N}_]/gu, '');
+            if (term) terms.push(term);
+        }
+    }
+
+    return { terms, keywords };
+}
+
+/**
+ * Store a single VoteCast event
+ */
+function recordVote({ voteID, rumorID, voterID, voteType, weight, timestamp, blockNumber, txHash }) {
+    const database = initIndexDB();
+    if (!database) return;
+    database.prepare(`
+        INSERT OR IGNORE INTO indexed_votes (vote_id, rumor_id, voter_id, vote_type, weight, timestamp, block_number, tx_hash)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+        Number(voteID),
+        Number(rumorID),
+        Number(voterID),
+        Number(voteType),
+        Number(weight),
+        Number(timestamp),
+        blockNumber ?? null,
+        txHash || null
+    );
+}
+
+/**
+ * Store a single CorrelationBoostApplied event (the event carries no timestamp, so the block's is used)
+ */
+async function recordBoost({ rumorID, boost, credibleSupportCount }, log) {
+    const database = initIndexDB();
+    if (!database) return;
+    const block = await log.getBlock();
+    database.prepare(`
+        INSERT OR IGNORE INTO indexed_boosts
+            (rumor_id, boost, credible_support_count, timestamp, block_number, log_index, tx_hash)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+        Number(rumorID),
+        Number(boost),
+        Number(credibleSupportCount),
+        block.timestamp,
+        log.blockNumber,
+        log.index,
+        log.transactionHash || null
+    );
+}
+
+/**
+ * Pull a student's current profile from chain into the index
+ * @param {number|string} studentID - Student ID
+ */
+async function syncStudent(studentID) {
+    const database = initIndexDB();
+    if (!database) return null;
+
+    const { initializeProvider, getStudent } = require('./blockchainService');
+    const { contracts } = initializeProvider();
+    if (!contracts.identityRegistry) return null;
+
+    const wallet = await contracts.identityRegistry.studentIDToWallet(studentID);
+    if (wallet === ethers.ZeroAddress) return null;
+
+    const student = await getStudent(wallet);
+    if (!student) return null;
+
+    database.prepare(`
+        INSERT INTO indexed_students (
+            student_id, wallet_address, credibility_score, status, accurate_predictions,
+            inaccurate_predictions, total_votes, registered_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+        ON CONFLICT(student_id) DO UPDATE SET
+            credibility_score = excluded.credibility_score,
+            status = excluded.status,
+            accurate_predictions = excluded.accurate_predictions,
+            inaccurate_predictions = excluded.inaccurate_predictions,
+            total_votes = excluded.total_votes,
+            updated_at = excluded.updated_at
+    `).run(
+        Number(student.studentID),
+        student.walletAddress,
+        Number(student.credibilityScore),
+        student.status,
+        Number(student.accuratePredictions),
+        Number(student.inaccuratePredictions),
+        Number(student.totalVotes),
+        student.registeredAt
+    );
+
+    return student;
+}
+
+/**
+ * Store a single CredibilityUpdated event (timestamped with its block)
+ */
+async function recordCredibilityChange({ studentID, oldScore, newScore }, log) {
+    const database = initIndexDB();
+    if (!database) return;
+    const block = await log.getBlock();
+    database.prepare(`
+        INSERT OR IGNORE INTO indexed_credibility_changes
+            (student_id, old_score, new_score, timestamp, block_number, log_index, tx_hash)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+        Number(studentID),
+        Number(oldScore),
+        Number(newScore),
+        block.timestamp,
+        log.blockNumber,
+        log.index,
+        log.transactionHash || null
+    );
+}
+
+/**
+ * Store a single StatusChanged event (timestamped with its block)
+ */
+async function recordStatusChange({ studentID, oldStatus, newStatus }, log) {
+    const database = initIndexDB();
+    if (!database) return;
+    const block = await log.getBlock();
+    database.prepare(`
+        INSERT OR IGNORE INTO indexed_status_changes
+            (student_id, old_status, new_status, timestamp, block_number, log_index)
+        VALUES (?, ?, ?, ?, ?, ?)
+    `).run(
+        Number(studentID),
+        STUDENT_STATUSES[Number(oldStatus)],
+        STUDENT_STATUSES[Number(newStatus)],
+        block.timestamp,
+        log.blockNumber,
+        log.index
+    );
+}
+
+/**
+ * Store a VerificationController reward/penalty event
+ * @param {{kind: string, rumorID: bigint, amount: bigint, authorID?: bigint, voter?: string}} reason
+ *   Author events carry the student ID; voter events only the wallet
+ */
+async function recordCredibilityReason({ kind, rumorID, amount, authorID, voter }, log) {
+    const database = initIndexDB();
+    if (!database) return;
+
+    let studentID = authorID !== undefined ? Number(authorID) : null;
+    if (studentID === null) {
+        const row = database.prepare('SELECT student_id FROM indexed_students WHERE lower(wallet_address) = lower(?)').get(voter);
+        if (row) {
+            studentID = row.student_id;
+        } else {
+            const { getStudent } = require('./blockchainService');
+            const student = await getStudent(voter);
+            if (!student) return;
+            studentID = Number(student.studentID);
+        }
+    }
+
+    database.prepare(`
+        INSERT OR IGNORE INTO indexed_credibility_reasons
+            (student_id, rumor_id, kind, amount, block_number, log_index, tx_hash)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(studentID, Number(rumorID), kind, Number(amount), log.blockNumber, log.index, log.transactionHash || null);
+}
+
+/**
+ * Index every registered student (first run, or an index created after the cursor moved on)
+ */
+async function syncAllStudents() {
+    const { initializeProvider } = require('./blockchainService');
+    const { contracts } = initializeProvider();
+    if (!contracts.identityRegistry) return;
+
+    const nextStudentID = Number(await contracts.identityRegistry.nextStudentID());
+    for (let studentID = 1; studentID < nextStudentID; studentID++) {
+        await syncStudent(studentID);
+    }
+}
+
+/**
+ * Handle a live IdentityRegistry event from the blockchain listeners
+ * @param {bigint|number} studentID - Student ID
+ * @param {{oldScore: bigint, newScore: bigint}|{oldStatus: bigint, newStatus: bigint}} [change]
+ *   Set for CredibilityUpdated and StatusChanged
+ * @param {object} [log] - Event log (required with `change`)
+ */
+async function handleStudentEvent(studentID, change, log) {
+    try {
+        if (change && 'newScore' in change) await recordCredibilityChange({ studentID, ...change }, log);
+        if (change && 'newStatus' in change) await recordStatusChange({ studentID, ...change }, log);
+        await syncStudent(studentID);
+    } catch (error) {
+        console.error(`Indexer failed to sync student ${studentID}:`, error.message);
+    }
+}
+
+/**
+ * Handle a live VerificationController reward/penalty event from the blockchain listeners
+ */
+async function handleCredibilityReasonEvent(reason, log) {
+    try {
+        await recordCredibilityReason(reason, log);
+    } catch (error) {
+        console.error(`Indexer failed to record ${reason.kind} for rumor ${reason.rumorID}:`, error.message);
+    }
+}
+
+/**
+ * Credibility and status history of a student, oldest first
+ * @param {number|string} studentID - Student ID
+ * @returns {{changes: object[], statusChanges: object[], reasons: object[]}}
+ */
+function getStudentHistory(studentID) {
+    const database = initIndexDB();
+    if (!database) return { changes: [], statusChanges: [], reasons: [] };
+
+    const id = Number(studentID);
+    return {
+        changes: database.prepare(
+            'SELECT * FROM indexed_credibility_changes WHERE student_id = ? ORDER BY block_number, log_index'
+        ).all(id).map(row => ({
+            oldScore: row.old_score,
+            newScore: row.new_score,
+            timestamp: row.timestamp,
+            logIndex: row.log_index,
+            txHash: row.tx_hash,
+        })),
+        statusChanges: database.prepare(
+            'SELECT * FROM indexed_status_changes WHERE student_id = ? ORDER BY block_number, log_index'
+        ).all(id).map(row => ({
+            oldStatus: row.old_status,
+            newStatus: row.new_status,
+            timestamp: row.timestamp,
+        })),
+        reasons: database.prepare(
+            'SELECT * FROM indexed_credibility_reasons WHERE student_id = ? ORDER BY block_number, log_index'
+        ).all(id).map(row => ({
+            rumorID: String(row.rumor_id),
+            kind: row.kind,
+            amount: row.amount,
+            logIndex: row.log_index,
+            txHash: row.tx_hash,
+        })),
+    };
+}
+
+/**
+ * Handle a live rumor event from the blockchain listeners
+ * @param {string|number|bigint} rumorID - Affected rumor
+ * @param {object} [log] - Raw event log (for block tracking)
+ * @returns {Promise<object|null>} The re-indexed rumor
+ */
+async function handleRumorEvent(rumorID, log) {
+    try {
+        await syncRumor(rumorID);
+        if (backfilled && log?.blockNumber) setLastIndexedBlock(log.blockNumber);
+        return getIndexedRumor(rumorID);
+    } catch (error) {
+        console.error(`Indexer failed to sync rumor ${rumorID}:`, error.message);
+        return null;
+    }
+}
+
+/**
+ * Handle a live VoteCast event from the blockchain listeners
+ * @returns {Promise<object|null>} The re-indexed rumor
+ */
+async function handleVoteEvent(vote, log) {
+    try {
+        recordVote({ ...vote, blockNumber: log?.blockNumber, txHash: log?.transactionHash });
+        await syncRumor(vote.rumorID);
+        if (backfilled && log?.blockNumber) setLastIndexedBlock(log.blockNumber);
+        return getIndexedRumor(vote.rumorID);
+    } catch (error) {
+        console.error(`Indexer failed to record vote ${vote.voteID}:`, error.message);
+        return null;
+    }
+}
+
+/**
+ * Handle a live CorrelationBoostApplied event from the blockchain listeners
+ */
+async function handleBoostEvent(boost, log) {
+    try {
+        await recordBoost(boost, log);
+    } catch (error) {
+        console.error(`Indexer failed to record boost for rumor ${boost.rumorID}:`, error.message);
+    }
+}
+
+/**
+ * Replay contract events from the last indexed block to the chain head.
+ * Rumors touched within a block range are re-synced once per range.
+ */
+async function backfill() {
+    const { initializeProvider } = require('./blockchainService');
+    const { provider, contracts } = initializeProvider();
+
+    if (!contracts.rumorRegistry || !initIndexDB()) return;
+
+    if (!initIndexDB().prepare('SELECT 1 FROM indexed_students LIMIT 1').get()) {
+        await syncAllStudents();
+    }
+
+    const lastBlock = getLastIndexedBlock();
+    const startBlock = lastBlock !== null ? lastBlock + 1 : (parseInt(process.env.INDEXER_START_BLOCK) || 0);
+    const headBlock = await provider.getBlockNumber();
+
+    if (startBlock > headBlock) {
+        backfilled = true;
+        return;
+    }
+
+    console.log(`📚 Indexer backfilling blocks ${startBlock} → ${headBlock}...`);
+
+    for (let from = startBlock; from <= headBlock; from += BLOCK_RANGE) {
+        const to = Math.min(from + BLOCK_RANGE - 1, headBlock);
+        const touched = new Set();
+
+        for (const eventName of RUMOR_EVENTS) {
+            const logs = await contracts.rumorRegistry.queryFilter(eventName, from, to);
+            logs.forEach(log => touched.add(log.args.rumorID.toString()));
+        }
+
+        if (contracts.votingSystem) {
+            const voteLogs = await contracts.votingSystem.queryFilter('VoteCast', from, to);
+            for (const log of voteLogs) {
+                const { voteID, rumorID, voterID, voteType, weight, timestamp } = log.args;
+                recordVote({
+                    voteID, rumorID, voterID, voteType, weight, timestamp,
+                    blockNumber: log.blockNumber,
+                    txHash: log.transactionHash,
+                });
+                touched.add(rumorID.toString());
+            }
+        }
+
+        if (contracts.correlationManager) {
+            const boostLogs = await contracts.correlationManager.queryFilter('CorrelationBoostApplied', from, to);
+            for (const log of boostLogs) {
+                const [rumorID, boost, credibleSupportCount] = log.args;
+                await recordBoost({ rumorID, boost, credibleSupportCount }, log);
+            }
+        }
+
+        const touchedStudents = new Set();
+        if (contracts.identityRegistry) {
+            const registeredLogs = await contracts.identityRegistry.queryFilter('StudentRegistered', from, to);
+            registeredLogs.forEach(log => touchedStudents.add(log.args.studentID.toString()));
+
+            const statusLogs = await contracts.identityRegistry.queryFilter('StatusChanged', from, to);
+            for (const log of statusLogs) {
+                const [studentID, oldStatus, newStatus] = log.args;
+                await recordStatusChange({ studentID, oldStatus, newStatus }, log);
+                touchedStudents.add(studentID.toString());
+            }
+            const credibilityLogs = await contracts.identityRegistry.queryFilter('CredibilityUpdated', from, to);
+            for (const log of credibilityLogs) {
+                const [studentID, oldScore, newScore] = log.args;
+                await recordCredibilityChange({ studentID, oldScore, newScore }, log);
+                touchedStudents.add(studentID.toString());
+            }
+        }
+
+        for (const rumorID of touched) {
+            await syncRumor(rumorID);
+        }
+        for (const studentID of touchedStudents) {
+            await syncStudent(studentID);
+        }
+
+        // After the student sync, so voter wallets resolve from the index
+        if (contracts.verificationController) {
+            for (const kind of CREDIBILITY_REASON_EVENTS) {
+                const logs = await contracts.verificationController.queryFilter(kind, from, to);
+                for (const log of logs) {
+                    const [rumorID, subject, amount] = log.args;
+                    const reason = kind.startsWith('Author')
+                        ? { kind, rumorID, amount, authorID: subject }
+                        : { kind, rumorID, amount, voter: subject };
+                    await recordCredibilityReason(reason, log);
+                }
+            }
+        }
+
+        setLastIndexedBlock(to);
+    }
+
+    backfilled = true;
+    console.log(`📚 Indexer caught up at block ${headBlock}`);
+}
+
+/**
+ * Re-read rumors indexed before initial confidence was stored. Backfill only
+ * re-syncs rumors with new events, so quiet ones would otherwise never get it.
+ */
+async function resyncInitialConfidence() {
+    const rows = initIndexDB()?.prepare('SELECT rumor_id FROM indexed_rumors WHERE initial_confidence IS NULL').all() || [];
+    if (rows.length === 0) return;
+
+    console.log(`📚 Indexer re-syncing ${rows.length} rumors for their initial confidence...`);
+    for (const row of rows) {
+        await syncRumor(row.rumor_id);
+    }
+}
+
+/**
+ * Start the indexer (backfill, retrying on failure)
+ */
+async function startIndexer() {
+    try {
+        await backfill();
+        await resyncInitialConfidence();
+    } catch (error) {
+        console.error('❌ Indexer backfill failed:', error.message);
+        setTimeout(startIndexer, 10000);
+    }
+}
+
+/**
+ * Convert an index row to the same shape as blockchainService.publicRumor(getRumor()).
+ * Index rows feed public lists and the SSE stream, so the author is left out.
+ */
+function rowToRumor(row) {
+    return {
+        rumorID: String(row.rumor_id),
+        contentHash: row.content_hash,
+        evidenceHashes: JSON.parse(row.evidence_hashes),
+        hasEvidence: !!row.has_evidence,
+        // Null for rumors not yet re-synced after the column was added
+        initialConfidence: row.initial_confidence === null ? null : String(row.initial_confidence),
+        currentConfidence: String(row.current_confidence),
+        status: row.status,
+        visible: !!row.visible,
+        createdAt: row.created_at,
+        totalConfirmVotes: String(row.total_confirm_votes),
+        totalDisputeVotes: String(row.total_dispute_votes),
+        weightedConfirmScore: String(row.weighted_confirm_score),
+        weightedDisputeScore: String(row.weighted_dispute_score),
+        keywords: JSON.parse(row.keywords),
+        content: row.content ? JSON.parse(row.content) : null,
+    };
+}
+
+/**
+ * Get a single rumor from the index
+ * @param {number|string} rumorID - Rumor ID
+ * @returns {object|null}
+ */
+function getIndexedRumor(rumorID) {
+    const database = initIndexDB();
+    if (!database) return null;
+    const row = database.prepare('SELECT * FROM indexed_rumors WHERE rumor_id = ?').get(Number(rumorID));
+    return row ? rowToRumor(row) : null;
+}
+
+/**
+ * List indexed rumors, newest first (or by relevance when searching).
+ * Without a status filter only visible rumors are listed (as the on-chain feed
+ * did), so locked and deleted rumors need an explicit status filter.
+ * @param {{status?: string, search?: string, limit?: number, offset?: number}} options
+ * @returns {{rumors: object[], total: number}}
+ */
+function listRumors({ status, search, limit = 20, offset = 0 } = {}) {
+    const database = initIndexDB();
+    if (!database) return { rumors: [], total: 0 };
+
+    const conditions = [status ? 'r.status = ?' : "r.visible = 1 AND r.status != 'DELETED'"];
+    const params = status ? [status] : [];
+    let from = 'indexed_rumors r';
+    let orderBy = 'r.rumor_id DESC';
+
+    const { terms, keywords } = parseSearchQuery(search);
+
+    if (terms.length > 0) {
+        // Prefix match every term; bm25 weights: title > keywords > description
+        from = 'indexed_rumors r JOIN indexed_rumors_fts f ON f.rumor_id = r.rumor_id';
+        conditions.push('indexed_rumors_fts MATCH ?');
+        params.push(terms.map(t => `"${t}"*`).join(' '));
+        orderBy = 'bm25(indexed_rumors_fts, 0.0, 10.0, 2.0, 5.0), r.rumor_id DESC';
+    }
+
+    for (const keyword of keywords) {
+        conditions.push('EXISTS (SELECT 1 FROM json_each(r.keywords) WHERE lower(json_each.value) = ?)');
+        params.push(keyword);
+    }
+
+    const where = conditions.join(' AND ');
+
+    const rows = database.prepare(`
+        SELECT r.* FROM ${from} WHERE ${where}
+        ORDER BY ${orderBy} LIMIT ? OFFSET ?
+    `).all(...params, limit, offset);
+    const { count } = database.prepare(`SELECT COUNT(*) as count FROM ${from} WHERE ${where}`).get(...params);
+
+    return { rumors: rows.map(rowToRumor), total: count };
+}
+
+/**
+ * Indexed votes on a rumor, oldest first
+ * @param {number|string} rumorID - Rumor ID
+ * @returns {Array<{voteID: string, voterID: string, voteType: 'CONFIRM'|'DISPUTE', weight: number, timestamp: number, txHash: string|null}>}
+ */
+function getRumorVotes(rumorID) {
+    const database = initIndexDB();
+    if (!database) return [];
+
+    return database.prepare('SELECT * FROM indexed_votes WHERE rumor_id = ? ORDER BY timestamp, vote_id')
+        .all(Number(rumorID))
+        .map(row => ({
+            voteID: String(row.vote_id),
+            voterID: String(row.voter_id),
+            voteType: row.vote_type === 0 ? 'CONFIRM' : 'DISPUTE',
+            weight: row.weight,
+            timestamp: row.timestamp,
+            txHash: row.tx_hash,
+        }));
+}
+
+/**
+ * Transaction that cast a vote, from the index
+ * @param {number|string} voteID - Vote ID
+ * @returns {{txHash: string|null, blockNumber: number|null}|null}
+ */
+function getIndexedVote(voteID) {
+    const database = initIndexDB();
+    if (!database) return null;
+
+    const row = database.prepare('SELECT tx_hash, block_number FROM indexed_votes WHERE vote_id = ?').get(Number(voteID));
+    return row ? { txHash: row.tx_hash, blockNumber: row.block_number } : null;
+}
+
+/**
+ * Indexed correlation boosts applied to a rumor, oldest first
+ * @param {number|string} rumorID - Rumor ID
+ * @returns {Array<{boost: number, credibleSupportCount: number, timestamp: number}>}
+ */
+function getRumorBoosts(rumorID) {
+    const database = initIndexDB();
+    if (!database) return [];
+
+    return database.prepare('SELECT * FROM indexed_boosts WHERE rumor_id = ? ORDER BY block_number, log_index')
+        .all(Number(rumorID))
+        .map(row => ({
+            boost: row.boost,
+            credibleSupportCount: row.credible_support_count,
+            timestamp: row.timestamp,
+        }));
+}
+
+/**
+ * Get rumor counts per status plus the total number of indexed votes
+ * @returns {{counts: Record<string, number>, totalVotes: number}}
+ */
+function getRumorStats() {
+    const counts = Object.fromEntries(RUMOR_STATUSES.map(s => [s, 0]));
+    const database = initIndexDB();
+    if (!database) return { counts, totalVotes: 0 };
+
+    database.prepare('SELECT status, COUNT(*) as count FROM indexed_rumors GROUP BY status').all()
+        .forEach(row => { counts[row.status] = row.count; });
+
+    const { votes } = database.prepare(`
+        SELECT COALESCE(SUM(total_confirm_votes + total_dispute_votes), 0) as votes FROM indexed_rumors
+    `).get();
+
+    return { counts, totalVotes: votes };
+}
+
+module.exports = {
+    RUMOR_STATUSES,
+    initIndexDB,
+    startIndexer,
+    syncRumor,
+    handleRumorEvent,
+    handleVoteEvent,
+    handleBoostEvent,
+    handleStudentEvent,
+    handleCredibilityReasonEvent,
+    syncStudent,
+    getIndexedRumor,
+    listRumors,
+    getRumorVotes,
+    getIndexedVote,
+    getRumorBoosts,
+    getStudentHistory,
+    getRumorStats,
+    parseSearchQuery,
+};
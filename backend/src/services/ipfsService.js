@@ -1,112 +1,94 @@
-const axios = require('axios');
-const FormData = require('form-data');
-
-const PINATA_API_URL = 'https://api.pinata.cloud';
-const PINATA_GATEWAY = 'https://gateway.pinata.cloud/ipfs';
+const { getStorageProvider } = require('./storageProviders');
+const { verifyCID } = require('./cidService');
 
 /**
- * Upload JSON content to IPFS via Pinata
+ * Upload JSON content to the configured content store
  * @param {object} content - JSON content to upload
  * @param {string} name - Name for the file
  * @returns {Promise<{success: boolean, hash?: string, error?: string}>}
  */
 async function uploadJSON(content, name = 'rumor') {
-    if (!process.env.PINATA_API_KEY || !process.env.PINATA_SECRET_KEY) {
-        // Development mode - return mock hash
-        console.log('⚠️  Pinata not configured - using mock IPFS hash');
-        const mockHash = 'Qm' + require('crypto').randomBytes(22).toString('hex');
-        return { success: true, hash: mockHash };
-    }
-
     try {
-        const response = await axios.post(`${PINATA_API_URL}/pinning/pinJSONToIPFS`, {
-            pinataContent: content,
-            pinataMetadata: {
-                name: `${name}-${Date.now()}`,
-            },
-        }, {
-            headers: {
-                'Content-Type': 'application/json',
-                'pinata_api_key': process.env.PINATA_API_KEY,
-                'pinata_secret_api_key': process.env.PINATA_SECRET_KEY,
-            }
-        });
-
-        return { success: true, hash: response.data.IpfsHash };
+        const buffer = Buffer.from(JSON.stringify(content));
+        const hash = await getStorageProvider().put(buffer, { name: `${name}.json`, mimeType: 'application/json' });
+        return { success: true, hash };
     } catch (error) {
-        console.error('IPFS upload failed:', error.response?.data || error.message);
+        console.error('Content upload failed:', error.response?.data || error.message);
         return { success: false, error: error.message };
     }
 }
 
 /**
- * Upload a file to IPFS via Pinata
+ * Upload a file to the configured content store
  * @param {Buffer} buffer - File buffer
  * @param {string} filename - Original filename
  * @param {string} mimeType - MIME type
  * @returns {Promise<{success: boolean, hash?: string, error?: string}>}
  */
 async function uploadFile(buffer, filename, mimeType) {
-    if (!process.env.PINATA_API_KEY || !process.env.PINATA_SECRET_KEY) {
-        console.log('⚠️  Pinata not configured - using mock IPFS hash');
-        const mockHash = 'Qm' + require('crypto').randomBytes(22).toString('hex');
-        return { success: true, hash: mockHash };
+    try {
+        const hash = await getStorageProvider().put(buffer, { name: filename, mimeType });
+        return { success: true, hash };
+    } catch (error) {
+        console.error('File upload failed:', error.response?.data || error.message);
+        return { success: false, error: error.message };
     }
+}
 
+/**
+ * Get raw bytes for a CID. The bytes are hashed again and rejected
+ * if they do not match the CID they were requested by.
+ * @param {string} hash - Content CID
+ * @returns {Promise<{success: boolean, buffer?: Buffer, mimeType?: string, integrity?: string, error?: string}>}
+ *   integrity is 'verified', 'unverifiable' (CID format not supported) or 'mismatch'
+ */
+async function getRaw(hash) {
     try {
-        const formData = new FormData();
-        formData.append('file', buffer, {
-            filename,
-            contentType: mimeType,
-        });
-        formData.append('pinataMetadata', JSON.stringify({
-            name: `evidence-${Date.now()}-${filename}`,
-        }));
+        const object = await getStorageProvider().get(hash);
+        if (!object) return { success: false, error: 'Content not found' };
 
-        const response = await axios.post(`${PINATA_API_URL}/pinning/pinFileToIPFS`, formData, {
-            headers: {
-                ...formData.getHeaders(),
-                'pinata_api_key': process.env.PINATA_API_KEY,
-                'pinata_secret_api_key': process.env.PINATA_SECRET_KEY,
-            },
-            maxBodyLength: Infinity,
-            maxContentLength: Infinity,
-        });
+        const integrity = verifyCID(hash, object.buffer);
+        if (integrity === 'mismatch') {
+            console.error(`⚠️  Content for ${hash} does not match its CID - rejected`);
+            return { success: false, integrity, error: 'Content does not match its CID' };
+        }
 
-        return { success: true, hash: response.data.IpfsHash };
+        return { success: true, buffer: object.buffer, mimeType: object.mimeType, integrity };
     } catch (error) {
-        console.error('IPFS file upload failed:', error.response?.data || error.message);
+        console.error('Content fetch failed:', error.message);
         return { success: false, error: error.message };
     }
 }
 
 /**
- * Get content from IPFS
- * @param {string} hash - IPFS hash
- * @returns {Promise<{success: boolean, content?: any, error?: string}>}
+ * Get JSON content for a CID (integrity checked, see getRaw)
+ * @param {string} hash - Content CID
+ * @returns {Promise<{success: boolean, content?: any, integrity?: string, error?: string}>}
  */
 async function getContent(hash) {
+    const result = await getRaw(hash);
+    if (!result.success) return result;
+
     try {
-        const response = await axios.get(`${PINATA_GATEWAY}/${hash}`);
-        return { success: true, content: response.data };
+        return { success: true, content: JSON.parse(result.buffer.toString('utf8')), integrity: result.integrity };
     } catch (error) {
-        console.error('IPFS fetch failed:', error.message);
-        return { success: false, error: error.message };
+        return { success: false, integrity: result.integrity, error: 'Content is not JSON' };
     }
 }
 
 /**
- * Get IPFS gateway URL for a hash
- * @param {string} hash - IPFS hash
+ * Get gateway URL for a CID
+ * @param {string} hash - Content CID
  * @returns {string} Gateway URL
  */
 function getGatewayUrl(hash) {
-    return `${PINATA_GATEWAY}/${hash}`;
+    return getStorageProvider().gatewayUrl(hash);
 }
 
 module.exports = {
     uploadJSON,
     uploadFile,
+    getRaw,
     getContent,
     getGatewayUrl,
 };
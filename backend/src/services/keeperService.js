@@ -0,0 +1,309 @@
+/**
+ * Keeper Service
+ *
+ * Plays the Chainlink Automation role for AutomationKeeper: polls
+ * checkUpkeep() and submits performUpkeep() with the returned batch, so
+ * rumors past LOCK_DURATION lock on time instead of on their next vote.
+ *
+ * performUpkeep also calls CorrelationManager.deactivateCorrelations, which
+ * is owner-only; unless the keeper owns CorrelationManager the batch reverts.
+ * On a revert the runner falls back to RumorRegistry.lockRumor (open to
+ * anyone) per rumor and deactivates correlations with the owner key.
+ *
+ * Every run is recorded in `keeper_runs`.
+ */
+
+const { ethers } = require('ethers');
+const path = require('path');
+
+const DEFAULT_INTERVAL_MS = 10 * 60 * 1000;
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 5000;
+
+let db = null;
+let timer = null;
+let running = false;
+
+function initKeeperDB() {
+    if (db) return db;
+    try {
+        const Database = require('better-sqlite3');
+        const dbPath = path.join(__dirname, '../../data/tokens.db');
+        db = new Database(dbPath);
+
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS keeper_runs (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                trigger TEXT NOT NULL,
+                status TEXT NOT NULL,
+                candidate_ids TEXT NOT NULL DEFAULT '[]',
+                locked_ids TEXT NOT NULL DEFAULT '[]',
+                attempts INTEGER NOT NULL DEFAULT 0,
+                method TEXT,
+                tx_hash TEXT,
+                error TEXT,
+                started_at TEXT DEFAULT CURRENT_TIMESTAMP,
+                finished_at TEXT
+            );
+        `);
+
+        console.log('✅ Keeper run log ready');
+        return db;
+    } catch (error) {
+        console.error('❌ Keeper DB init failed:', error.message);
+        return null;
+    }
+}
+
+function keeperInterval() {
+    return parseInt(process.env.KEEPER_INTERVAL_MS) || DEFAULT_INTERVAL_MS;
+}
+
+function keeperSigner(provider) {
+    const key = process.env.KEEPER_PRIVATE_KEY || process.env.MASTER_PRIVATE_KEY;
+    return key ? new ethers.Wallet(key, provider) : null;
+}
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Submit performUpkeep, retrying transient failures (RPC errors, nonce races).
+ * Reverts are not retried: the same batch would revert again.
+ * @returns {Promise<{txHash: string, attempts: number}>}
+ */
+async function submitUpkeep(keeper, performData) {
+    let lastError;
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+        try {
+            const tx = await keeper.performUpkeep(performData);
+            const receipt = await tx.wait();
+            return { txHash: receipt.hash, attempts: attempt };
+        } catch (error) {
+            lastError = error;
+            lastError.attempts = attempt;
+            if (error.code === 'CALL_EXCEPTION') break;
+            console.warn(`⚠️  performUpkeep attempt ${attempt}/${MAX_ATTEMPTS} failed: ${error.shortMessage || error.message}`);
+            if (attempt < MAX_ATTEMPTS) await sleep(RETRY_DELAY_MS * attempt);
+        }
+    }
+    throw lastError;
+}
+
+/**
+ * Lock each rumor through RumorRegistry directly (fallback for a reverted batch).
+ * A failing rumor does not stop the others; the first failure is thrown at the end.
+ * @returns {Promise<string|null>} Hash of the last lock transaction
+ */
+async function lockIndividually(rumorRegistry, rumorIDs) {
+    const { deactivateCorrelations } = require('./blockchainService');
+    const ownerKey = process.env.OWNER_PRIVATE_KEY || process.env.MASTER_PRIVATE_KEY;
+    let txHash = null;
+    let firstError = null;
+
+    for (const rumorID of rumorIDs) {
+        try {
+            if (!(await rumorRegistry.isEligibleForLock(rumorID))) continue;
+            const tx = await rumorRegistry.lockRumor(rumorID);
+            txHash = (await tx.wait()).hash;
+        } catch (error) {
+            console.warn(`⚠️  Could not lock rumor ${rumorID}: ${error.shortMessage || error.message}`);
+            firstError = firstError || error;
+            continue;
+        }
+
+        try {
+            await deactivateCorrelations(rumorID, ownerKey);
+        } catch (error) {
+            console.warn(`⚠️  Could not deactivate correlations of rumor ${rumorID}: ${error.shortMessage || error.message}`);
+        }
+    }
+    if (firstError) throw firstError;
+    return txHash;
+}
+
+/**
+ * Candidates that are LOCKED on-chain now. performUpkeep silently skips rumors
+ * that stopped being eligible, and a failed run may have locked some already.
+ */
+async function readLocked(candidates) {
+    const { getRumor } = require('./blockchainService');
+    const locked = [];
+    for (const rumorID of candidates) {
+        const rumor = await getRumor(rumorID);
+        if (rumor?.status === 'LOCKED') locked.push(rumorID);
+    }
+    return locked;
+}
+
+function finishRun(database, runID, fields) {
+    database.prepare(`
+        UPDATE keeper_runs SET
+            status = ?, candidate_ids = ?, locked_ids = ?, attempts = ?, method = ?,
+            tx_hash = ?, error = ?, finished_at = datetime('now')
+        WHERE id = ?
+    `).run(
+        fields.status,
+        JSON.stringify(fields.candidates || []),
+        JSON.stringify(fields.locked || []),
+        fields.attempts || 0,
+        fields.method || null,
+        fields.txHash || null,
+        fields.error || null,
+        runID
+    );
+}
+
+/**
+ * Run one keeper cycle: check for expired rumors and lock them
+ * @param {'schedule'|'manual'} [trigger] - What started the run
+ * @returns {Promise<object|null>} The recorded run (null if a run is already in progress)
+ */
+async function runKeeper(trigger = 'schedule') {
+    const database = initKeeperDB();
+    if (!database || running) return null;
+
+    const { initializeProvider } = require('./blockchainService');
+    const { provider, contracts } = initializeProvider();
+
+    running = true;
+    const { lastInsertRowid: runID } = database.prepare(
+        "INSERT INTO keeper_runs (trigger, status) VALUES (?, 'RUNNING')"
+    ).run(trigger);
+
+    let candidates = [];
+    try {
+        if (!contracts.automationKeeper || !contracts.rumorRegistry) {
+            throw new Error('AutomationKeeper or RumorRegistry contract not configured');
+        }
+        const signer = keeperSigner(provider);
+        if (!signer) throw new Error('No KEEPER_PRIVATE_KEY or MASTER_PRIVATE_KEY configured');
+
+        const [upkeepNeeded, performData] = await contracts.automationKeeper.checkUpkeep('0x');
+        if (!upkeepNeeded) {
+            finishRun(database, runID, { status: 'IDLE' });
+            return getRun(runID);
+        }
+
+        const [rumorIDs] = ethers.AbiCoder.defaultAbiCoder().decode(['uint256[]'], performData);
+        candidates = Array.from(rumorIDs, id => Number(id));
+        console.log(`⏰ Keeper: ${candidates.length} rumor(s) past their voting window`);
+
+        let result;
+        try {
+            result = { ...(await submitUpkeep(contracts.automationKeeper.connect(signer), performData)), method: 'performUpkeep' };
+        } catch (error) {
+            if (error.code !== 'CALL_EXCEPTION') throw error;
+            console.warn(`⚠️  performUpkeep reverted (${error.shortMessage || error.message}) — locking rumors individually`);
+            const txHash = await lockIndividually(contracts.rumorRegistry.connect(signer), candidates);
+            result = { txHash, attempts: error.attempts, method: 'lockRumor' };
+        }
+
+        const locked = await readLocked(candidates);
+        finishRun(database, runID, { status: 'SUCCESS', candidates, locked, ...result });
+        console.log(`🔒 Keeper locked ${locked.length}/${candidates.length} rumor(s) via ${result.method}`);
+    } catch (error) {
+        // Rumors locked before the failure still belong to this run
+        const locked = await readLocked(candidates).catch(() => []);
+        finishRun(database, runID, {
+            status: 'FAILED',
+            candidates,
+            locked,
+            attempts: error.attempts || 1,
+            error: error.shortMessage || error.message,
+        });
+        console.error('❌ Keeper run failed:', error.shortMessage || error.message);
+    } finally {
+        running = false;
+    }
+
+    return getRun(runID);
+}
+
+function rowToRun(row) {
+    return {
+        id: row.id,
+        trigger: row.trigger,
+        status: row.status,
+        candidateIDs: JSON.parse(row.candidate_ids).map(String),
+        lockedIDs: JSON.parse(row.locked_ids).map(String),
+        attempts: row.attempts,
+        method: row.method,
+        txHash: row.tx_hash,
+        error: row.error,
+        startedAt: row.started_at,
+        finishedAt: row.finished_at,
+    };
+}
+
+function getRun(runID) {
+    const row = initKeeperDB()?.prepare('SELECT * FROM keeper_runs WHERE id = ?').get(runID);
+    return row ? rowToRun(row) : null;
+}
+
+/**
+ * Keeper status for the admin endpoint
+ * @param {number} [limit] - Number of recent runs to include
+ */
+async function getKeeperStatus(limit = 10) {
+    const database = initKeeperDB();
+    const { initializeProvider } = require('./blockchainService');
+    const { contracts } = initializeProvider();
+
+    let pendingEligible = null;
+    if (contracts.automationKeeper) {
+        try {
+            // The contract stops counting at 100
+            pendingEligible = Number(await contracts.automationKeeper.getEligibleLockCount());
+        } catch (error) {
+            console.error('Error fetching eligible lock count:', error.message);
+        }
+    }
+
+    const runs = database
+        ? database.prepare('SELECT * FROM keeper_runs ORDER BY id DESC LIMIT ?').all(limit).map(rowToRun)
+        : [];
+    const lastLockRow = database?.prepare(
+        "SELECT * FROM keeper_runs WHERE status = 'SUCCESS' AND locked_ids != '[]' ORDER BY id DESC LIMIT 1"
+    ).get();
+
+    return {
+        enabled: !!timer,
+        running,
+        intervalMs: keeperInterval(),
+        keeperAddress: process.env.AUTOMATION_KEEPER_ADDRESS || null,
+        pendingEligible,
+        lastRun: runs[0] || null,
+        lastLockRun: lastLockRow ? rowToRun(lastLockRow) : null,
+        recentRuns: runs,
+    };
+}
+
+/**
+ * Start polling the keeper (KEEPER_INTERVAL_MS, default 10 minutes)
+ */
+function startKeeper() {
+    if (timer) return;
+    if (!process.env.AUTOMATION_KEEPER_ADDRESS) {
+        console.log('⚠️  AUTOMATION_KEEPER_ADDRESS not set - keeper runner disabled');
+        return;
+    }
+
+    const interval = keeperInterval();
+    timer = setInterval(() => {
+        runKeeper().catch(err => console.error('Keeper run failed:', err.message));
+    }, interval);
+
+    // First check once the indexer and listeners are up
+    setTimeout(() => {
+        runKeeper().catch(err => console.error('Initial keeper run failed:', err.message));
+    }, 20000);
+
+    console.log(`⏰ Keeper runner started (every ${Math.round(interval / 1000)}s)`);
+}
+
+module.exports = {
+    initKeeperDB,
+    runKeeper,
+    getKeeperStatus,
+    startKeeper,
+};
@@ -0,0 +1,117 @@
+/**
+ * Keyword Service
+ *
+ * Normalizes rumor keywords and merges the author's own keywords with the
+ * ones extracted by the LLM. Keywords end up on-chain and drive `#tag`
+ * search, so they are kept to single lowercase tokens without personal data.
+ *
+ * Author keywords come first; AI keywords fill the remaining slots.
+ */
+
+const MAX_KEYWORDS = 10;
+const MIN_LENGTH = 2;
+const MAX_LENGTH = 32;
+
+// Words that would read as a verdict the community has not reached yet
+const DEFAULT_BANNED = ['verified', 'confirmed', 'debunked', 'fake', 'true', 'false', 'official', 'rumor'];
+
+function bannedKeywords() {
+    const extra = (process.env.BANNED_KEYWORDS || '')
+        .split(',')
+        .map(k => normalizeKeyword(k))
+        .filter(Boolean);
+    return new Set([...DEFAULT_BANNED, ...extra]);
+}
+
+/**
+ * Normalize a single keyword: lowercase, no leading '#', spaces become '-',
+ * only letters, digits and '-' kept
+ * @param {string} keyword - Raw keyword
+ * @returns {string} Normalized keyword ('' if nothing usable remains)
+ */
+function normalizeKeyword(keyword) {
+    return String(keyword || '')
+        .normalize('NFKC')
+        .toLowerCase()
+        .trim()
+        .replace(/^#+/, '')
+        .replace(/\s+/g, '-')
+        .replace(/[^\p{L}\p{N}-]/gu, '')
+        .replace(/-{2,}/g, '-')
+        .replace(/^-|-$/g, '');
+}
+
+/**
+ * Why a normalized keyword cannot be used, if it cannot
+ * @returns {string|null}
+ */
+function rejectionReason(keyword, banned) {
+    if (keyword.length < MIN_LENGTH) return 'too short';
+    if (keyword.length > MAX_LENGTH) return 'too long';
+    if (banned.has(keyword)) return 'not allowed';
+    // Emails lose their '@' and '.' in normalization, phone numbers stay digits
+    if (/^\d{7,}$/.test(keyword.replace(/-/g, ''))) return 'looks like a phone number';
+    return null;
+}
+
+/**
+ * Parse the `keywords` form field (JSON array or comma-separated string)
+ * @param {string|string[]|undefined} value - Raw request value
+ * @returns {string[]}
+ */
+function parseKeywordList(value) {
+    if (!value) return [];
+    if (Array.isArray(value)) return value.map(String);
+    try {
+        const parsed = JSON.parse(value);
+        if (Array.isArray(parsed)) return parsed.map(String);
+    } catch { /* comma-separated */ }
+    return String(value).split(',');
+}
+
+/**
+ * Merge author and AI keywords under the normalization rules
+ * @param {string[]} authorKeywords - Keywords typed by the author
+ * @param {string[]} aiKeywords - Keywords extracted by the LLM
+ * @param {{exclude?: string[]}} options - AI keywords the author removed during review
+ * @returns {{keywords: Array<{keyword: string, source: 'author'|'ai'}>, rejected: Array<{keyword: string, reason: string}>}}
+ */
+function mergeKeywords(authorKeywords = [], aiKeywords = [], { exclude = [] } = {}) {
+    const banned = bannedKeywords();
+    const excluded = new Set(exclude.map(normalizeKeyword));
+    const seen = new Set();
+    const keywords = [];
+    const rejected = [];
+
+    const add = (raw, source) => {
+        const keyword = normalizeKeyword(raw);
+        if (!keyword || seen.has(keyword)) return;
+        if (source === 'ai' && excluded.has(keyword)) return;
+
+        const reason = rejectionReason(keyword, banned);
+        if (reason) {
+            // AI keywords are dropped quietly; only the author needs to know
+            if (source === 'author') rejected.push({ keyword: String(raw).trim(), reason });
+            return;
+        }
+        if (keywords.length >= MAX_KEYWORDS) {
+            if (source === 'author') rejected.push({ keyword, reason: `limit of ${MAX_KEYWORDS} keywords` });
+            return;
+        }
+
+        seen.add(keyword);
+        keywords.push({ keyword, source });
+    };
+
+    authorKeywords.forEach(k => add(k, 'author'));
+    aiKeywords.forEach(k => add(k, 'ai'));
+
+    return { keywords, rejected };
+}
+
+module.exports = {
+    MAX_KEYWORDS,
+    normalizeKeyword,
+    parseKeywordList,
+    mergeKeywords,
+};
@@ -0,0 +1,172 @@
+/**
+ * Leaderboard Service
+ *
+ * Ranks students from the indexed IdentityRegistry state:
+ * - accuracy: accurate / (accurate + inaccurate) predictions, once a student
+ *   has LEADERBOARD_MIN_RESOLVED resolved predictions
+ * - credibility: current credibilityScore
+ * - improved: net CredibilityUpdated change over the last 7 days
+ *
+ * Entries are keyed by student ID only (no wallet), blocked students are
+ * left out, and anyone can opt out via `leaderboard_opt_outs`.
+ */
+
+const path = require('path');
+const { initIndexDB } = require('./indexerService');
+
+const BOARDS = ['accuracy', 'credibility', 'improved'];
+const DEFAULT_MIN_RESOLVED = 5;
+const IMPROVED_WINDOW_SECONDS = 7 * 24 * 3600;
+
+let db = null;
+
+function initLeaderboardDB() {
+    if (db) return db;
+    // The rankings read the indexer's student tables
+    if (!initIndexDB()) return null;
+    try {
+        const Database = require('better-sqlite3');
+        const dbPath = path.join(__dirname, '../../data/tokens.db');
+        db = new Database(dbPath);
+
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS leaderboard_opt_outs (
+                student_id INTEGER PRIMARY KEY,
+                created_at TEXT DEFAULT CURRENT_TIMESTAMP
+            );
+        `);
+
+        console.log('✅ Leaderboard tables ready');
+        return db;
+    } catch (error) {
+        console.error('❌ Leaderboard DB init failed:', error.message);
+        return null;
+    }
+}
+
+function minResolved() {
+    return parseInt(process.env.LEADERBOARD_MIN_RESOLVED) || DEFAULT_MIN_RESOLVED;
+}
+
+function rowToEntry(row, rank) {
+    const resolved = row.accurate_predictions + row.inaccurate_predictions;
+    return {
+        rank,
+        studentID: String(row.student_id),
+        status: row.status,
+        credibilityScore: row.credibility_score,
+        accuratePredictions: row.accurate_predictions,
+        inaccuratePredictions: row.inaccurate_predictions,
+        accuracy: resolved > 0 ? Math.round((row.accurate_predictions / resolved) * 1000) / 10 : null,
+        ...(row.weekly_change !== undefined && { weeklyChange: row.weekly_change }),
+    };
+}
+
+/**
+ * One leaderboard
+ * @param {'accuracy'|'credibility'|'improved'} board
+ * @param {{limit?: number}} [options]
+ * @returns {object[]} Ranked entries
+ */
+function getLeaderboard(board, { limit = 25 } = {}) {
+    const database = initLeaderboardDB();
+    if (!database) return [];
+
+    const listed = `s.status != 'BLOCKED' AND s.student_id NOT IN (SELECT student_id FROM leaderboard_opt_outs)`;
+    let rows;
+
+    if (board === 'accuracy') {
+        rows = database.prepare(`
+            SELECT s.* FROM indexed_students s
+            WHERE ${listed} AND s.accurate_predictions + s.inaccurate_predictions >= ?
+            ORDER BY CAST(s.accurate_predictions AS REAL) / (s.accurate_predictions + s.inaccurate_predictions) DESC,
+                     s.accurate_predictions + s.inaccurate_predictions DESC, s.student_id
+            LIMIT ?
+        `).all(minResolved(), limit);
+    } else if (board === 'credibility') {
+        rows = database.prepare(`
+            SELECT s.* FROM indexed_students s
+            WHERE ${listed}
+            ORDER BY s.credibility_score DESC, s.student_id
+            LIMIT ?
+        `).all(limit);
+    } else {
+        const since = Math.floor(Date.now() / 1000) - IMPROVED_WINDOW_SECONDS;
+        rows = database.prepare(`
+            SELECT s.*, SUM(c.new_score - c.old_score) AS weekly_change
+            FROM indexed_credibility_changes c
+            JOIN indexed_students s ON s.student_id = c.student_id
+            WHERE ${listed} AND c.timestamp >= ?
+            GROUP BY s.student_id
+            HAVING weekly_change > 0
+            ORDER BY weekly_change DESC, s.credibility_score DESC, s.student_id
+            LIMIT ?
+        `).all(since, limit);
+    }
+
+    return rows.map((row, i) => rowToEntry(row, i + 1));
+}
+
+/**
+ * Look up the indexed student behind a wallet, syncing it from chain if needed
+ */
+async function findStudent(walletAddress) {
+    const database = initLeaderboardDB();
+    if (!database) return null;
+
+    const lookup = () => database.prepare(
+        'SELECT student_id FROM indexed_students WHERE lower(wallet_address) = lower(?)'
+    ).get(walletAddress);
+
+    let row = lookup();
+    if (!row) {
+        const { getStudent } = require('./blockchainService');
+        const { syncStudent } = require('./indexerService');
+        const student = await getStudent(walletAddress);
+        if (!student) return null;
+        await syncStudent(student.studentID);
+        row = lookup();
+    }
+    return row ? row.student_id : null;
+}
+
+/**
+ * Whether the user behind a wallet is hidden from the leaderboard
+ * @param {string} walletAddress - User wallet (from the auth token)
+ * @returns {Promise<{studentID: string, optedOut: boolean}|null>} Null if not registered
+ */
+async function getListing(walletAddress) {
+    const studentID = await findStudent(walletAddress);
+    if (!studentID) return null;
+
+    const optedOut = !!initLeaderboardDB().prepare('SELECT 1 FROM leaderboard_opt_outs WHERE student_id = ?').get(studentID);
+    return { studentID: String(studentID), optedOut };
+}
+
+/**
+ * Hide or show a user on the leaderboard
+ * @param {string} walletAddress - User wallet (from the auth token)
+ * @param {boolean} optedOut - True to hide
+ * @returns {Promise<{studentID: string, optedOut: boolean}|null>} Null if not registered
+ */
+async function setOptOut(walletAddress, optedOut) {
+    const studentID = await findStudent(walletAddress);
+    if (!studentID) return null;
+
+    const database = initLeaderboardDB();
+    if (optedOut) {
+        database.prepare('INSERT OR IGNORE INTO leaderboard_opt_outs (student_id) VALUES (?)').run(studentID);
+    } else {
+        database.prepare('DELETE FROM leaderboard_opt_outs WHERE student_id = ?').run(studentID);
+    }
+    return { studentID: String(studentID), optedOut };
+}
+
+module.exports = {
+    BOARDS,
+    initLeaderboardDB,
+    minResolved,
+    getLeaderboard,
+    getListing,
+    setOptOut,
+};
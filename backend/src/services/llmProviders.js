@@ -0,0 +1,87 @@
+/**
+ * LLM Providers
+ *
+ * Every provider exposes the same shape:
+ *   { name: string, model: string, complete(prompt, { timeoutMs }): Promise<string> }
+ *
+ * The active provider is chosen with LLM_PROVIDER ('gemini' | 'openai' | 'stub').
+ * Without it, Gemini is used when GEMINI_API_KEY is set and the stub otherwise.
+ * 'openai' talks to any OpenAI-compatible chat completions server
+ * (OpenAI, Ollama, LM Studio, vLLM, ...) at LLM_BASE_URL.
+ * The stub never calls out; llmService answers with each task's local fallback.
+ */
+
+const axios = require('axios');
+const { GoogleGenerativeAI } = require('@google/generative-ai');
+
+function createGeminiProvider(apiKey, modelName = 'gemini-2.5-flash-lite') {
+    const model = new GoogleGenerativeAI(apiKey).getGenerativeModel({
+        model: modelName,
+        generationConfig: { responseMimeType: 'application/json' },
+    });
+
+    return {
+        name: 'gemini',
+        model: modelName,
+        async complete(prompt, { timeoutMs } = {}) {
+            const result = await model.generateContent(prompt, { timeout: timeoutMs });
+            return result.response.text();
+        },
+    };
+}
+
+function createOpenAICompatibleProvider(baseURL, modelName, apiKey) {
+    return {
+        name: 'openai',
+        model: modelName,
+        async complete(prompt, { timeoutMs } = {}) {
+            const response = await axios.post(`${baseURL.replace(/\/$/, '')}/chat/completions`, {
+                model: modelName,
+                messages: [{ role: 'user', content: prompt }],
+                temperature: 0.2,
+            }, {
+                headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+                timeout: timeoutMs,
+            });
+            return response.data.choices[0].message.content;
+        },
+    };
+}
+
+const stubProvider = { name: 'stub', model: 'local', complete: null };
+
+let activeProvider = null;
+
+/**
+ * The provider selected by configuration
+ */
+function getLLMProvider() {
+    if (activeProvider) return activeProvider;
+
+    const configured = (process.env.LLM_PROVIDER || '').toLowerCase();
+    const name = configured || (process.env.GEMINI_API_KEY ? 'gemini' : 'stub');
+
+    if (name === 'gemini' && process.env.GEMINI_API_KEY) {
+        activeProvider = createGeminiProvider(process.env.GEMINI_API_KEY, process.env.LLM_MODEL || undefined);
+    } else if (name === 'openai') {
+        activeProvider = createOpenAICompatibleProvider(
+            process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+            process.env.LLM_MODEL || 'llama3.1',
+            process.env.LLM_API_KEY
+        );
+    } else {
+        if (name !== 'stub') {
+            console.log(`⚠️  LLM provider "${name}" unavailable - using stub`);
+        }
+        activeProvider = stubProvider;
+    }
+
+    console.log(`🤖 LLM provider: ${activeProvider.name} (${activeProvider.model})`);
+    return activeProvider;
+}
+
+module.exports = {
+    createGeminiProvider,
+    createOpenAICompatibleProvider,
+    getLLMProvider,
+};
@@ -0,0 +1,179 @@
+/**
+ * LLM Service
+ *
+ * One entry point for every structured AI call: generateJSON() sends a
+ * prompt to the configured provider (see llmProviders.js), parses the reply,
+ * validates it against a small JSON schema, and retries on timeouts, network
+ * errors or invalid output. Successful replies are cached in memory.
+ * When the provider is the stub, or every attempt fails, the task's local
+ * fallback answers instead, so callers always get schema-valid data.
+ */
+
+const crypto = require('crypto');
+const { getLLMProvider } = require('./llmProviders');
+
+const TIMEOUT_MS = parseInt(process.env.LLM_TIMEOUT_MS) || 15000;
+const MAX_RETRIES = process.env.LLM_MAX_RETRIES !== undefined ? parseInt(process.env.LLM_MAX_RETRIES) : 2;
+const CACHE_TTL_MS = parseInt(process.env.LLM_CACHE_TTL_MS) || 60 * 60 * 1000;
+const CACHE_MAX_ENTRIES = 500;
+const RETRY_BASE_MS = 500;
+
+// cache key → { data, expiresAt } (Map keeps insertion order for LRU eviction)
+const cache = new Map();
+
+/**
+ * Validate a value against a JSON schema subset:
+ * type (object/array/string/number/integer/boolean), properties, required,
+ * items, enum, minimum/maximum, minItems/maxItems, minLength
+ * @returns {string|null} First error found, or null when valid
+ */
+function validateSchema(value, schema, at = '$') {
+    const actual = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+
+    if (schema.type === 'integer') {
+        if (!Number.isInteger(value)) return `${at} should be integer`;
+    } else if (schema.type && schema.type !== actual) {
+        return `${at} should be ${schema.type}, got ${actual}`;
+    }
+
+    if (schema.enum && !schema.enum.includes(value)) {
+        return `${at} should be one of ${schema.enum.join(', ')}`;
+    }
+    if (schema.minimum !== undefined && value < schema.minimum) return `${at} should be ≥ ${schema.minimum}`;
+    if (schema.maximum !== undefined && value > schema.maximum) return `${at} should be ≤ ${schema.maximum}`;
+    if (schema.minLength !== undefined && value.length < schema.minLength) return `${at} is too short`;
+
+    if (actual === 'array') {
+        if (schema.minItems !== undefined && value.length < schema.minItems) return `${at} has too few items`;
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) return `${at} has too many items`;
+        if (schema.items) {
+            for (let i = 0; i < value.length; i++) {
+                const error = validateSchema(value[i], schema.items, `${at}[${i}]`);
+                if (error) return error;
+            }
+        }
+    }
+
+    if (actual === 'object') {
+        for (const key of schema.required || []) {
+            if (!(key in value)) return `${at}.${key} is required`;
+        }
+        for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+            if (key in value) {
+                const error = validateSchema(value[key], propertySchema, `${at}.${key}`);
+                if (error) return error;
+            }
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Parse a model reply as JSON, tolerating markdown code fences
+ * and leading/trailing prose around a single JSON value
+ */
+function parseJSON(text) {
+    const trimmed = String(text || '').trim().replace(/^```(?:json)?\s*|\s*```$/g, '');
+    try {
+        return JSON.parse(trimmed);
+    } catch {
+        const start = trimmed.search(/[[{]/);
+        const end = Math.max(trimmed.lastIndexOf('}'), trimmed.lastIndexOf(']'));
+        if (start === -1 || end <= start) throw new Error('Response is not JSON');
+        return JSON.parse(trimmed.slice(start, end + 1));
+    }
+}
+
+function withTimeout(promise, ms) {
+    let timer;
+    const timeout = new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`LLM request timed out after ${ms}ms`)), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function cacheKey(provider, task, prompt) {
+    return crypto.createHash('sha256').update(`${provider.name}:${provider.model}:${task}:${prompt}`).digest('hex');
+}
+
+function readCache(key) {
+    const entry = cache.get(key);
+    if (!entry) return undefined;
+    cache.delete(key);
+    if (entry.expiresAt < Date.now()) return undefined;
+    cache.set(key, entry);
+    return entry.data;
+}
+
+function writeCache(key, data) {
+    cache.set(key, { data, expiresAt: Date.now() + CACHE_TTL_MS });
+    while (cache.size > CACHE_MAX_ENTRIES) {
+        cache.delete(cache.keys().next().value);
+    }
+}
+
+async function runFallback(task, schema, fallback) {
+    const data = await fallback();
+    const error = validateSchema(data, schema);
+    if (error) throw new Error(`Fallback for ${task} is invalid: ${error}`);
+    return { data, provider: 'stub', cached: false };
+}
+
+/**
+ * Ask the configured LLM for schema-valid JSON
+ * @param {object} options
+ * @param {string} options.task - Task name (for logs and cache keys)
+ * @param {string} options.prompt - Full prompt
+ * @param {object} options.schema - JSON schema the reply must satisfy
+ * @param {Function} options.fallback - Deterministic local answer, may be async (stub provider / all attempts failed)
+ * @param {boolean} [options.cache=true] - Reuse replies for identical prompts
+ * @returns {Promise<{data: any, provider: string, cached: boolean}>}
+ */
+async function generateJSON({ task, prompt, schema, fallback, cache: useCache = true }) {
+    const provider = getLLMProvider();
+    if (!provider.complete) {
+        return runFallback(task, schema, fallback);
+    }
+
+    const key = cacheKey(provider, task, prompt);
+    if (useCache) {
+        const cached = readCache(key);
+        if (cached !== undefined) return { data: cached, provider: provider.name, cached: true };
+    }
+
+    let lastError;
+    for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+        if (attempt > 0) {
+            await new Promise(resolve => setTimeout(resolve, RETRY_BASE_MS * 2 ** (attempt - 1)));
+        }
+        try {
+            const text = await withTimeout(provider.complete(prompt, { timeoutMs: TIMEOUT_MS }), TIMEOUT_MS);
+            const data = parseJSON(text);
+            const error = validateSchema(data, schema);
+            if (error) throw new Error(`Schema validation failed: ${error}`);
+
+            if (useCache) writeCache(key, data);
+            return { data, provider: provider.name, cached: false };
+        } catch (error) {
+            lastError = error;
+        }
+    }
+
+    console.error(`LLM ${task} failed with ${provider.name} after ${MAX_RETRIES + 1} attempt(s) (using stub):`, lastError.message);
+    return runFallback(task, schema, fallback);
+}
+
+/**
+ * Drop all cached replies
+ */
+function clearCache() {
+    cache.clear();
+}
+
+module.exports = {
+    generateJSON,
+    validateSchema,
+    parseJSON,
+    clearCache,
+};
@@ -0,0 +1,514 @@
+/**
+ * Metadata Service
+ *
+ * Removes identifying metadata from evidence before it is stored, so a
+ * photo taken on a student's phone does not carry their GPS position,
+ * device model or capture time onto IPFS.
+ *
+ * Images are cleaned at the container level (JPEG segments, PNG chunks,
+ * WebP chunks, GIF extensions), so the pixels are not re-encoded. JPEGs
+ * whose EXIF orientation is not "upright" are rotated and re-encoded
+ * instead, otherwise dropping the tag would show them sideways.
+ * PDFs have their document info values and XMP packets blanked in place,
+ * keeping every byte offset (and therefore the xref table) valid.
+ * MP4s are cleaned in place the same way: metadata boxes become zeroed
+ * `free` boxes and header timestamps are zeroed, so the sample offsets in
+ * `stco`/`co64` still point at the right bytes.
+ *
+ * Also computes a 64-bit DCT perceptual hash for images, so the same
+ * picture can be recognised after resizing or recompression.
+ */
+
+const zlib = require('zlib');
+
+// EXIF tags grouped by what they reveal about the uploader
+const EXIF_TAGS = {
+    0x8825: 'GPS location',
+    0x010F: 'camera details', 0x0110: 'camera details', 0xA431: 'camera details',
+    0xA433: 'camera details', 0xA434: 'camera details', 0x927C: 'camera details',
+    0x0132: 'timestamps', 0x9003: 'timestamps', 0x9004: 'timestamps',
+    0x013B: 'author', 0x8298: 'author', 0xA430: 'author',
+    0x0131: 'software',
+};
+const EXIF_IFD_POINTER = 0x8769;
+const ORIENTATION_TAG = 0x0112;
+
+// PNG chunks that carry text or timestamps
+const PNG_METADATA_CHUNKS = {
+    tEXt: 'text metadata',
+    zTXt: 'text metadata',
+    iTXt: 'text metadata',
+    eXIf: 'EXIF metadata',
+    tIME: 'timestamps',
+};
+
+// MP4 boxes holding other boxes; metadata can sit at any of these levels
+const MP4_CONTAINERS = new Set(['moov', 'trak', 'mdia', 'minf', 'edts', 'moof', 'traf']);
+// Boxes replaced by `free`: user data (©xyz GPS, ©mak device), metadata item lists, XMP
+const MP4_METADATA_BOXES = new Set(['udta', 'meta', 'uuid']);
+// Full boxes whose creation and modification times are zeroed
+const MP4_TIMESTAMP_BOXES = new Set(['mvhd', 'tkhd', 'mdhd']);
+
+const PDF_INFO_KEYS = ['Title', 'Author', 'Subject', 'Keywords', 'Creator', 'Producer', 'CreationDate', 'ModDate'];
+
+// ============ EXIF ============
+
+/**
+ * List what an EXIF (TIFF) block contains and its orientation
+ * @param {Buffer} tiff - TIFF structure (after the "Exif\0\0" marker)
+ * @returns {{categories: Set<string>, orientation: number}}
+ */
+function inspectExif(tiff) {
+    const categories = new Set(['EXIF metadata']);
+    let orientation = 1;
+    if (tiff.length < 8) return { categories, orientation };
+
+    const little = tiff.toString('ascii', 0, 2) === 'II';
+    const u16 = (offset) => (little ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset));
+    const u32 = (offset) => (little ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset));
+
+    const visited = new Set();
+    const walk = (ifdOffset) => {
+        if (visited.has(ifdOffset) || ifdOffset + 2 > tiff.length) return;
+        visited.add(ifdOffset);
+
+        const count = u16(ifdOffset);
+        for (let i = 0; i < count; i++) {
+            const entry = ifdOffset + 2 + i * 12;
+            if (entry + 12 > tiff.length) return;
+            const tag = u16(entry);
+
+            if (EXIF_TAGS[tag]) categories.add(EXIF_TAGS[tag]);
+            if (tag === ORIENTATION_TAG) orientation = u16(entry + 8);
+            if (tag === EXIF_IFD_POINTER) walk(u32(entry + 8));
+        }
+    };
+
+    try {
+        walk(u32(4));
+    } catch { /* truncated EXIF - report what was read */ }
+
+    return { categories, orientation };
+}
+
+// ============ Container cleaners ============
+
+function stripJpeg(buffer) {
+    const removed = new Set();
+    let orientation = 1;
+    const kept = [buffer.subarray(0, 2)];
+    let offset = 2;
+
+    while (offset + 4 <= buffer.length && buffer[offset] === 0xFF) {
+        const marker = buffer[offset + 1];
+        // Start of scan: the rest is entropy-coded image data
+        if (marker === 0xDA) break;
+
+        const length = buffer.readUInt16BE(offset + 2);
+        const segment = buffer.subarray(offset, offset + 2 + length);
+        const payload = segment.subarray(4);
+        offset += 2 + length;
+
+        if (marker === 0xE1 && payload.toString('ascii', 0, 6) === 'Exif\0\0') {
+            const exif = inspectExif(payload.subarray(6));
+            exif.categories.forEach(c => removed.add(c));
+            orientation = exif.orientation;
+        } else if (marker === 0xE1) {
+            removed.add('XMP metadata');
+        } else if (marker === 0xED) {
+            removed.add('IPTC metadata');
+        } else if (marker === 0xFE) {
+            removed.add('comments');
+        } else if (marker === 0xE2 && payload.toString('ascii', 0, 11) === 'ICC_PROFILE') {
+            // Colour profile: needed to display the image correctly
+            kept.push(segment);
+        } else if (marker === 0xE2) {
+            removed.add('embedded previews');
+        } else if (marker >= 0xE3 && marker <= 0xEF && marker !== 0xEE) {
+            // APP3-APP15 except Adobe (APP14), which affects colour decoding
+            removed.add('vendor metadata');
+        } else {
+            kept.push(segment);
+        }
+    }
+
+    kept.push(buffer.subarray(offset));
+    return { buffer: Buffer.concat(kept), removed, orientation };
+}
+
+function stripPng(buffer) {
+    const removed = new Set();
+    const kept = [buffer.subarray(0, 8)];
+    let offset = 8;
+
+    while (offset + 12 <= buffer.length) {
+        const length = buffer.readUInt32BE(offset);
+        const type = buffer.toString('ascii', offset + 4, offset + 8);
+        const chunk = buffer.subarray(offset, offset + 12 + length);
+        offset += 12 + length;
+
+        if (type === 'eXIf') {
+            inspectExif(chunk.subarray(8, 8 + length)).categories.forEach(c => removed.add(c));
+        } else if (PNG_METADATA_CHUNKS[type]) {
+            removed.add(PNG_METADATA_CHUNKS[type]);
+        } else {
+            kept.push(chunk);
+        }
+        if (type === 'IEND') break;
+    }
+
+    return { buffer: Buffer.concat(kept), removed, orientation: 1 };
+}
+
+function stripWebp(buffer) {
+    const removed = new Set();
+    const kept = [];
+    let offset = 12;
+
+    while (offset + 8 <= buffer.length) {
+        const type = buffer.toString('ascii', offset, offset + 4);
+        const size = buffer.readUInt32LE(offset + 4);
+        const chunk = Buffer.from(buffer.subarray(offset, offset + 8 + size + (size % 2)));
+        offset += 8 + size + (size % 2);
+
+        if (type === 'EXIF') {
+            const tiff = chunk.subarray(8, 8 + size);
+            // Some encoders keep the JPEG "Exif\0\0" prefix
+            const start = tiff.toString('ascii', 0, 6) === 'Exif\0\0' ? 6 : 0;
+            inspectExif(tiff.subarray(start)).categories.forEach(c => removed.add(c));
+        } else if (type === 'XMP ') {
+            removed.add('XMP metadata');
+        } else {
+            if (type === 'VP8X') chunk[8] &= ~0x0C; // clear the EXIF and XMP flags
+            kept.push(chunk);
+        }
+    }
+
+    const header = Buffer.from(buffer.subarray(0, 12));
+    const body = Buffer.concat(kept);
+    header.writeUInt32LE(4 + body.length, 4);
+    return { buffer: Buffer.concat([header, body]), removed, orientation: 1 };
+}
+
+function stripGif(buffer) {
+    const removed = new Set();
+    const kept = [];
+
+    // Header + logical screen descriptor (+ global colour table)
+    let offset = 13;
+    if (buffer[10] & 0x80) offset += 3 * (1 << ((buffer[10] & 0x07) + 1));
+    kept.push(buffer.subarray(0, offset));
+
+    const skipSubBlocks = (from) => {
+        let pos = from;
+        while (pos < buffer.length && buffer[pos] !== 0) pos += buffer[pos] + 1;
+        return pos + 1;
+    };
+
+    while (offset < buffer.length) {
+        const start = offset;
+        const introducer = buffer[offset];
+
+        if (introducer === 0x3B) {
+            kept.push(buffer.subarray(offset, offset + 1));
+            break;
+        } else if (introducer === 0x21) {
+            const label = buffer[offset + 1];
+            offset = skipSubBlocks(offset + 2);
+
+            if (label === 0xFE) {
+                removed.add('comments');
+                continue;
+            }
+            if (label === 0xFF) {
+                // Keep animation loop settings, drop XMP and other application data
+                const app = buffer.toString('ascii', start + 3, start + 14);
+                if (app !== 'NETSCAPE2.0' && app !== 'ANIMEXTS1.0') {
+                    removed.add(app.startsWith('XMP') ? 'XMP metadata' : 'vendor metadata');
+                    continue;
+                }
+            }
+            kept.push(buffer.subarray(start, offset));
+        } else if (introducer === 0x2C) {
+            offset += 10;
+            const packed = buffer[start + 9];
+            if (packed & 0x80) offset += 3 * (1 << ((packed & 0x07) + 1));
+            offset = skipSubBlocks(offset + 1); // LZW minimum code size, then image data
+            kept.push(buffer.subarray(start, offset));
+        } else {
+            // Unknown block: keep the remainder untouched
+            kept.push(buffer.subarray(offset));
+            break;
+        }
+    }
+
+    return { buffer: Buffer.concat(kept), removed, orientation: 1 };
+}
+
+/**
+ * Build a zlib stream of exactly `length` bytes that inflates to whitespace
+ * (stored blocks, so the size is predictable)
+ */
+function blankDeflateStream(length) {
+    for (let n = Math.max(0, length - 11); n >= 0; n--) {
+        const stream = zlib.deflateSync(Buffer.alloc(n, 0x20), { level: 0 });
+        if (stream.length === length) return stream;
+        if (stream.length < length) return null;
+    }
+    return null;
+}
+
+function stripPdf(buffer) {
+    const removed = new Set();
+    const output = Buffer.from(buffer);
+    const text = buffer.toString('latin1');
+
+    // Document info dictionaries referenced from any trailer (incremental updates add more)
+    const infoRefs = new Set();
+    for (const match of text.matchAll(/\/Info\s+(\d+)\s+(\d+)\s+R/g)) infoRefs.add(`${match[1]} ${match[2]}`);
+
+    for (const ref of infoRefs) {
+        const objectPattern = new RegExp(`(?:^|[^0-9])${ref.replace(' ', '\\s+')}\\s+obj`, 'g');
+        for (const match of text.matchAll(objectPattern)) {
+            const start = match.index + match[0].length;
+            const end = text.indexOf('endobj', start);
+            if (end === -1) continue;
+
+            const body = text.slice(start, end);
+            for (const key of PDF_INFO_KEYS) {
+                // Literal "(...)" (with escapes) or hex "<...>" string values
+                const valuePattern = new RegExp(`/${key}\\s*(\\((?:\\\\.|[^\\\\)])*\\)|<[0-9A-Fa-f\\s]*>)`, 'g');
+                for (const value of body.matchAll(valuePattern)) {
+                    const valueStart = start + value.index + value[0].length - value[1].length;
+                    const empty = value[1][0] === '(' ? '()' : '<>';
+                    output.write(empty.padEnd(value[1].length, ' '), valueStart, 'latin1');
+                    removed.add(['CreationDate', 'ModDate'].includes(key) ? 'timestamps' : 'document info');
+                }
+            }
+        }
+    }
+
+    // XMP packets live in /Type /Metadata streams
+    for (const match of text.matchAll(/\/Type\s*\/Metadata[^]*?stream\r?\n/g)) {
+        const dictStart = text.lastIndexOf('obj', match.index);
+        const dict = text.slice(dictStart, match.index + match[0].length);
+        if (dict.includes('endobj')) continue; // matched across objects
+
+        const dataStart = match.index + match[0].length;
+        const dataEnd = text.indexOf('endstream', dataStart);
+        if (dataEnd === -1) continue;
+        const length = text.slice(dataStart, dataEnd).replace(/\r?\n$/, '').length;
+
+        if (/\/Filter\s*\/FlateDecode/.test(dict)) {
+            const blank = blankDeflateStream(length);
+            if (!blank) continue;
+            blank.copy(output, dataStart);
+        } else {
+            output.fill(0x20, dataStart, dataStart + length);
+        }
+        removed.add('XMP metadata');
+    }
+
+    return { buffer: output, removed, orientation: 1 };
+}
+
+/**
+ * What an MP4 metadata box reveals, from the keys and atoms it contains
+ */
+function mp4MetadataCategories(payload) {
+    const text = payload.toString('latin1');
+    const categories = new Set(['video metadata']);
+    if (text.includes('\xA9xyz') || text.includes('location')) categories.add('GPS location');
+    if (/\xA9(mak|mod)|\.make|\.model|\.software/.test(text)) categories.add('camera details');
+    if (text.includes('\xA9day') || text.includes('creationdate')) categories.add('timestamps');
+    return categories;
+}
+
+function stripMp4(buffer) {
+    const removed = new Set();
+    const output = Buffer.from(buffer);
+
+    const walk = (start, end) => {
+        let offset = start;
+        while (offset + 8 <= end) {
+            let size = output.readUInt32BE(offset);
+            const type = output.toString('latin1', offset + 4, offset + 8);
+            let header = 8;
+            if (size === 1) {
+                if (offset + 16 > end) return;
+                size = Number(output.readBigUInt64BE(offset + 8));
+                header = 16;
+            } else if (size === 0) {
+                size = end - offset; // box runs to the end of its parent
+            }
+            if (size < header || offset + size > end) return;
+
+            const payloadStart = offset + header;
+            const boxEnd = offset + size;
+
+            if (MP4_METADATA_BOXES.has(type)) {
+                mp4MetadataCategories(output.subarray(payloadStart, boxEnd)).forEach(c => removed.add(c));
+                output.write('free', offset + 4, 'latin1');
+                output.fill(0, payloadStart, boxEnd);
+            } else if (MP4_TIMESTAMP_BOXES.has(type) && boxEnd - payloadStart >= 20) {
+                // Version 1 boxes use 64-bit times
+                const width = output[payloadStart] === 1 ? 16 : 8;
+                const times = output.subarray(payloadStart + 4, payloadStart + 4 + width);
+                if (times.some(byte => byte !== 0)) removed.add('timestamps');
+                times.fill(0);
+            } else if (MP4_CONTAINERS.has(type)) {
+                walk(payloadStart, boxEnd);
+            }
+
+            offset = boxEnd;
+        }
+    };
+
+    walk(0, output.length);
+    return { buffer: output, removed, orientation: 1 };
+}
+
+/**
+ * MIME type from a file's signature. The type a client declares comes from
+ * the file extension, so a renamed photo would otherwise get the wrong cleaner.
+ * @param {Buffer} buffer - File contents
+ * @returns {string|null} One of the CLEANERS types, or null if unrecognised
+ */
+function detectMimeType(buffer) {
+    const ascii = (start, end) => buffer.toString('latin1', start, end);
+    if (buffer.length >= 3 && buffer[0] === 0xFF && buffer[1] === 0xD8 && buffer[2] === 0xFF) return 'image/jpeg';
+    if (buffer.length >= 8 && buffer.readUInt32BE(0) === 0x89504E47) return 'image/png';
+    if (buffer.length >= 12 && ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+    if (['GIF87a', 'GIF89a'].includes(ascii(0, 6))) return 'image/gif';
+    if (ascii(0, 5) === '%PDF-') return 'application/pdf';
+    if (buffer.length >= 8 && ascii(4, 8) === 'ftyp') return 'video/mp4';
+    return null;
+}
+
+const CLEANERS = {
+    'image/jpeg': stripJpeg,
+    'image/png': stripPng,
+    'image/webp': stripWebp,
+    'image/gif': stripGif,
+    'application/pdf': stripPdf,
+    'video/mp4': stripMp4,
+};
+
+/**
+ * Remove identifying metadata from a file. The cleaner is chosen from the
+ * file's signature, not from the declared type.
+ * @param {Buffer} buffer - File contents
+ * @param {string} declaredType - MIME type sent by the client (only used in logs)
+ * @returns {Promise<{buffer: Buffer, mimeType: string|null, removed: string[], supported: boolean}>}
+ *   mimeType is the detected type, to store and serve instead of the declared one;
+ *   removed lists what was found and dropped (e.g. "GPS location", "camera details");
+ *   supported is false for unrecognised files and for files that could not be parsed,
+ *   which are returned unchanged and must not be published
+ */
+async function stripMetadata(buffer, declaredType) {
+    const mimeType = detectMimeType(buffer);
+    const clean = CLEANERS[mimeType];
+    if (!clean) return { buffer, mimeType, removed: [], supported: false };
+    if (declaredType && declaredType !== mimeType) {
+        console.log(`🔎 File declared as ${declaredType} is ${mimeType}; cleaning it as ${mimeType}`);
+    }
+
+    let result;
+    try {
+        result = clean(buffer);
+    } catch (error) {
+        console.error(`⚠️  Metadata stripping failed for ${mimeType}:`, error.message);
+        return { buffer, mimeType, removed: [], supported: false };
+    }
+
+    // The orientation tag went with the EXIF block: bake the rotation into the pixels
+    if (result.orientation > 1 && result.orientation <= 8) {
+        const sharp = require('sharp');
+        result.buffer = await sharp(buffer).rotate().jpeg({ quality: 92 }).toBuffer();
+    }
+
+    return { buffer: result.buffer, mimeType, removed: [...result.removed], supported: true };
+}
+
+// ============ Perceptual hash ============
+
+const HASH_SIZE = 32;
+const HASH_BITS = 8;
+
+/**
+ * 64-bit DCT perceptual hash (pHash) of an image
+ * @param {Buffer} buffer - Image contents
+ * @returns {Promise<string|null>} 16 hex characters, or null if the file is not a decodable image
+ */
+async function perceptualHash(buffer) {
+    let pixels;
+    try {
+        const sharp = require('sharp');
+        pixels = await sharp(buffer, { pages: 1 })
+            .rotate()
+            .greyscale()
+            .resize(HASH_SIZE, HASH_SIZE, { fit: 'fill' })
+            .raw()
+            .toBuffer();
+    } catch {
+        return null;
+    }
+
+    // Low-frequency 8x8 block of the 2D DCT-II
+    const cos = [];
+    for (let u = 0; u < HASH_BITS; u++) {
+        cos.push([]);
+        for (let x = 0; x < HASH_SIZE; x++) {
+            cos[u].push(Math.cos(((2 * x + 1) * u * Math.PI) / (2 * HASH_SIZE)));
+        }
+    }
+
+    const coefficients = [];
+    for (let u = 0; u < HASH_BITS; u++) {
+        for (let v = 0; v < HASH_BITS; v++) {
+            let sum = 0;
+            for (let y = 0; y < HASH_SIZE; y++) {
+                for (let x = 0; x < HASH_SIZE; x++) {
+                    sum += pixels[y * HASH_SIZE + x] * cos[u][y] * cos[v][x];
+                }
+            }
+            coefficients.push(sum);
+        }
+    }
+
+    // Compare against the median, ignoring the DC term (overall brightness)
+    const sorted = coefficients.slice(1).sort((a, b) => a - b);
+    const median = (sorted[31] + sorted[32]) / 2;
+
+    let hash = '';
+    for (let i = 0; i < coefficients.length; i += 4) {
+        let nibble = 0;
+        for (let j = 0; j < 4; j++) {
+            nibble = (nibble << 1) | (coefficients[i + j] > median ? 1 : 0);
+        }
+        hash += nibble.toString(16);
+    }
+    return hash;
+}
+
+/**
+ * Number of differing bits between two perceptual hashes
+ */
+function hammingDistance(a, b) {
+    let distance = 0;
+    for (let i = 0; i < a.length; i++) {
+        let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+        while (diff) {
+            distance += diff & 1;
+            diff >>= 1;
+        }
+    }
+    return distance;
+}
+
+module.exports = {
+    detectMimeType,
+    stripMetadata,
+    perceptualHash,
+    hammingDistance,
+};
@@ -0,0 +1,145 @@
+/**
+ * Content Storage Providers
+ *
+ * Every provider exposes the same shape:
+ *   {
+ *     name: string,
+ *     put(buffer, { name, mimeType }): Promise<string>,          // → CID
+ *     get(cid): Promise<{ buffer: Buffer, mimeType: string } | null>,
+ *     gatewayUrl(cid): string,
+ *   }
+ *
+ * The active provider is chosen with STORAGE_PROVIDER ('pinata' | 'local').
+ * Without it, Pinata is used when PINATA_API_KEY/PINATA_SECRET_KEY are set
+ * and the local store otherwise.
+ *
+ * The local store is content-addressed: files live under data/content/<cid>
+ * and the CID is a real CIDv1 (raw codec, sha2-256, base32), the same CID an
+ * IPFS node assigns to the block with `ipfs block put --cid-codec raw`.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const axios = require('axios');
+const FormData = require('form-data');
+const { computeCID, isValidCID } = require('./cidService');
+
+const PINATA_API_URL = 'https://api.pinata.cloud';
+const DEFAULT_PINATA_GATEWAY = 'https://gateway.pinata.cloud/ipfs';
+
+function createLocalProvider(directory, publicUrl) {
+    const objectPath = (cid) => path.join(directory, cid);
+    const metaPath = (cid) => path.join(directory, `${cid}.json`);
+
+    return {
+        name: 'local',
+        async put(buffer, { name, mimeType } = {}) {
+            const cid = computeCID(buffer);
+            fs.mkdirSync(directory, { recursive: true });
+            if (!fs.existsSync(objectPath(cid))) {
+                fs.writeFileSync(objectPath(cid), buffer);
+                fs.writeFileSync(metaPath(cid), JSON.stringify({
+                    name: name || null,
+                    mimeType: mimeType || 'application/octet-stream',
+                    size: buffer.length,
+                }));
+            }
+            return cid;
+        },
+        async get(cid) {
+            if (!isValidCID(cid) || !fs.existsSync(objectPath(cid))) return null;
+            const buffer = fs.readFileSync(objectPath(cid));
+            let mimeType = 'application/octet-stream';
+            try {
+                mimeType = JSON.parse(fs.readFileSync(metaPath(cid), 'utf8')).mimeType || mimeType;
+            } catch { /* metadata is optional */ }
+            return { buffer, mimeType };
+        },
+        gatewayUrl(cid) {
+            return `${publicUrl}/${cid}`;
+        },
+    };
+}
+
+function createPinataProvider(apiKey, secretKey, gateway) {
+    const authHeaders = {
+        'pinata_api_key': apiKey,
+        'pinata_secret_api_key': secretKey,
+    };
+
+    return {
+        name: 'pinata',
+        async put(buffer, { name, mimeType } = {}) {
+            const formData = new FormData();
+            formData.append('file', buffer, {
+                filename: name || 'content',
+                contentType: mimeType || 'application/octet-stream',
+            });
+            formData.append('pinataMetadata', JSON.stringify({
+                name: `${name || 'content'}-${Date.now()}`,
+            }));
+
+            const response = await axios.post(`${PINATA_API_URL}/pinning/pinFileToIPFS`, formData, {
+                headers: { ...formData.getHeaders(), ...authHeaders },
+                maxBodyLength: Infinity,
+                maxContentLength: Infinity,
+            });
+            return response.data.IpfsHash;
+        },
+        async get(cid) {
+            if (!isValidCID(cid)) return null;
+            try {
+                const response = await axios.get(`${gateway}/${cid}`, { responseType: 'arraybuffer' });
+                return {
+                    buffer: Buffer.from(response.data),
+                    mimeType: response.headers['content-type'] || 'application/octet-stream',
+                };
+            } catch (error) {
+                if (error.response?.status === 404) return null;
+                throw error;
+            }
+        },
+        gatewayUrl(cid) {
+            return `${gateway}/${cid}`;
+        },
+    };
+}
+
+let activeProvider = null;
+
+/**
+ * The provider selected by configuration
+ */
+function getStorageProvider() {
+    if (activeProvider) return activeProvider;
+
+    const hasPinataKeys = !!(process.env.PINATA_API_KEY && process.env.PINATA_SECRET_KEY);
+    const configured = (process.env.STORAGE_PROVIDER || '').toLowerCase();
+    const name = configured || (hasPinataKeys ? 'pinata' : 'local');
+
+    if (name === 'pinata' && hasPinataKeys) {
+        activeProvider = createPinataProvider(
+            process.env.PINATA_API_KEY,
+            process.env.PINATA_SECRET_KEY,
+            process.env.IPFS_GATEWAY_URL || DEFAULT_PINATA_GATEWAY
+        );
+    } else {
+        if (name !== 'local') {
+            console.log(`⚠️  Storage provider "${name}" unavailable - using local content store`);
+        }
+        const backendUrl = process.env.BACKEND_PUBLIC_URL || `http://localhost:${process.env.PORT || 5000}`;
+        activeProvider = createLocalProvider(
+            process.env.LOCAL_CONTENT_DIR || path.join(__dirname, '../../data/content'),
+            `${backendUrl}/api/content`
+        );
+    }
+
+    console.log(`📦 Storage provider: ${activeProvider.name}`);
+    return activeProvider;
+}
+
+module.exports = {
+    createLocalProvider,
+    createPinataProvider,
+    getStorageProvider,
+};
@@ -0,0 +1,85 @@
+/**
+ * Stream Service
+ *
+ * Fans contract events out to browsers over Server-Sent Events.
+ * Clients subscribe either to the global channel (every rumor) or to a
+ * single rumor's channel. Events published for a rumor reach both.
+ */
+
+const HEARTBEAT_MS = 25 * 1000;
+const GLOBAL_CHANNEL = 'global';
+
+// channel name → Set of open responses
+const channels = new Map();
+
+function rumorChannel(rumorID) {
+    return `rumor:${rumorID}`;
+}
+
+/**
+ * Register an Express response as an SSE client on a channel
+ * @param {object} req - Express request
+ * @param {object} res - Express response
+ * @param {string|number} [rumorID] - Subscribe to one rumor only (global if omitted)
+ */
+function subscribe(req, res, rumorID) {
+    const channel = rumorID ? rumorChannel(rumorID) : GLOBAL_CHANNEL;
+
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no',
+    });
+    res.write(`event: connected\ndata: ${JSON.stringify({ channel })}\n\n`);
+
+    if (!channels.has(channel)) channels.set(channel, new Set());
+    channels.get(channel).add(res);
+
+    // Comment lines keep proxies from closing idle connections
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS);
+
+    req.on('close', () => {
+        clearInterval(heartbeat);
+        const clients = channels.get(channel);
+        if (clients) {
+            clients.delete(res);
+            if (clients.size === 0) channels.delete(channel);
+        }
+    });
+}
+
+function send(channel, eventName, payload) {
+    const clients = channels.get(channel);
+    if (!clients) return;
+
+    const message = `event: ${eventName}\ndata: ${JSON.stringify(payload)}\n\n`;
+    for (const res of clients) {
+        res.write(message);
+    }
+}
+
+/**
+ * Publish a rumor event to the global channel and the rumor's own channel
+ * @param {string} eventName - Contract event name (e.g. 'VoteCast')
+ * @param {object} payload - JSON payload; must include rumorID
+ */
+function publish(eventName, payload) {
+    send(GLOBAL_CHANNEL, eventName, payload);
+    if (payload.rumorID) send(rumorChannel(payload.rumorID), eventName, payload);
+}
+
+/**
+ * Number of connected clients (for health/debug)
+ */
+function getClientCount() {
+    let count = 0;
+    for (const clients of channels.values()) count += clients.size;
+    return count;
+}
+
+module.exports = {
+    subscribe,
+    publish,
+    getClientCount,
+};
@@ -17,18 +17,40 @@
 const { ethers } = require('ethers');
 const path = require('path');
 
-// Gemini for generating test rumors
-let genAI = null;
-let model = null;
-
-function initGemini() {
-    if (!genAI && process.env.GEMINI_API_KEY) {
-        const { GoogleGenerativeAI } = require('@google/generative-ai');
-        genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-        model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash-lite' });
-    }
-    return model;
-}
+const { generateJSON } = require('./llmService');
+
+// Offline test rumors (stub LLM provider, or the provider failed)
+const FALLBACK_RUMORS = [
+    {
+        title: 'University Library Closing Permanently Next Month',
+        description: 'Sources within the administration have confirmed that the main university library will be permanently closing its doors next month due to budget cuts. All books will be moved to an online-only system. Students are advised to return all borrowed materials immediately.',
+    },
+    {
+        title: 'Free Laptops Being Distributed to All Students',
+        description: 'The university IT department announced that all enrolled students will receive free laptops starting next week. The laptops are part of a new digital initiative funded by a generous anonymous donor. Students just need to show their ID at the campus store.',
+    },
+    {
+        title: 'Final Exams Cancelled for This Semester',
+        description: 'Breaking: The academic council has voted unanimously to cancel all final exams this semester. Instead, final grades will be based solely on midterm scores and assignment submissions. The official notice will be sent to students by email tomorrow.',
+    },
+    {
+        title: 'Campus Cafeteria Found Using Expired Ingredients',
+        description: 'A health inspection conducted yesterday revealed that the main campus cafeteria has been using expired ingredients in their meals for the past three months. The cafeteria will be shut down starting tomorrow for deep cleaning and restocking.',
+    },
+    {
+        title: 'New Policy: No Classes on Fridays Starting Next Semester',
+        description: 'The university board has approved a new policy eliminating all Friday classes starting next semester. The decision was made to improve student mental health and allow more time for independent study and research projects.',
+    },
+];
+
+const FALSE_RUMOR_SCHEMA = {
+    type: 'object',
+    required: ['title', 'description'],
+    properties: {
+        title: { type: 'string', minLength: 5 },
+        description: { type: 'string', minLength: 20 },
+    },
+};
 
 // SQLite for tracking test rumors
 let db = null;
@@ -63,42 +85,12 @@ function initTestDB() {
 }
 
 /**
- * Use Gemini to generate a realistic but FALSE campus rumor
+ * Use the configured LLM to generate a realistic but FALSE campus rumor.
+ * Offline, rumors rotate through FALLBACK_RUMORS once per week.
+ * @param {Date} [now] - Picks the offline rumor (deterministic per week)
  */
-async function generateFalseRumor() {
-    const ai = initGemini();
-
-    if (!ai) {
-        // Fallback: hardcoded test rumors if Gemini is unavailable
-        const fallbackRumors = [
-            {
-                title: 'University Library Closing Permanently Next Month',
-                description: 'Sources within the administration have confirmed that the main university library will be permanently closing its doors next month due to budget cuts. All books will be moved to an online-only system. Students are advised to return all borrowed materials immediately.',
-            },
-            {
-                title: 'Free Laptops Being Distributed to All Students',
-                description: 'The university IT department announced that all enrolled students will receive free laptops starting next week. The laptops are part of a new digital initiative funded by a generous anonymous donor. Students just need to show their ID at the campus store.',
-            },
-            {
-                title: 'Final Exams Cancelled for This Semester',
-                description: 'Breaking: The academic council has voted unanimously to cancel all final exams this semester. Instead, final grades will be based solely on midterm scores and assignment submissions. The official notice will be sent to students by email tomorrow.',
-            },
-            {
-                title: 'Campus Cafeteria Found Using Expired Ingredients',
-                description: 'A health inspection conducted yesterday revealed that the main campus cafeteria has been using expired ingredients in their meals for the past three months. The cafeteria will be shut down starting tomorrow for deep cleaning and restocking.',
-            },
-            {
-                title: 'New Policy: No Classes on Fridays Starting Next Semester',
-                description: 'The university board has approved a new policy eliminating all Friday classes starting next semester. The decision was made to improve student mental health and allow more time for independent study and research projects.',
-            },
-        ];
-
-        const idx = Math.floor(Math.random() * fallbackRumors.length);
-        return fallbackRumors[idx];
-    }
-
-    try {
-        const prompt = `You are generating a TEST rumor for a campus rumor verification platform. 
+async function generateFalseRumor(now = new Date()) {
+    const prompt = `You are generating a TEST rumor for a campus rumor verification platform. 
 This rumor must be:
 1. Realistic and believable (it should sound like a real campus announcement)
 2. COMPLETELY FALSE (it is a test to check if users can identify misinformation)
@@ -112,25 +104,17 @@ Return ONLY the JSON, no other text.
 Example format:
 {"title": "Short catchy headline", "description": "A realistic but false 2-4 sentence campus rumor."}`;
 
-        const result = await ai.generateContent(prompt);
-        const response = result.response.text();
-
-        const jsonMatch = response.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-            const parsed = JSON.parse(jsonMatch[0]);
-            if (parsed.title && parsed.description) {
-                return parsed;
-            }
-        }
-        throw new Error('Failed to parse AI response');
-    } catch (error) {
-        console.error('⚠️ Gemini test rumor generation failed, using fallback:', error.message);
-        // Use fallback
-        return {
-            title: 'University Announces Surprise Holiday Next Week',
-            description: 'The administration has declared an unexpected holiday next week due to ongoing infrastructure maintenance on campus. All classes and exams are postponed. Students are encouraged to use this time for self-study.',
-        };
-    }
+    const week = Math.floor(now.getTime() / (7 * 24 * 60 * 60 * 1000));
+    const { data } = await generateJSON({
+        task: 'false-rumor',
+        prompt,
+        schema: FALSE_RUMOR_SCHEMA,
+        fallback: () => FALLBACK_RUMORS[week % FALLBACK_RUMORS.length],
+        // Every run should produce a new rumor
+        cache: false,
+    });
+
+    return { title: data.title, description: data.description };
 }
 
 /**
@@ -416,6 +400,7 @@ function startTestRumorScheduler() {
 }
 
 module.exports = {
+    generateFalseRumor,
     generateAndPostTestRumor,
     autoVerifyTestRumors,
     startTestRumorScheduler,
@@ -0,0 +1,129 @@
+/**
+ * Timeline Service
+ *
+ * Builds the vote timeline for a rumor: every vote in order, with the
+ * cumulative weighted confirm/dispute scores and the confidence after it.
+ *
+ * Confidence is replayed with RumorRegistry._updateConfidence
+ * (initial + confirm score − dispute score, clamped to ±100). Correlation
+ * boosts and trust transfers are added on top of the current value, and the
+ * next vote recomputes from the formula, exactly as on-chain.
+ *
+ * Votes are anonymized: no voter ID, wallet, vote ID or transaction hash,
+ * and voter credibility is rounded down to the nearest 10.
+ */
+
+const { getRumor, getVotesForRumor } = require('./blockchainService');
+const { getRumorVotes, getRumorBoosts } = require('./indexerService');
+const { getTrustLog } = require('./trustService');
+
+const CREDIBILITY_BUCKET = 10;
+
+const clamp = (value) => Math.max(-100, Math.min(100, value));
+
+/**
+ * Votes from VotingSystem, falling back to the index (which has no voter credibility)
+ */
+async function loadVotes(rumorID) {
+    try {
+        return await getVotesForRumor(rumorID);
+    } catch (error) {
+        console.error(`Error fetching votes of rumor ${rumorID} from chain:`, error.message);
+        return getRumorVotes(rumorID).map(vote => ({
+            voteType: vote.voteType,
+            voterWeight: vote.weight,
+            voterCredibility: null,
+            timestamp: vote.timestamp,
+        }));
+    }
+}
+
+/**
+ * Build the anonymized vote timeline for a rumor
+ * @param {number} rumorID - Rumor ID
+ * @returns {Promise<object|null>} Timeline, or null if the rumor does not exist
+ */
+async function buildVoteTimeline(rumorID) {
+    const rumor = await getRumor(rumorID);
+    if (!rumor) return null;
+
+    const initialConfidence = parseInt(rumor.initialConfidence);
+    const votes = await loadVotes(rumorID);
+    const boosts = getRumorBoosts(rumorID);
+    const transfers = getTrustLog(rumorID).received.filter(t => t.status === 'APPLIED');
+
+    const events = [
+        ...votes.map(vote => ({ kind: 'vote', timestamp: vote.timestamp, vote })),
+        ...boosts.map(boost => ({ kind: 'boost', timestamp: boost.timestamp, amount: boost.boost, boost })),
+        ...transfers.map(transfer => ({
+            kind: 'trust',
+            timestamp: Math.floor(new Date(transfer.createdAt).getTime() / 1000),
+            amount: transfer.amount,
+            transfer,
+        })),
+    ].sort((a, b) => a.timestamp - b.timestamp);
+
+    let confirmScore = 0;
+    let disputeScore = 0;
+    let confidence = initialConfidence;
+    const points = [];
+    const markers = [];
+
+    for (const event of events) {
+        if (event.kind === 'vote') {
+            const { vote } = event;
+            // Same integer division as the contract
+            const score = Math.trunc(vote.voterWeight / 100);
+            if (vote.voteType === 'CONFIRM') confirmScore += score;
+            else disputeScore += score;
+            confidence = clamp(initialConfidence + confirmScore - disputeScore);
+
+            points.push({
+                timestamp: new Date(vote.timestamp * 1000).toISOString(),
+                voteType: vote.voteType,
+                weight: vote.voterWeight,
+                score,
+                voterCredibility: vote.voterCredibility === null
+                    ? null
+                    : Math.floor(vote.voterCredibility / CREDIBILITY_BUCKET) * CREDIBILITY_BUCKET,
+                cumulativeConfirm: confirmScore,
+                cumulativeDispute: disputeScore,
+                confidence,
+            });
+        } else {
+            confidence = clamp(confidence + event.amount);
+            markers.push({
+                type: event.kind === 'boost' ? 'CORRELATION_BOOST' : 'TRUST_TRANSFER',
+                timestamp: new Date(event.timestamp * 1000).toISOString(),
+                amount: event.amount,
+                confidence,
+                ...(event.kind === 'boost'
+                    ? { credibleSupportCount: event.boost.credibleSupportCount }
+                    : { relationship: event.transfer.relationship }),
+            });
+        }
+    }
+
+    if (rumor.lockedAt) {
+        markers.push({
+            type: 'LOCK',
+            timestamp: rumor.lockedAt,
+            confidence: parseInt(rumor.lockedConfidence),
+        });
+    }
+
+    return {
+        rumorID: String(rumorID),
+        status: rumor.status,
+        createdAt: rumor.createdAt,
+        initialConfidence,
+        currentConfidence: parseInt(rumor.currentConfidence),
+        totalVotes: points.length,
+        points,
+        markers,
+    };
+}
+
+module.exports = {
+    buildVoteTimeline,
+};
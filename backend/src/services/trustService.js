@@ -0,0 +1,299 @@
+/**
+ * Trust Service
+ *
+ * When a rumor is deleted its tombstone keeps influencing the rumors it was
+ * correlated with: supportive rumors inherit a share of its final confidence,
+ * contradictory ones the opposite. Bonuses go through
+ * RumorRegistry.addTrustBonus with the owner key, after which the deleted
+ * rumor's correlations are deactivated.
+ *
+ * The contract has no setter for Tombstone.relatedRumorIDs or
+ * trustRedistributed, so the off-chain log kept here is the record of every
+ * redistribution and is what the rumor detail page shows.
+ */
+
+const path = require('path');
+
+// Share of the final confidence passed on, reached once the tombstone had this many votes
+const TRANSFER_SHARE = 0.25;
+const FULL_WEIGHT_VOTES = 10;
+const MAX_TRANSFER = 15;
+
+let db = null;
+const inFlight = new Set();
+
+function initTrustDB() {
+    if (db) return db;
+    try {
+        const Database = require('better-sqlite3');
+        const dbPath = path.join(__dirname, '../../data/tokens.db');
+        db = new Database(dbPath);
+
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS trust_redistributions (
+                source_rumor_id INTEGER PRIMARY KEY,
+                final_confidence INTEGER NOT NULL,
+                vote_count INTEGER NOT NULL,
+                related_count INTEGER NOT NULL,
+                status TEXT NOT NULL,
+                deactivation_tx_hash TEXT,
+                error TEXT,
+                created_at TEXT DEFAULT CURRENT_TIMESTAMP
+            );
+            CREATE TABLE IF NOT EXISTS trust_transfers (
+                source_rumor_id INTEGER NOT NULL,
+                target_rumor_id INTEGER NOT NULL,
+                relationship TEXT NOT NULL,
+                amount INTEGER NOT NULL,
+                status TEXT NOT NULL,
+                reason TEXT,
+                tx_hash TEXT,
+                error TEXT,
+                created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+                PRIMARY KEY (source_rumor_id, target_rumor_id)
+            );
+            CREATE INDEX IF NOT EXISTS idx_trust_transfers_target ON trust_transfers(target_rumor_id);
+        `);
+
+        console.log('✅ Trust log ready');
+        return db;
+    } catch (error) {
+        console.error('❌ Trust DB init failed:', error.message);
+        return null;
+    }
+}
+
+/**
+ * Confidence change a related rumor receives from a tombstone.
+ * Scaled down for thinly voted tombstones and inverted for contradictory links.
+ * @param {number} finalConfidence - Tombstone final confidence (-100..100)
+ * @param {number} voteCount - Votes the deleted rumor had received
+ * @param {'supportive'|'contradictory'} relationship - Link to the target
+ * @returns {number} Whole-point bonus (negative for a penalty)
+ */
+function computeTransfer(finalConfidence, voteCount, relationship) {
+    const weight = Math.min(voteCount / FULL_WEIGHT_VOTES, 1);
+    const sign = relationship === 'contradictory' ? -1 : 1;
+    const amount = Math.round(finalConfidence * TRANSFER_SHARE * weight) * sign;
+    return Math.max(-MAX_TRANSFER, Math.min(MAX_TRANSFER, amount)) || 0;
+}
+
+function recordTransfer(database, transfer) {
+    database.prepare(`
+        INSERT INTO trust_transfers
+            (source_rumor_id, target_rumor_id, relationship, amount, status, reason, tx_hash, error)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(source_rumor_id, target_rumor_id) DO UPDATE SET
+            relationship = excluded.relationship,
+            amount = excluded.amount,
+            status = excluded.status,
+            reason = excluded.reason,
+            tx_hash = excluded.tx_hash,
+            error = excluded.error,
+            created_at = CURRENT_TIMESTAMP
+    `).run(
+        transfer.source, transfer.target, transfer.relationship, transfer.amount,
+        transfer.status, transfer.reason || null, transfer.txHash || null, transfer.error || null
+    );
+}
+
+/**
+ * Redistribute a deleted rumor's trust to its correlated rumors.
+ * Runs once per rumor; a run that ended in FAILED is retried on the next call.
+ * @param {number|string} rumorID - Deleted rumor ID
+ * @returns {Promise<{transfers: object[], deactivationTxHash?: string}|null>} null when skipped
+ */
+async function processDeletedRumor(rumorID) {
+    const id = Number(rumorID);
+    const database = initTrustDB();
+    if (!database || inFlight.has(id)) return null;
+
+    const existing = database.prepare('SELECT status FROM trust_redistributions WHERE source_rumor_id = ?').get(id);
+    if (existing && existing.status !== 'FAILED') return null;
+
+    const { getTombstone, getRelatedRumors, getRumor, addTrustBonus, deactivateCorrelations } = require('./blockchainService');
+    const { handleRumorEvent } = require('./indexerService');
+    const stream = require('./streamService');
+
+    inFlight.add(id);
+    try {
+        const tombstone = await getTombstone(id);
+        if (!tombstone) return null;
+
+        const finalConfidence = Number(tombstone.finalConfidence);
+        const voteCount = Number(tombstone.voteCount);
+
+        // Must be read before deactivation: only active correlations are returned
+        const related = await getRelatedRumors(id);
+        const targets = [
+            ...related.supportive.map(target => ({ target: Number(target), relationship: 'supportive' })),
+            ...related.contradictory.map(target => ({ target: Number(target), relationship: 'contradictory' })),
+        ];
+
+        const ownerKey = process.env.OWNER_PRIVATE_KEY || process.env.MASTER_PRIVATE_KEY;
+        const transfers = [];
+        let failures = 0;
+
+        for (const { target, relationship } of targets) {
+            const amount = computeTransfer(finalConfidence, voteCount, relationship);
+            const transfer = { source: id, target, relationship, amount };
+
+            const alreadyApplied = database.prepare(`
+                SELECT 1 FROM trust_transfers WHERE source_rumor_id = ? AND target_rumor_id = ? AND status = 'APPLIED'
+            `).get(id, target);
+            if (alreadyApplied) continue;
+
+            const targetRumor = await getRumor(target);
+            if (amount === 0) {
+                Object.assign(transfer, { status: 'SKIPPED', reason: 'negligible' });
+            } else if (!targetRumor || targetRumor.status !== 'ACTIVE') {
+                Object.assign(transfer, { status: 'SKIPPED', reason: `target is ${targetRumor ? targetRumor.status : 'missing'}` });
+            } else {
+                try {
+                    transfer.txHash = await addTrustBonus(target, amount, ownerKey);
+                    transfer.status = 'APPLIED';
+
+                    // addTrustBonus emits no event, so re-index and notify subscribers here
+                    const updated = await handleRumorEvent(target);
+                    if (updated) {
+                        stream.publish('ConfidenceUpdated', {
+                            rumorID: updated.rumorID,
+                            rumor: updated,
+                            newConfidence: updated.currentConfidence,
+                        });
+                    }
+                } catch (error) {
+                    failures++;
+                    Object.assign(transfer, { status: 'FAILED', error: error.shortMessage || error.message });
+                }
+            }
+
+            recordTransfer(database, transfer);
+            transfers.push(transfer);
+        }
+
+        let deactivationTxHash = null;
+        let runError = null;
+        if (targets.length > 0 && failures === 0) {
+            try {
+                deactivationTxHash = await deactivateCorrelations(id, ownerKey);
+            } catch (error) {
+                runError = error.shortMessage || error.message;
+            }
+        }
+
+        const status = failures > 0 || runError ? 'FAILED' : 'COMPLETED';
+        database.prepare(`
+            INSERT INTO trust_redistributions
+                (source_rumor_id, final_confidence, vote_count, related_count, status, deactivation_tx_hash, error)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT(source_rumor_id) DO UPDATE SET
+                final_confidence = excluded.final_confidence,
+                vote_count = excluded.vote_count,
+                related_count = excluded.related_count,
+                status = excluded.status,
+                deactivation_tx_hash = excluded.deactivation_tx_hash,
+                error = excluded.error,
+                created_at = CURRENT_TIMESTAMP
+        `).run(id, finalConfidence, voteCount, targets.length, status, deactivationTxHash,
+            runError || (failures > 0 ? `${failures} transfer(s) failed` : null));
+
+        console.log(`⚖️  Rumor #${id}: trust redistributed to ${transfers.filter(t => t.status === 'APPLIED').length}/${targets.length} related rumor(s)`);
+        return { transfers, deactivationTxHash };
+    } finally {
+        inFlight.delete(id);
+    }
+}
+
+/**
+ * Redistribute trust for indexed DELETED rumors that have no completed run
+ * (deletions missed while the server was down, or earlier failures)
+ */
+async function redistributePending() {
+    const database = initTrustDB();
+    if (!database) return;
+
+    const pending = database.prepare(`
+        SELECT r.rumor_id FROM indexed_rumors r
+        LEFT JOIN trust_redistributions t ON t.source_rumor_id = r.rumor_id
+        WHERE r.status = 'DELETED' AND (t.source_rumor_id IS NULL OR t.status = 'FAILED')
+        ORDER BY r.rumor_id
+    `).all();
+
+    for (const { rumor_id } of pending) {
+        try {
+            await processDeletedRumor(rumor_id);
+        } catch (error) {
+            console.error(`Trust redistribution failed for rumor ${rumor_id}:`, error.message);
+        }
+    }
+}
+
+// SQLite CURRENT_TIMESTAMP is UTC without a zone marker
+function toISO(timestamp) {
+    return new Date(`${timestamp.replace(' ', 'T')}Z`).toISOString();
+}
+
+function rowToTransfer(row) {
+    return {
+        sourceRumorID: String(row.source_rumor_id),
+        targetRumorID: String(row.target_rumor_id),
+        relationship: row.relationship,
+        amount: row.amount,
+        status: row.status,
+        reason: row.reason,
+        txHash: row.tx_hash,
+        createdAt: toISO(row.created_at),
+    };
+}
+
+/**
+ * Whether a deleted rumor's trust has been passed on. Stands in for the
+ * tombstone's trustRedistributed flag, which the contract never sets.
+ * @param {number|string} rumorID - Deleted rumor ID
+ * @returns {boolean}
+ */
+function isTrustRedistributed(rumorID) {
+    const database = initTrustDB();
+    if (!database) return false;
+
+    const run = database.prepare('SELECT status FROM trust_redistributions WHERE source_rumor_id = ?').get(Number(rumorID));
+    return run?.status === 'COMPLETED';
+}
+
+/**
+ * Audit log for a rumor: what it passed on (if deleted) and what it received
+ * @param {number|string} rumorID - Rumor ID
+ * @returns {{redistribution: object|null, sent: object[], received: object[]}}
+ */
+function getTrustLog(rumorID) {
+    const database = initTrustDB();
+    if (!database) return { redistribution: null, sent: [], received: [] };
+
+    const id = Number(rumorID);
+    const run = database.prepare('SELECT * FROM trust_redistributions WHERE source_rumor_id = ?').get(id);
+
+    return {
+        redistribution: run ? {
+            finalConfidence: run.final_confidence,
+            voteCount: run.vote_count,
+            relatedCount: run.related_count,
+            status: run.status,
+            deactivationTxHash: run.deactivation_tx_hash,
+            createdAt: toISO(run.created_at),
+        } : null,
+        sent: database.prepare('SELECT * FROM trust_transfers WHERE source_rumor_id = ? ORDER BY created_at')
+            .all(id).map(rowToTransfer),
+        received: database.prepare('SELECT * FROM trust_transfers WHERE target_rumor_id = ? ORDER BY created_at DESC')
+            .all(id).map(rowToTransfer),
+    };
+}
+
+module.exports = {
+    initTrustDB,
+    computeTransfer,
+    processDeletedRumor,
+    redistributePending,
+    isTrustRedistributed,
+    getTrustLog,
+};
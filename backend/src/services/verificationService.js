@@ -0,0 +1,407 @@
+/**
+ * Verification Service
+ *
+ * Finalizes rumors once they lock. The outcome comes from the community:
+ * the rumor's lockedConfidence must cross a threshold and the votes behind
+ * it (VotingSystem.getVoteAnalytics) must meet a quorum. Decided rumors are
+ * sent to VerificationController.batchVerify with the owner key, which marks
+ * them VERIFIED / DEBUNKED and pays out rewards and penalties.
+ *
+ * Rumors that miss the quorum or land between the thresholds are recorded
+ * as INCONCLUSIVE and stay LOCKED on-chain. Every verdict is stored with
+ * the exact inputs and policy used, so anyone can recompute it with
+ * decideOutcome().
+ *
+ * Test rumors are left to testRumorService, which debunks them itself.
+ */
+
+const crypto = require('crypto');
+const path = require('path');
+
+const OUTCOMES = ['TRUE', 'FALSE', 'INCONCLUSIVE'];
+
+let db = null;
+let running = false;
+let rerun = false;
+
+function initVerificationDB() {
+    if (db) return db;
+    try {
+        const Database = require('better-sqlite3');
+        const dbPath = path.join(__dirname, '../../data/tokens.db');
+        db = new Database(dbPath);
+
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS rumor_verdicts (
+                rumor_id INTEGER PRIMARY KEY,
+                outcome TEXT NOT NULL,
+                reason TEXT NOT NULL,
+                inputs TEXT NOT NULL,
+                policy TEXT NOT NULL,
+                inputs_hash TEXT NOT NULL,
+                status TEXT NOT NULL,
+                tx_hash TEXT,
+                error TEXT,
+                decided_at TEXT DEFAULT CURRENT_TIMESTAMP
+            );
+        `);
+
+        console.log('✅ Verdict store ready');
+        return db;
+    } catch (error) {
+        console.error('❌ Verification DB init failed:', error.message);
+        return null;
+    }
+}
+
+function envNumber(name, fallback) {
+    const value = parseFloat(process.env[name]);
+    return Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * Current decision policy (VERIFY_* env vars)
+ * @returns {{trueThreshold: number, falseThreshold: number, minVotes: number, minShare: number}}
+ */
+function getVerificationPolicy() {
+    return {
+        // lockedConfidence at or above / at or below these decides the outcome
+        trueThreshold: envNumber('VERIFY_TRUE_THRESHOLD', 40),
+        falseThreshold: envNumber('VERIFY_FALSE_THRESHOLD', -40),
+        // Quorum: number of votes, and the winning side's share of the total vote weight
+        minVotes: envNumber('VERIFY_MIN_VOTES', 5),
+        minShare: envNumber('VERIFY_MIN_SHARE', 0.6),
+    };
+}
+
+/**
+ * Decide a locked rumor's outcome. Pure: the same inputs and policy always give the same verdict.
+ * @param {{lockedConfidence: number, totalVotes: number, weightedConfirm: number, weightedDispute: number}} inputs
+ * @param {object} policy - See getVerificationPolicy()
+ * @returns {{outcome: 'TRUE'|'FALSE'|'INCONCLUSIVE', reason: string}}
+ */
+function decideOutcome(inputs, policy) {
+    const { lockedConfidence, totalVotes, weightedConfirm, weightedDispute } = inputs;
+
+    if (totalVotes < policy.minVotes) {
+        return { outcome: 'INCONCLUSIVE', reason: `quorum not met: ${totalVotes} of ${policy.minVotes} votes` };
+    }
+
+    const totalWeight = weightedConfirm + weightedDispute;
+    const confirmShare = totalWeight > 0 ? weightedConfirm / totalWeight : 0;
+
+    if (lockedConfidence >= policy.trueThreshold) {
+        if (confirmShare < policy.minShare) {
+            return { outcome: 'INCONCLUSIVE', reason: `confirm weight ${Math.round(confirmShare * 100)}% is below ${Math.round(policy.minShare * 100)}%` };
+        }
+        return { outcome: 'TRUE', reason: `locked at ${lockedConfidence} (≥ ${policy.trueThreshold})` };
+    }
+
+    if (lockedConfidence <= policy.falseThreshold) {
+        const disputeShare = totalWeight > 0 ? 1 - confirmShare : 0;
+        if (disputeShare < policy.minShare) {
+            return { outcome: 'INCONCLUSIVE', reason: `dispute weight ${Math.round(disputeShare * 100)}% is below ${Math.round(policy.minShare * 100)}%` };
+        }
+        return { outcome: 'FALSE', reason: `locked at ${lockedConfidence} (≤ ${policy.falseThreshold})` };
+    }
+
+    return {
+        outcome: 'INCONCLUSIVE',
+        reason: `locked at ${lockedConfidence}, between ${policy.falseThreshold} and ${policy.trueThreshold}`,
+    };
+}
+
+/**
+ * SHA-256 over the canonical JSON of a verdict's inputs and policy
+ */
+function hashInputs(rumorID, inputs, policy) {
+    const canonical = JSON.stringify({
+        rumorID: Number(rumorID),
+        inputs: {
+            lockedConfidence: inputs.lockedConfidence,
+            totalVotes: inputs.totalVotes,
+            weightedConfirm: inputs.weightedConfirm,
+            weightedDispute: inputs.weightedDispute,
+        },
+        policy: {
+            trueThreshold: policy.trueThreshold,
+            falseThreshold: policy.falseThreshold,
+            minVotes: policy.minVotes,
+            minShare: policy.minShare,
+        },
+    });
+    return '0x' + crypto.createHash('sha256').update(canonical).digest('hex');
+}
+
+/**
+ * Read a locked rumor's decision inputs from chain
+ */
+async function readInputs(rumorID) {
+    const { initializeProvider, getRumor } = require('./blockchainService');
+    const { contracts } = initializeProvider();
+
+    const rumor = await getRumor(rumorID);
+    if (!rumor || rumor.status !== 'LOCKED') return null;
+
+    const [totalVotes, weightedConfirm, weightedDispute] = await contracts.votingSystem.getVoteAnalytics(rumorID);
+    return {
+        lockedConfidence: Number(rumor.lockedConfidence),
+        totalVotes: Number(totalVotes),
+        weightedConfirm: Number(weightedConfirm),
+        weightedDispute: Number(weightedDispute),
+    };
+}
+
+function saveVerdict(database, verdict) {
+    database.prepare(`
+        INSERT INTO rumor_verdicts (rumor_id, outcome, reason, inputs, policy, inputs_hash, status, tx_hash, error)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(rumor_id) DO UPDATE SET
+            outcome = excluded.outcome,
+            reason = excluded.reason,
+            inputs = excluded.inputs,
+            policy = excluded.policy,
+            inputs_hash = excluded.inputs_hash,
+            status = excluded.status,
+            tx_hash = excluded.tx_hash,
+            error = excluded.error,
+            decided_at = CURRENT_TIMESTAMP
+    `).run(
+        verdict.rumorID, verdict.outcome, verdict.reason, JSON.stringify(verdict.inputs),
+        JSON.stringify(verdict.policy), verdict.inputsHash, verdict.status,
+        verdict.txHash || null, verdict.error || null
+    );
+}
+
+/**
+ * Decide and submit every LOCKED rumor without a verdict (or whose submission failed).
+ * Calls made while a pass is running trigger one more pass afterwards.
+ * @returns {Promise<object[]>} Verdicts recorded in this pass
+ */
+async function finalizePending() {
+    const database = initVerificationDB();
+    if (!database) return [];
+    if (running) {
+        rerun = true;
+        return [];
+    }
+
+    const { initializeProvider } = require('./blockchainService');
+    const { isTestRumor } = require('./testRumorService');
+    const { contracts, provider } = initializeProvider();
+    if (!contracts.verificationController || !contracts.votingSystem) return [];
+
+    running = true;
+    const verdicts = [];
+    try {
+        const pending = database.prepare(`
+            SELECT r.rumor_id FROM indexed_rumors r
+            LEFT JOIN rumor_verdicts v ON v.rumor_id = r.rumor_id
+            WHERE r.status = 'LOCKED' AND (v.rumor_id IS NULL OR v.status = 'FAILED')
+            ORDER BY r.rumor_id
+        `).all().map(row => row.rumor_id).filter(id => !isTestRumor(id));
+
+        const policy = getVerificationPolicy();
+        for (const rumorID of pending) {
+            const [isVerified] = await contracts.verificationController.getVerificationStatus(rumorID);
+            if (isVerified) continue;
+
+            const inputs = await readInputs(rumorID);
+            if (!inputs) continue;
+
+            const { outcome, reason } = decideOutcome(inputs, policy);
+            verdicts.push({
+                rumorID, outcome, reason, inputs, policy,
+                inputsHash: hashInputs(rumorID, inputs, policy),
+                status: outcome === 'INCONCLUSIVE' ? 'INCONCLUSIVE' : 'PENDING',
+            });
+        }
+
+        const decided = verdicts.filter(v => v.status === 'PENDING');
+        if (decided.length > 0) {
+            try {
+                const { ethers } = require('ethers');
+                const ownerKey = process.env.OWNER_PRIVATE_KEY || process.env.MASTER_PRIVATE_KEY;
+                const controller = ownerKey
+                    ? contracts.verificationController.connect(new ethers.Wallet(ownerKey, provider))
+                    : contracts.verificationController;
+
+                const tx = await controller.batchVerify(
+                    decided.map(v => v.rumorID),
+                    decided.map(v => v.outcome === 'TRUE')
+                );
+                const receipt = await tx.wait();
+                decided.forEach(v => Object.assign(v, { status: 'SUBMITTED', txHash: receipt.hash }));
+                console.log(`⚖️  Finalized ${decided.length} rumor(s) by community verdict`);
+            } catch (error) {
+                decided.forEach(v => Object.assign(v, { status: 'FAILED', error: error.shortMessage || error.message }));
+                console.error('❌ batchVerify failed:', error.shortMessage || error.message);
+            }
+        }
+
+        database.transaction(() => verdicts.forEach(v => saveVerdict(database, v)))();
+        const inconclusive = verdicts.length - decided.length;
+        if (inconclusive > 0) console.log(`❔ ${inconclusive} locked rumor(s) inconclusive`);
+    } finally {
+        running = false;
+    }
+
+    if (rerun) {
+        rerun = false;
+        return verdicts.concat(await finalizePending());
+    }
+    return verdicts;
+}
+
+let payoutConstants = null;
+
+/**
+ * VerificationController reward/penalty constants (read once)
+ */
+async function getPayoutConstants(controller) {
+    if (payoutConstants) return payoutConstants;
+    const names = [
+        'AUTHOR_REWARD_TRUE', 'AUTHOR_PENALTY_FALSE', 'VOTER_REWARD_CORRECT',
+        'VOTER_PENALTY_WRONG_CONFIRM', 'VOTER_REWARD_CORRECT_DISPUTE', 'VOTER_PENALTY_WRONG_DISPUTE',
+    ];
+    const values = await Promise.all(names.map(name => controller[name]()));
+    payoutConstants = Object.fromEntries(names.map((name, i) => [name, Number(values[i])]));
+    return payoutConstants;
+}
+
+/**
+ * Projected credibility changes for each cohort if a rumor were verified true or false.
+ * Totals come from VerificationController.previewVerification; per-cohort amounts
+ * mirror its payout rules.
+ * @param {number|string} rumorID - Rumor ID
+ * @param {string} [walletAddress] - Viewer, to include their own stake
+ * @returns {Promise<object|null>} null if the rumor does not exist
+ */
+async function previewOutcomes(rumorID, walletAddress) {
+    const { initializeProvider, getRumor, getStudent } = require('./blockchainService');
+    const { getRumorVotes } = require('./indexerService');
+    const { contracts } = initializeProvider();
+    if (!contracts.verificationController) {
+        throw new Error('VerificationController contract not configured');
+    }
+
+    const rumor = await getRumor(Number(rumorID));
+    if (!rumor) return null;
+
+    const controller = contracts.verificationController;
+    const [c, previewTrue, previewFalse, [isVerified, result]] = await Promise.all([
+        getPayoutConstants(controller),
+        controller.previewVerification(rumorID, true),
+        controller.previewVerification(rumorID, false),
+        controller.getVerificationStatus(rumorID),
+    ]);
+
+    const votes = getRumorVotes(rumorID);
+    const confirmCount = votes.filter(v => v.voteType === 'CONFIRM').length;
+    const disputeCount = votes.length - confirmCount;
+
+    const outcomes = {
+        true: {
+            totalRewards: Number(previewTrue.totalRewards),
+            totalPenalties: Number(previewTrue.totalPenalties),
+            cohorts: {
+                author: { count: 1, change: c.AUTHOR_REWARD_TRUE },
+                confirm: { count: confirmCount, change: c.VOTER_REWARD_CORRECT },
+                dispute: { count: disputeCount, change: -c.VOTER_PENALTY_WRONG_DISPUTE },
+            },
+        },
+        false: {
+            totalRewards: Number(previewFalse.totalRewards),
+            totalPenalties: Number(previewFalse.totalPenalties),
+            cohorts: {
+                author: { count: 1, change: -c.AUTHOR_PENALTY_FALSE },
+                confirm: { count: confirmCount, change: -c.VOTER_PENALTY_WRONG_CONFIRM },
+                dispute: { count: disputeCount, change: c.VOTER_REWARD_CORRECT_DISPUTE },
+            },
+        },
+    };
+
+    let you = null;
+    if (walletAddress) {
+        const isAuthor = rumor.authorWallet.toLowerCase() === walletAddress.toLowerCase();
+        const student = await getStudent(walletAddress);
+        const vote = student ? votes.find(v => v.voterID === student.studentID) : null;
+        const stake = (outcome) => {
+            const { cohorts } = outcomes[outcome];
+            return (isAuthor ? cohorts.author.change : 0) +
+                (vote ? cohorts[vote.voteType === 'CONFIRM' ? 'confirm' : 'dispute'].change : 0);
+        };
+        you = {
+            isAuthor,
+            vote: vote ? vote.voteType : null,
+            ifTrue: stake('true'),
+            ifFalse: stake('false'),
+        };
+    }
+
+    return {
+        rumorID: rumor.rumorID,
+        status: rumor.status,
+        verified: isVerified ? { isTrue: result } : null,
+        outcomes,
+        you,
+    };
+}
+
+function rowToVerdict(row) {
+    return {
+        rumorID: String(row.rumor_id),
+        outcome: row.outcome,
+        reason: row.reason,
+        inputs: JSON.parse(row.inputs),
+        policy: JSON.parse(row.policy),
+        inputsHash: row.inputs_hash,
+        status: row.status,
+        txHash: row.tx_hash,
+        error: row.error,
+        decidedAt: row.decided_at,
+    };
+}
+
+/**
+ * Recorded verdict for a rumor
+ * @param {number|string} rumorID - Rumor ID
+ * @returns {object|null}
+ */
+function getVerdict(rumorID) {
+    const database = initVerificationDB();
+    if (!database) return null;
+    const row = database.prepare('SELECT * FROM rumor_verdicts WHERE rumor_id = ?').get(Number(rumorID));
+    return row ? rowToVerdict(row) : null;
+}
+
+/**
+ * Recorded verdicts, newest first
+ * @param {{outcome?: string, limit?: number, offset?: number}} options
+ * @returns {{verdicts: object[], total: number}}
+ */
+function listVerdicts({ outcome, limit = 20, offset = 0 } = {}) {
+    const database = initVerificationDB();
+    if (!database) return { verdicts: [], total: 0 };
+
+    const where = outcome ? 'WHERE outcome = ?' : '';
+    const params = outcome ? [outcome] : [];
+    const rows = database.prepare(`
+        SELECT * FROM rumor_verdicts ${where} ORDER BY decided_at DESC, rumor_id DESC LIMIT ? OFFSET ?
+    `).all(...params, limit, offset);
+    const { count } = database.prepare(`SELECT COUNT(*) as count FROM rumor_verdicts ${where}`).get(...params);
+
+    return { verdicts: rows.map(rowToVerdict), total: count };
+}
+
+module.exports = {
+    OUTCOMES,
+    initVerificationDB,
+    getVerificationPolicy,
+    decideOutcome,
+    hashInputs,
+    finalizePending,
+    previewOutcomes,
+    getVerdict,
+    listVerdicts,
+};
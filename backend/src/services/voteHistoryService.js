@@ -0,0 +1,67 @@
+/**
+ * Vote History Service
+ *
+ * A voter's own votes (VotingSystem.getVotesByVoter), newest first, joined
+ * with the rumor title from the index, the transaction from `indexed_votes`
+ * and the outcome once the rumor has been verified or debunked.
+ */
+
+const { getVotes, getVotesByVoter, getRumor } = require('./blockchainService');
+const { getIndexedRumor, getIndexedVote } = require('./indexerService');
+
+/**
+ * Whether a vote landed on the side the rumor resolved to
+ * @param {'CONFIRM'|'DISPUTE'} voteType
+ * @param {string} rumorStatus - RumorRegistry status name
+ * @returns {'correct'|'incorrect'|'pending'|'void'} `void` for deleted rumors, which are never resolved
+ */
+function voteOutcome(voteType, rumorStatus) {
+    if (rumorStatus === 'VERIFIED') return voteType === 'CONFIRM' ? 'correct' : 'incorrect';
+    if (rumorStatus === 'DEBUNKED') return voteType === 'DISPUTE' ? 'correct' : 'incorrect';
+    if (rumorStatus === 'DELETED') return 'void';
+    return 'pending';
+}
+
+/**
+ * One page of a voter's history
+ * @param {string} walletAddress - Voter wallet
+ * @param {{limit?: number, offset?: number}} [options]
+ * @returns {Promise<{votes: object[], total: number}>}
+ */
+async function getVoterHistory(walletAddress, { limit = 20, offset = 0 } = {}) {
+    const voteIDs = (await getVotesByVoter(walletAddress)).reverse();
+    const page = await getVotes(voteIDs.slice(offset, offset + limit));
+
+    const rumors = new Map();
+    for (const rumorID of new Set(page.map(vote => vote.rumorID))) {
+        // The index has titles; fall back to the chain for rumors not indexed yet
+        rumors.set(rumorID, getIndexedRumor(rumorID) || await getRumor(Number(rumorID)));
+    }
+
+    const votes = page.map(vote => {
+        const rumor = rumors.get(vote.rumorID);
+        const tx = getIndexedVote(vote.voteID);
+        const status = rumor?.status || null;
+
+        return {
+            voteID: vote.voteID,
+            rumorID: vote.rumorID,
+            // Deleted rumors drop their text from the index
+            title: status === 'DELETED' ? null : rumor?.content?.title || null,
+            rumorStatus: status,
+            voteType: vote.voteType,
+            weight: vote.voterWeight,
+            timestamp: new Date(vote.timestamp * 1000).toISOString(),
+            txHash: tx?.txHash || null,
+            blockNumber: tx?.blockNumber ?? null,
+            outcome: voteOutcome(vote.voteType, status),
+        };
+    });
+
+    return { votes, total: voteIDs.length };
+}
+
+module.exports = {
+    voteOutcome,
+    getVoterHistory,
+};
@@ -0,0 +1,56 @@
+jest.mock('@google/generative-ai', () => {
+    const embedContent = jest.fn();
+    return {
+        embedContent,
+        GoogleGenerativeAI: jest.fn(() => ({ getGenerativeModel: () => ({ embedContent }) })),
+    };
+});
+
+const { embedContent } = require('@google/generative-ai');
+const { createLocalProvider, createGeminiProvider } = require('../src/services/embeddingProviders');
+
+describe('local embedding provider', () => {
+    const provider = createLocalProvider();
+
+    test('returns the same vector for the same text', async () => {
+        const text = 'Library closes early on Friday for maintenance';
+        expect(await provider.embed(text)).toEqual(await provider.embed(text));
+    });
+
+    test('returns fixed-length, unit-norm vectors', async () => {
+        for (const text of ['', 'exam', 'The cafeteria is serving free pizza during finals week']) {
+            const vector = await provider.embed(text);
+            expect(vector).toHaveLength(provider.dimensions);
+            expect(provider.dimensions).toBe(512);
+            if (text) {
+                const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+                expect(norm).toBeCloseTo(1, 6);
+            }
+        }
+    });
+
+    test('scores paraphrases above unrelated text', async () => {
+        const cosine = (a, b) => a.reduce((sum, v, i) => sum + v * b[i], 0);
+        const a = await provider.embed('Library closes early on Friday');
+        const b = await provider.embed('The library will close early this Friday');
+        const c = await provider.embed('Free pizza at the student union');
+        expect(cosine(a, b)).toBeGreaterThan(cosine(a, c));
+    });
+});
+
+describe('gemini embedding provider', () => {
+    beforeEach(() => embedContent.mockReset());
+
+    test('asks for its declared dimensionality', async () => {
+        embedContent.mockResolvedValue({ embedding: { values: new Array(768).fill(0.1) } });
+        const provider = createGeminiProvider('key');
+
+        await expect(provider.embed('hello')).resolves.toHaveLength(768);
+        expect(embedContent).toHaveBeenCalledWith(expect.objectContaining({ outputDimensionality: 768 }));
+    });
+
+    test('rejects vectors of another size', async () => {
+        embedContent.mockResolvedValue({ embedding: { values: new Array(3072).fill(0.1) } });
+        await expect(createGeminiProvider('key').embed('hello')).rejects.toThrow('Expected 768-dim embedding, got 3072');
+    });
+});
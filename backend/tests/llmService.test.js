@@ -0,0 +1,78 @@
+jest.mock('../src/services/llmProviders', () => {
+    const provider = { name: 'fake', model: 'test', complete: null };
+    return { provider, getLLMProvider: () => provider };
+});
+
+const { provider } = require('../src/services/llmProviders');
+const { generateJSON, validateSchema, parseJSON, clearCache } = require('../src/services/llmService');
+const { analyzeCorrelation, findCorrelations } = require('../src/services/geminiService');
+
+const SCHEMA = {
+    type: 'object',
+    required: ['keywords'],
+    properties: { keywords: { type: 'array', items: { type: 'string' }, maxItems: 3 } },
+};
+
+beforeEach(() => {
+    provider.complete = null;
+    clearCache();
+});
+
+describe('parseJSON', () => {
+    test('accepts fenced and prose-wrapped replies', () => {
+        expect(parseJSON('```json\n{"a":1}\n```')).toEqual({ a: 1 });
+        expect(parseJSON('Sure! {"a":[1,2]} Hope that helps')).toEqual({ a: [1, 2] });
+        expect(() => parseJSON('no json here')).toThrow('Response is not JSON');
+    });
+});
+
+describe('validateSchema', () => {
+    test('reports the first violation', () => {
+        expect(validateSchema({ keywords: ['a'] }, SCHEMA)).toBeNull();
+        expect(validateSchema({}, SCHEMA)).toBe('$.keywords is required');
+        expect(validateSchema({ keywords: ['a', 1] }, SCHEMA)).toBe('$.keywords[1] should be string, got number');
+        expect(validateSchema({ keywords: ['a', 'b', 'c', 'd'] }, SCHEMA)).toBe('$.keywords has too many items');
+    });
+});
+
+describe('generateJSON', () => {
+    test('answers with the fallback when the provider is the stub', async () => {
+        const result = await generateJSON({ task: 't', prompt: 'p', schema: SCHEMA, fallback: () => ({ keywords: ['x'] }) });
+        expect(result).toEqual({ data: { keywords: ['x'] }, provider: 'stub', cached: false });
+    });
+
+    test('retries invalid replies and caches the valid one', async () => {
+        provider.complete = jest.fn()
+            .mockResolvedValueOnce('not json')
+            .mockResolvedValueOnce('{"keywords":["exam"]}');
+        const options = { task: 't', prompt: 'p', schema: SCHEMA, fallback: () => ({ keywords: [] }) };
+
+        expect(await generateJSON(options)).toEqual({ data: { keywords: ['exam'] }, provider: 'fake', cached: false });
+        expect(await generateJSON(options)).toEqual({ data: { keywords: ['exam'] }, provider: 'fake', cached: true });
+        expect(provider.complete).toHaveBeenCalledTimes(2);
+    });
+});
+
+describe('offline correlation', () => {
+    const a = 'The library is closing early on Friday for maintenance';
+    const b = 'The library is closing early on Friday for maintenance work';
+
+    test('rates overlap but never claims the same event', async () => {
+        const { result } = await analyzeCorrelation(a, b);
+        expect(result.relationship).toBe('supportive');
+        expect(result.confidence).toBeGreaterThan(0.75);
+        expect(result.sameEvent).toBe(false);
+    });
+
+    test('reads opposite negation as contradictory', async () => {
+        const { result } = await analyzeCorrelation(a, 'The library is not closing early on Friday for maintenance');
+        expect(result.relationship).toBe('contradictory');
+        expect(result.sameEvent).toBe(false);
+    });
+
+    test('yields no correlations to submit on-chain', async () => {
+        const embedding = [1, 0, 0];
+        const correlations = await findCorrelations(1, a, embedding, [{ id: 2, text: b, embedding }]);
+        expect(correlations).toEqual([]);
+    });
+});
@@ -0,0 +1,137 @@
+const { detectMimeType, stripMetadata } = require('../src/services/metadataService');
+const { isValidThumbnail } = require('../src/services/evidenceService');
+
+const SECRET = 'GPS-SECRET-51.5007N';
+
+// JPEG with an EXIF APP1 segment holding a GPS IFD pointer and the secret
+function jpegWithGps() {
+    const tiff = Buffer.concat([
+        Buffer.from('MM\0*\0\0\0\x08', 'latin1'),
+        Buffer.from([0x00, 0x01, 0x88, 0x25, 0x00, 0x04, 0x00, 0x00, 0x00, 0x01, 0x00, 0x00, 0x00, 0x1A, 0, 0, 0, 0]),
+        Buffer.from(SECRET, 'latin1'),
+    ]);
+    const payload = Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), tiff]);
+    const app1 = Buffer.alloc(4);
+    app1.writeUInt16BE(0xFFE1, 0);
+    app1.writeUInt16BE(payload.length + 2, 2);
+    return Buffer.concat([
+        Buffer.from([0xFF, 0xD8]),
+        app1, payload,
+        Buffer.from([0xFF, 0xDA, 0x00, 0x02, 0x12, 0x34, 0xFF, 0xD9]),
+    ]);
+}
+
+function pngChunk(type, data) {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    return Buffer.concat([length, Buffer.from(type, 'latin1'), data, Buffer.alloc(4)]);
+}
+
+// PNG with a tEXt chunk holding the secret
+function pngWithText() {
+    return Buffer.concat([
+        Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]),
+        pngChunk('IHDR', Buffer.alloc(13)),
+        pngChunk('tEXt', Buffer.from(`Location\0${SECRET}`, 'latin1')),
+        pngChunk('IDAT', Buffer.alloc(4)),
+        pngChunk('IEND', Buffer.alloc(0)),
+    ]);
+}
+
+function mp4Box(type, ...parts) {
+    const body = Buffer.concat(parts);
+    const header = Buffer.alloc(8);
+    header.writeUInt32BE(8 + body.length);
+    header.write(type, 4, 'latin1');
+    return Buffer.concat([header, body]);
+}
+
+// MP4 with a ©xyz location atom and a dated movie header
+function mp4WithLocation() {
+    const mvhd = Buffer.alloc(100);
+    mvhd.writeUInt32BE(0xDEADBEEF, 4);
+    mvhd.writeUInt32BE(0xDEADBEEF, 8);
+    const xyz = Buffer.from(`\xA9xyz${SECRET}`, 'latin1');
+    return Buffer.concat([
+        mp4Box('ftyp', Buffer.from('isom0000', 'latin1')),
+        mp4Box('moov', mp4Box('mvhd', mvhd), mp4Box('udta', mp4Box('\xA9xyz', xyz))),
+        mp4Box('mdat', Buffer.from('DATA', 'latin1')),
+    ]);
+}
+
+const containsSecret = (buffer) => buffer.includes(Buffer.from(SECRET, 'latin1'));
+
+describe('detectMimeType', () => {
+    it('recognises each accepted format by its signature', () => {
+        expect(detectMimeType(jpegWithGps())).toBe('image/jpeg');
+        expect(detectMimeType(pngWithText())).toBe('image/png');
+        expect(detectMimeType(Buffer.from('RIFF\0\0\0\0WEBPVP8 ', 'latin1'))).toBe('image/webp');
+        expect(detectMimeType(Buffer.from('GIF89a\0\0', 'latin1'))).toBe('image/gif');
+        expect(detectMimeType(Buffer.from('%PDF-1.7\n', 'latin1'))).toBe('application/pdf');
+        expect(detectMimeType(mp4WithLocation())).toBe('video/mp4');
+    });
+
+    it('returns null for anything else', () => {
+        expect(detectMimeType(Buffer.from('hello world', 'latin1'))).toBeNull();
+        expect(detectMimeType(Buffer.alloc(0))).toBeNull();
+    });
+});
+
+describe('stripMetadata', () => {
+    it('removes EXIF GPS from a JPEG', async () => {
+        const result = await stripMetadata(jpegWithGps(), 'image/jpeg');
+
+        expect(result.supported).toBe(true);
+        expect(result.mimeType).toBe('image/jpeg');
+        expect(result.removed).toContain('GPS location');
+        expect(containsSecret(result.buffer)).toBe(false);
+    });
+
+    it.each(['image/png', 'image/webp', 'image/gif', 'application/pdf'])(
+        'cleans a JPEG declared as %s as a JPEG',
+        async (declared) => {
+            const result = await stripMetadata(jpegWithGps(), declared);
+
+            expect(result.supported).toBe(true);
+            expect(result.mimeType).toBe('image/jpeg');
+            expect(result.removed).toContain('GPS location');
+            expect(containsSecret(result.buffer)).toBe(false);
+        }
+    );
+
+    it('cleans a PNG declared as image/jpeg as a PNG', async () => {
+        const result = await stripMetadata(pngWithText(), 'image/jpeg');
+
+        expect(result.supported).toBe(true);
+        expect(result.mimeType).toBe('image/png');
+        expect(result.removed).toContain('text metadata');
+        expect(containsSecret(result.buffer)).toBe(false);
+    });
+
+    it('zeroes MP4 location atoms and header timestamps in place', async () => {
+        const input = mp4WithLocation();
+        const result = await stripMetadata(input, 'video/mp4');
+
+        expect(result.supported).toBe(true);
+        expect(result.removed).toEqual(expect.arrayContaining(['GPS location', 'timestamps']));
+        expect(result.buffer.length).toBe(input.length);
+        expect(containsSecret(result.buffer)).toBe(false);
+        expect(result.buffer.includes(Buffer.from([0xDE, 0xAD, 0xBE, 0xEF]))).toBe(false);
+    });
+
+    it('refuses files it does not recognise, whatever they are declared as', async () => {
+        const input = Buffer.from(`not an image ${SECRET}`, 'latin1');
+        const result = await stripMetadata(input, 'image/jpeg');
+
+        expect(result.supported).toBe(false);
+        expect(result.mimeType).toBeNull();
+    });
+});
+
+describe('isValidThumbnail', () => {
+    it('goes by the signature, not the declared type', () => {
+        expect(isValidThumbnail({ mimetype: 'image/png', buffer: jpegWithGps() })).toBe(true);
+        expect(isValidThumbnail({ mimetype: 'image/png', buffer: Buffer.from('GIF89a\0\0', 'latin1') })).toBe(false);
+        expect(isValidThumbnail({ mimetype: 'image/jpeg', buffer: Buffer.from('plain text', 'latin1') })).toBe(false);
+    });
+});
@@ -0,0 +1,12 @@
+const nextJest = require('next/jest');
+
+// Compiles TypeScript with Next's SWC setup and resolves the `@/` alias
+const createJestConfig = nextJest({ dir: './' });
+
+module.exports = createJestConfig({
+    testEnvironment: 'node',
+    testMatch: ['<rootDir>/tests/**/*.test.ts'],
+    moduleNameMapper: {
+        '^@/(.*)$': '<rootDir>/src/$1',
+    },
+});
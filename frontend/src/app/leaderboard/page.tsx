@@ -0,0 +1,186 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/components/AuthProvider';
+import {
+    getLeaderboard,
+    getLeaderboardListing,
+    setLeaderboardOptOut,
+    LeaderboardBoard,
+    LeaderboardEntry,
+} from '@/lib/api';
+import { UserStatus } from '@/lib/decoders';
+import toast from 'react-hot-toast';
+
+const BOARDS: { value: LeaderboardBoard; label: string; description: (minResolved: number) => string }[] = [
+    {
+        value: 'accuracy',
+        label: '🎯 Top Accuracy',
+        description: (minResolved) => `Share of votes on the winning side, with at least ${minResolved} resolved predictions`,
+    },
+    {
+        value: 'credibility',
+        label: '⭐ Top Credibility',
+        description: () => 'Current CRED balance',
+    },
+    {
+        value: 'improved',
+        label: '📈 Most Improved',
+        description: () => 'Net credibility gained over the last 7 days',
+    },
+];
+
+const STATUS_BADGES: Partial<Record<UserStatus, { className: string; label: string }>> = {
+    NEW_USER: { className: 'badge-new', label: 'New' },
+    CREDIBLE_USER: { className: 'badge-credible', label: 'Credible' },
+    DISCREDITED: { className: 'badge-discredited', label: 'Discredited' },
+};
+
+export default function LeaderboardPage() {
+    const { token, isLoggedIn } = useAuth();
+
+    const [board, setBoard] = useState<LeaderboardBoard>('accuracy');
+    const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+    const [minResolved, setMinResolved] = useState(5);
+    const [loading, setLoading] = useState(true);
+    const [listing, setListing] = useState<{ studentID: string; optedOut: boolean } | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        setLoading(true);
+        getLeaderboard(board)
+            .then((data) => {
+                if (cancelled) return;
+                setEntries(data.entries);
+                setMinResolved(data.minResolved);
+            })
+            .catch(() => { if (!cancelled) setEntries([]); })
+            .finally(() => { if (!cancelled) setLoading(false); });
+        return () => { cancelled = true; };
+    }, [board]);
+
+    useEffect(() => {
+        if (!isLoggedIn || !token) {
+            setListing(null);
+            return;
+        }
+        getLeaderboardListing(token).then(setListing).catch(() => setListing(null));
+    }, [isLoggedIn, token]);
+
+    const toggleOptOut = async () => {
+        if (!token || !listing) return;
+        setSaving(true);
+        try {
+            const updated = await setLeaderboardOptOut(token, !listing.optedOut);
+            setListing(updated);
+            toast.success(updated.optedOut ? 'You are hidden from the leaderboard' : 'You are listed on the leaderboard');
+            const data = await getLeaderboard(board);
+            setEntries(data.entries);
+        } catch (error: any) {
+            toast.error(error.message || 'Failed to update your listing');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const active = BOARDS.find((b) => b.value === board)!;
+
+    return (
+        <div className="container mx-auto px-4 py-12 max-w-4xl">
+            <div className="mb-8">
+                <h1 className="text-3xl font-bold mb-2">🏆 Leaderboard</h1>
+                <p className="text-gray-400">
+                    The campus&apos;s most reliable voters, listed by anonymous student number only.
+                </p>
+            </div>
+
+            {listing && (
+                <div className="glass rounded-lg p-4 mb-6 flex flex-wrap items-center justify-between gap-3 text-sm">
+                    <span>
+                        You are Student #{listing.studentID}
+                        {listing.optedOut ? ' and hidden from the leaderboard.' : ' and can be listed on the leaderboard.'}
+                    </span>
+                    <button
+                        onClick={toggleOptOut}
+                        disabled={saving}
+                        className="px-4 py-2 rounded-lg glass text-gray-300 hover:bg-white/10 disabled:opacity-50"
+                    >
+                        {listing.optedOut ? 'Show me' : 'Hide me'}
+                    </button>
+                </div>
+            )}
+
+            <div className="flex flex-wrap gap-2 mb-4">
+                {BOARDS.map(({ value, label }) => (
+                    <button
+                        key={value}
+                        onClick={() => setBoard(value)}
+                        className={`px-4 py-2 rounded-lg transition-all ${board === value ? 'bg-primary-600 text-white' : 'glass text-gray-300'
+                            }`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+
+            <div className="card">
+                <p className="text-sm text-gray-400 mb-4">{active.description(minResolved)}</p>
+
+                {loading ? (
+                    <div className="space-y-2 animate-pulse">
+                        {[0, 1, 2, 3, 4].map((i) => <div key={i} className="h-12 bg-gray-700 rounded-lg"></div>)}
+                    </div>
+                ) : entries.length === 0 ? (
+                    <p className="text-gray-400 text-center py-8">Nobody qualifies for this board yet</p>
+                ) : (
+                    <div className="space-y-2">
+                        {entries.map((entry) => {
+                            const badge = STATUS_BADGES[entry.status];
+                            const isYou = listing?.studentID === entry.studentID;
+                            return (
+                                <div
+                                    key={entry.studentID}
+                                    className={`glass rounded-lg p-3 flex items-center gap-4 ${isYou ? 'ring-1 ring-primary-500' : ''}`}
+                                >
+                                    <div className="w-8 text-center font-bold text-gray-400">
+                                        {entry.rank <= 3 ? ['🥇', '🥈', '🥉'][entry.rank - 1] : entry.rank}
+                                    </div>
+                                    <div className="flex-1 min-w-0 flex items-center gap-2">
+                                        <span className="font-medium">Student #{entry.studentID}</span>
+                                        {badge && <span className={`badge ${badge.className}`}>{badge.label}</span>}
+                                        {isYou && <span className="text-xs text-primary-400">you</span>}
+                                    </div>
+                                    <div className="text-right text-sm">
+                                        {board === 'accuracy' && (
+                                            <>
+                                                <div className="font-semibold text-green-400">{entry.accuracy}%</div>
+                                                <div className="text-xs text-gray-500">
+                                                    {entry.accuratePredictions}/{entry.accuratePredictions + entry.inaccuratePredictions} correct
+                                                </div>
+                                            </>
+                                        )}
+                                        {board === 'credibility' && (
+                                            <>
+                                                <div className="font-semibold">{entry.credibilityScore} CRED</div>
+                                                {entry.accuracy !== null && (
+                                                    <div className="text-xs text-gray-500">{entry.accuracy}% accurate</div>
+                                                )}
+                                            </>
+                                        )}
+                                        {board === 'improved' && (
+                                            <>
+                                                <div className="font-semibold text-green-400">+{entry.weeklyChange} CRED</div>
+                                                <div className="text-xs text-gray-500">now {entry.credibilityScore}</div>
+                                            </>
+                                        )}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -1,33 +1,88 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, Suspense } from 'react';
 import Link from 'next/link';
+import { useSearchParams, useRouter } from 'next/navigation';
 import RumorCard from '@/components/RumorCard';
 import { useAuth } from '@/components/AuthProvider';
 import { getRumors } from '@/lib/api';
+import { useRumorStream } from '@/hooks/useRumorStream';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Map a backend rumor (list item or stream snapshot) to RumorCard props
+function toCardRumor(r: any) {
+    return {
+        id: Number(r.rumorID),
+        title: r.content?.title || `Rumor #${r.rumorID}`,
+        description: r.content?.description || 'Content loading...',
+        author: 'Anonymous student',
+        status: r.status,
+        confidence: Number(r.currentConfidence),
+        confirmVotes: Number(r.totalConfirmVotes) || 0,
+        disputeVotes: Number(r.totalDisputeVotes) || 0,
+        hasEvidence: r.hasEvidence,
+        createdAt: r.createdAt,
+        keywords: r.keywords || [],
+    };
+}
 
 export default function Home() {
+    // useSearchParams needs a Suspense boundary in the app router
+    return (
+        <Suspense>
+            <HomeFeed />
+        </Suspense>
+    );
+}
+
+function HomeFeed() {
     const { isLoggedIn, user } = useAuth();
+    const router = useRouter();
+    const searchParams = useSearchParams();
 
     const [rumors, setRumors] = useState<any[]>([]);
     const [loading, setLoading] = useState(true);
     const [filter, setFilter] = useState('all');
     const [stats, setStats] = useState({ total: 0, active: 0, votes: 0 });
     const [userRegistered, setUserRegistered] = useState(false);
+    const [search, setSearch] = useState(searchParams.get('q') || '');
+    const [debouncedSearch, setDebouncedSearch] = useState(search.trim());
 
     useEffect(() => {
-        loadRumors();
         if (isLoggedIn && user?.walletAddress) {
             setUserRegistered(true); // If they have a wallet, they're registered
         }
     }, [isLoggedIn, user]);
 
+    // Keyword chips navigate to /?q=#keyword
+    useEffect(() => {
+        setSearch(searchParams.get('q') || '');
+    }, [searchParams]);
+
+    useEffect(() => {
+        const timer = setTimeout(() => setDebouncedSearch(search.trim()), SEARCH_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [search]);
+
+    useEffect(() => {
+        loadRumors();
+    }, [filter, debouncedSearch]);
+
     const loadRumors = async () => {
         setLoading(true);
         try {
-            const data = await getRumors({ limit: 20 });
+            const status = filter === 'all' ? undefined : filter.toUpperCase();
+            const data = await getRumors({ limit: 20, status, search: debouncedSearch || undefined });
+
+            // Per-status counts come from the backend index, independent of the current page
+            const counts = data.counts || {};
+            const totalRumors = Object.entries(counts)
+                .filter(([s]) => s !== 'DELETED')
+                .reduce((sum, [, n]) => sum + n, 0);
+            setStats({ total: totalRumors, active: counts.ACTIVE || 0, votes: data.totalVotes || 0 });
 
-            if (data.total === 0) {
+            if (totalRumors === 0 && !debouncedSearch) {
                 setRumors([{
                     id: 0,
                     title: "Welcome to Campus Rumors!",
@@ -42,47 +97,36 @@ export default function Home() {
                     keywords: ["welcome", "example"],
                     isMock: true,
                 }]);
-                setStats({ total: 0, active: 0, votes: 0 });
                 setLoading(false);
                 return;
             }
 
-            let activeCount = 0;
-            let totalVotes = 0;
-
-            const loadedRumors = data.rumors.map((r: any) => {
-                const confirmVotes = Number(r.totalConfirmVotes) || 0;
-                const disputeVotes = Number(r.totalDisputeVotes) || 0;
-                if (r.status === 'ACTIVE') activeCount++;
-                totalVotes += confirmVotes + disputeVotes;
-
-                return {
-                    id: Number(r.rumorID),
-                    title: r.content?.title || `Rumor #${r.rumorID}`,
-                    description: r.content?.description || 'Content loading...',
-                    author: `Student #${r.authorID}`,
-                    status: r.status,
-                    confidence: Number(r.currentConfidence),
-                    confirmVotes,
-                    disputeVotes,
-                    hasEvidence: r.hasEvidence,
-                    createdAt: r.createdAt,
-                    keywords: r.keywords || [],
-                };
-            });
-
-            setRumors(loadedRumors);
-            setStats({ total: data.total, active: activeCount, votes: totalVotes });
+            setRumors(data.rumors.map(toCardRumor));
         } catch (error) {
             console.error('Error loading rumors:', error);
         }
         setLoading(false);
     };
 
-    const filteredRumors = rumors.filter(rumor => {
-        if (filter === 'active') return rumor.status === 'ACTIVE';
-        if (filter === 'locked') return rumor.status === 'LOCKED';
-        return true;
+    // Live updates: patch cards in place and keep the stats bar current
+    const live = useRumorStream(null, (event) => {
+        const updated = toCardRumor(event.rumor);
+
+        if (event.type === 'RumorCreated') {
+            setStats(prev => ({ ...prev, total: prev.total + 1, active: prev.active + 1 }));
+            if (!debouncedSearch && filter !== 'locked') {
+                setRumors(prev => [updated, ...prev.filter(r => !r.isMock && r.id !== updated.id)]);
+            }
+            return;
+        }
+
+        if (event.type === 'VoteCast') {
+            setStats(prev => ({ ...prev, votes: prev.votes + 1 }));
+        } else if (event.type === 'RumorLocked') {
+            setStats(prev => ({ ...prev, active: Math.max(prev.active - 1, 0) }));
+        }
+
+        setRumors(prev => prev.map(r => (r.id === updated.id ? updated : r)));
     });
 
     return (
@@ -135,6 +179,29 @@ export default function Home() {
                 </div>
             </div>
 
+            {/* Search */}
+            <div className="relative mb-4">
+                <input
+                    type="text"
+                    value={search}
+                    onChange={e => setSearch(e.target.value)}
+                    placeholder="Search rumors... (use #keyword to filter by tag)"
+                    className="input w-full pr-10"
+                />
+                {search && (
+                    <button
+                        onClick={() => {
+                            setSearch('');
+                            if (searchParams.get('q')) router.replace('/');
+                        }}
+                        className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-white"
+                        title="Clear search"
+                    >
+                        ✕
+                    </button>
+                )}
+            </div>
+
             {/* Action Buttons */}
             <div className="flex flex-wrap gap-4 mb-8 justify-between items-center">
                 <div className="flex gap-2">
@@ -165,6 +232,12 @@ export default function Home() {
                     >
                         ↻ Refresh
                     </button>
+                    {live && (
+                        <span className="px-2 py-2 text-xs text-green-400 flex items-center gap-1" title="Receiving live updates">
+                            <span className="w-2 h-2 bg-green-400 rounded-full animate-pulse"></span>
+                            Live
+                        </span>
+                    )}
                 </div>
 
                 {isLoggedIn && userRegistered && (
@@ -190,17 +263,19 @@ export default function Home() {
             {/* Rumors List */}
             {!loading && (
                 <div className="space-y-4">
-                    {filteredRumors.map((rumor) => (
+                    {rumors.map((rumor) => (
                         <RumorCard key={rumor.id} rumor={rumor} />
                     ))}
                 </div>
             )}
 
-            {!loading && filteredRumors.length === 0 && (
+            {!loading && rumors.length === 0 && (
                 <div className="text-center py-12">
                     <div className="text-6xl mb-4">📭</div>
-                    <p className="text-gray-400 text-lg">No rumors found</p>
-                    {isLoggedIn && userRegistered && (
+                    <p className="text-gray-400 text-lg">
+                        {debouncedSearch ? `No rumors match "${debouncedSearch}"` : 'No rumors found'}
+                    </p>
+                    {isLoggedIn && userRegistered && !debouncedSearch && (
                         <Link href="/submit" className="btn-primary inline-block mt-4">
                             Be the first to submit!
                         </Link>
@@ -5,29 +5,20 @@ import { useAuth } from '@/components/AuthProvider';
 import { getUserProfile } from '@/lib/api';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-
-interface ProfileData {
-    studentID: number;
-    walletAddress: string;
-    credibilityScore: number;
-    status: string;
-    statusName: string;
-    votingPower: number;
-    registeredAt: Date;
-    totalPosts: number;
-    totalVotes: number;
-    accuratePredictions: number;
-    inaccuratePredictions: number;
-}
+import MyVotes from '@/components/MyVotes';
+import MyRumors from '@/components/MyRumors';
+import CredibilityHistory from '@/components/CredibilityHistory';
+import { StudentData, UserStatus, decodeStudent } from '@/lib/decoders';
 
 export default function ProfilePage() {
     const router = useRouter();
     const { token, user, isLoggedIn } = useAuth();
 
-    const [profile, setProfile] = useState<ProfileData | null>(null);
+    const [profile, setProfile] = useState<StudentData | null>(null);
     const [tokenBalance, setTokenBalance] = useState(0);
     const [loading, setLoading] = useState(true);
     const [registered, setRegistered] = useState(false);
+    const [tab, setTab] = useState<'overview' | 'votes' | 'rumors'>('overview');
 
     useEffect(() => {
         if (isLoggedIn && user?.walletAddress) {
@@ -43,21 +34,9 @@ export default function ProfilePage() {
             const data = await getUserProfile(targetAddress);
             if (data) {
                 setRegistered(true);
-                const statusNames = ['NEW_USER', 'CREDIBLE_USER', 'DISCREDITED'];
-                setProfile({
-                    studentID: Number(data.studentID),
-                    walletAddress: data.walletAddress,
-                    credibilityScore: Number(data.credibilityScore),
-                    status: data.status,
-                    statusName: statusNames[Number(data.status)] || data.status,
-                    votingPower: Number(data.votingPower),
-                    registeredAt: new Date(data.registeredAt),
-                    totalPosts: Number(data.totalPosts),
-                    totalVotes: Number(data.totalVotes),
-                    accuratePredictions: Number(data.accuratePredictions),
-                    inaccuratePredictions: Number(data.inaccuratePredictions),
-                });
-                setTokenBalance(Number(data.credibilityScore));
+                const student = decodeStudent(data);
+                setProfile(student);
+                setTokenBalance(student.credibilityScore);
             } else {
                 setRegistered(false);
             }
@@ -131,7 +110,7 @@ export default function ProfilePage() {
         ? ((profile.accuratePredictions / (profile.accuratePredictions + profile.inaccuratePredictions)) * 100).toFixed(1)
         : 0;
 
-    const getStatusInfo = (status: string) => {
+    const getStatusInfo = (status: UserStatus) => {
         switch (status) {
             case 'NEW_USER':
                 return { badge: 'badge-new', label: 'New User', description: 'Build credibility by making accurate predictions', icon: '🌱' };
@@ -139,6 +118,8 @@ export default function ProfilePage() {
                 return { badge: 'badge-credible', label: 'Credible', description: 'Full voting power and trusted status', icon: '⭐' };
             case 'DISCREDITED':
                 return { badge: 'badge-discredited', label: 'Discredited', description: 'Reduced influence - rebuild trust', icon: '⚠️' };
+            case 'BLOCKED':
+                return { badge: 'badge-discredited', label: 'Blocked', description: 'Credibility reached zero - voting and posting are disabled', icon: '🚫' };
             default:
                 return { badge: 'badge-new', label: status, description: '', icon: '👤' };
         }
@@ -176,86 +157,120 @@ export default function ProfilePage() {
                 </div>
             </div>
 
-            {/* Stats Grid */}
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
-                <div className="card text-center">
-                    <div className="text-2xl font-bold text-primary-400">{profile.votingPower / 100}%</div>
-                    <div className="text-gray-400 text-sm">Voting Power</div>
-                </div>
-                <div className="card text-center">
-                    <div className="text-2xl font-bold">{profile.totalPosts}</div>
-                    <div className="text-gray-400 text-sm">Rumors Posted</div>
-                </div>
-                <div className="card text-center">
-                    <div className="text-2xl font-bold">{profile.totalVotes}</div>
-                    <div className="text-gray-400 text-sm">Votes Cast</div>
-                </div>
-                <div className="card text-center">
-                    <div className="text-2xl font-bold text-green-400">{accuracyRate}%</div>
-                    <div className="text-gray-400 text-sm">Accuracy Rate</div>
-                </div>
+            {/* Tabs */}
+            <div className="flex gap-2 mb-8">
+                <button
+                    onClick={() => setTab('overview')}
+                    className={`px-4 py-2 rounded-lg transition-all ${tab === 'overview' ? 'bg-primary-600 text-white' : 'glass text-gray-300'
+                        }`}
+                >
+                    Overview
+                </button>
+                <button
+                    onClick={() => setTab('votes')}
+                    className={`px-4 py-2 rounded-lg transition-all ${tab === 'votes' ? 'bg-primary-600 text-white' : 'glass text-gray-300'
+                        }`}
+                >
+                    My Votes
+                </button>
+                <button
+                    onClick={() => setTab('rumors')}
+                    className={`px-4 py-2 rounded-lg transition-all ${tab === 'rumors' ? 'bg-primary-600 text-white' : 'glass text-gray-300'
+                        }`}
+                >
+                    My Rumors
+                </button>
             </div>
 
-            {/* Prediction History */}
-            <div className="card mb-8">
-                <h2 className="text-xl font-semibold mb-4">📊 Prediction History</h2>
-                <div className="flex items-center gap-8">
-                    <div className="flex-1">
-                        <div className="flex justify-between text-sm mb-2">
-                            <span className="text-green-400">✓ Accurate: {profile.accuratePredictions}</span>
-                            <span className="text-red-400">✗ Inaccurate: {profile.inaccuratePredictions}</span>
+            {tab === 'votes' && token && user?.walletAddress && <MyVotes token={token} walletAddress={user.walletAddress} />}
+
+            {tab === 'rumors' && token && <MyRumors token={token} />}
+
+            {tab === 'overview' && (
+                <>
+                    {/* Stats Grid */}
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+                        <div className="card text-center">
+                            <div className="text-2xl font-bold text-primary-400">{profile.votingPower / 100}%</div>
+                            <div className="text-gray-400 text-sm">Voting Power</div>
+                        </div>
+                        <div className="card text-center">
+                            <div className="text-2xl font-bold">{profile.totalPosts}</div>
+                            <div className="text-gray-400 text-sm">Rumors Posted</div>
                         </div>
-                        <div className="h-4 bg-gray-700 rounded-full overflow-hidden">
-                            <div
-                                className="h-full bg-gradient-to-r from-green-500 to-emerald-400"
-                                style={{ width: `${accuracyRate}%` }}
-                            ></div>
+                        <div className="card text-center">
+                            <div className="text-2xl font-bold">{profile.totalVotes}</div>
+                            <div className="text-gray-400 text-sm">Votes Cast</div>
+                        </div>
+                        <div className="card text-center">
+                            <div className="text-2xl font-bold text-green-400">{accuracyRate}%</div>
+                            <div className="text-gray-400 text-sm">Accuracy Rate</div>
                         </div>
                     </div>
-                </div>
-            </div>
 
-            {/* Credibility Progress */}
-            <div className="card mb-8">
-                <h2 className="text-xl font-semibold mb-4">📈 Credibility Progress</h2>
-                <div className="space-y-4">
-                    <div>
-                        <div className="flex justify-between text-sm mb-1">
-                            <span className="text-gray-400">Progress to Credible User (30 CRED)</span>
-                            <span>{Math.min(tokenBalance, 30)}/30</span>
+                    {/* Prediction History */}
+                    <div className="card mb-8">
+                        <h2 className="text-xl font-semibold mb-4">📊 Prediction History</h2>
+                        <div className="flex items-center gap-8">
+                            <div className="flex-1">
+                                <div className="flex justify-between text-sm mb-2">
+                                    <span className="text-green-400">✓ Accurate: {profile.accuratePredictions}</span>
+                                    <span className="text-red-400">✗ Inaccurate: {profile.inaccuratePredictions}</span>
+                                </div>
+                                <div className="h-4 bg-gray-700 rounded-full overflow-hidden">
+                                    <div
+                                        className="h-full bg-gradient-to-r from-green-500 to-emerald-400"
+                                        style={{ width: `${accuracyRate}%` }}
+                                    ></div>
+                                </div>
+                            </div>
                         </div>
-                        <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
-                            <div
-                                className="h-full bg-gradient-to-r from-primary-500 to-purple-500"
-                                style={{ width: `${Math.min((tokenBalance / 30) * 100, 100)}%` }}
-                            ></div>
+                    </div>
+
+                    {/* Credibility Progress */}
+                    <div className="card mb-8">
+                        <h2 className="text-xl font-semibold mb-4">📈 Credibility Progress</h2>
+                        <div className="space-y-4">
+                            <div>
+                                <div className="flex justify-between text-sm mb-1">
+                                    <span className="text-gray-400">Progress to Credible User (30 CRED)</span>
+                                    <span>{Math.min(tokenBalance, 30)}/30</span>
+                                </div>
+                                <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+                                    <div
+                                        className="h-full bg-gradient-to-r from-primary-500 to-purple-500"
+                                        style={{ width: `${Math.min((tokenBalance / 30) * 100, 100)}%` }}
+                                    ></div>
+                                </div>
+                            </div>
                         </div>
+                        {token && <CredibilityHistory token={token} />}
                     </div>
-                </div>
-            </div>
 
-            {/* Tips */}
-            <div className="card">
-                <h2 className="text-xl font-semibold mb-4">💡 How to Increase Credibility</h2>
-                <ul className="space-y-3 text-gray-400">
-                    <li className="flex items-start gap-3">
-                        <span className="text-green-400">+5</span>
-                        <span>Post rumors that get verified as true</span>
-                    </li>
-                    <li className="flex items-start gap-3">
-                        <span className="text-green-400">+2</span>
-                        <span>Vote on the correct side of verified rumors</span>
-                    </li>
-                    <li className="flex items-start gap-3">
-                        <span className="text-primary-400">+</span>
-                        <span>Provide evidence with your rumors for higher initial confidence</span>
-                    </li>
-                    <li className="flex items-start gap-3">
-                        <span className="text-red-400">-</span>
-                        <span>Avoid posting false rumors or voting incorrectly</span>
-                    </li>
-                </ul>
-            </div>
+                    {/* Tips */}
+                    <div className="card">
+                        <h2 className="text-xl font-semibold mb-4">💡 How to Increase Credibility</h2>
+                        <ul className="space-y-3 text-gray-400">
+                            <li className="flex items-start gap-3">
+                                <span className="text-green-400">+5</span>
+                                <span>Post rumors that get verified as true</span>
+                            </li>
+                            <li className="flex items-start gap-3">
+                                <span className="text-green-400">+2</span>
+                                <span>Vote on the correct side of verified rumors</span>
+                            </li>
+                            <li className="flex items-start gap-3">
+                                <span className="text-primary-400">+</span>
+                                <span>Provide evidence with your rumors for higher initial confidence</span>
+                            </li>
+                            <li className="flex items-start gap-3">
+                                <span className="text-red-400">-</span>
+                                <span>Avoid posting false rumors or voting incorrectly</span>
+                            </li>
+                        </ul>
+                    </div>
+                </>
+            )}
 
             {/* Actions */}
             <div className="flex gap-4 mt-8">
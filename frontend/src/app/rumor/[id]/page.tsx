@@ -3,9 +3,19 @@
 import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { useAuth } from '@/components/AuthProvider';
-import { RumorData } from '@/hooks/useContracts';
-import { getRumorById, getIPFSUrl, getCorrelations, voteOnRumor as apiVoteOnRumor, checkUserVoted, getUserStats } from '@/lib/api';
+import { RumorData, decodeRumor } from '@/lib/decoders';
+import { getRumorById, getIPFSUrl, getCorrelations, EvidenceFile, Tombstone, TrustLog as TrustLogData, Verdict, VoteReceipt, deleteRumor, voteOnRumor as apiVoteOnRumor, checkUserVoted } from '@/lib/api';
 import VotingPanel from '@/components/VotingPanel';
+import SimilarRumors from '@/components/SimilarRumors';
+import EvidenceGallery from '@/components/EvidenceGallery';
+import { useRumorStream } from '@/hooks/useRumorStream';
+import { useContentIntegrity } from '@/hooks/useContentIntegrity';
+import IntegrityBadge from '@/components/IntegrityBadge';
+import RumorTombstone from '@/components/RumorTombstone';
+import TrustLog from '@/components/TrustLog';
+import VerdictCard from '@/components/VerdictCard';
+import VerificationPreview from '@/components/VerificationPreview';
+import VoteTimelineChart from '@/components/VoteTimelineChart';
 import toast from 'react-hot-toast';
 
 interface RumorContent {
@@ -24,49 +34,45 @@ export default function RumorDetailPage() {
 
     const [rumor, setRumor] = useState<RumorData | null>(null);
     const [content, setContent] = useState<RumorContent | null>(null);
+    const [serverIntegrity, setServerIntegrity] = useState<string | undefined>();
+    const [evidence, setEvidence] = useState<EvidenceFile[]>([]);
+    const [tombstone, setTombstone] = useState<Tombstone | null>(null);
+    const [trustLog, setTrustLog] = useState<TrustLogData | null>(null);
+    const [verdict, setVerdict] = useState<Verdict | null>(null);
+    const [deleting, setDeleting] = useState(false);
     const [userVoted, setUserVoted] = useState(false);
-    const [author, setAuthor] = useState<any>(null);
+    const [voteReceipt, setVoteReceipt] = useState<VoteReceipt | null>(null);
+    // From the server; the author is never sent to the browser
+    const [isAuthor, setIsAuthor] = useState(false);
     const [correlations, setCorrelations] = useState<{ supportive: any[]; contradictory: any[] }>({ supportive: [], contradictory: [] });
     const [loading, setLoading] = useState(true);
 
     useEffect(() => {
         if (rumorId) loadRumor();
-    }, [rumorId]);
+    }, [rumorId, token]);
 
     const loadRumor = async () => {
         setLoading(true);
         try {
-            const data = await getRumorById(rumorId);
+            const data = await getRumorById(rumorId, token);
             if (!data) {
                 toast.error('Rumor not found');
                 router.push('/');
                 return;
             }
 
-            // Map backend response to RumorData shape
-            const rumorData: RumorData = {
-                rumorID: Number(data.rumorID),
-                authorID: Number(data.authorID),
-                authorWallet: data.authorWallet,
-                contentHash: data.contentHash,
-                evidenceHashes: data.evidenceHashes || [],
-                hasEvidence: data.hasEvidence,
-                initialConfidence: Number(data.currentConfidence),
-                currentConfidence: Number(data.currentConfidence),
-                status: ['ACTIVE','LOCKED','VERIFIED','DEBUNKED','DELETED'].indexOf(data.status),
-                statusName: data.status,
-                visible: data.visible,
-                createdAt: new Date(data.createdAt),
-                totalConfirmVotes: Number(data.totalConfirmVotes),
-                totalDisputeVotes: Number(data.totalDisputeVotes),
-                keywords: data.keywords || [],
-            };
-            setRumor(rumorData);
+            setRumor(decodeRumor(data));
+            setIsAuthor(!!data.isAuthor);
 
             // Content is already included in the backend response
             if (data.content) {
                 setContent(data.content);
             }
+            setServerIntegrity(data.contentIntegrity);
+            setEvidence(data.evidence || []);
+            setTombstone(data.tombstone || null);
+            setTrustLog(data.trustLog || null);
+            setVerdict(data.verdict || null);
 
             // Check if user has voted
             if (user?.walletAddress) {
@@ -76,14 +82,6 @@ export default function RumorDetailPage() {
                 } catch (e) { /* ignore */ }
             }
 
-            // Author stats from backend
-            if (data.authorWallet) {
-                try {
-                    const stats = await getUserStats(data.authorWallet);
-                    setAuthor(stats);
-                } catch (e) { /* ignore */ }
-            }
-
             // Load correlations
             if (data.relatedRumors) {
                 setCorrelations(data.relatedRumors);
@@ -108,26 +106,49 @@ export default function RumorDetailPage() {
         }
 
         try {
-            await apiVoteOnRumor(rumorId, voteType === 0, token);
+            const receipt = await apiVoteOnRumor(rumorId, voteType === 0, token);
+            setVoteReceipt(receipt);
             toast.success(voteType === 0 ? 'Vote confirmed!' : 'Vote disputed!');
             setUserVoted(true);
+            // New counts and confidence arrive over the live stream; refresh once without it
+            if (!live) await loadRumor();
+        } catch (error: any) {
+            toast.error(error.message || 'Failed to vote');
+        }
+    };
 
-            // Refresh rumor data after short delay to allow block propagation
-            setTimeout(() => {
-                loadRumor();
-            }, 2000);
+    const handleDelete = async () => {
+        if (!token) return;
+        if (!window.confirm('Delete this rumor? Its content will be hidden for good; only the final confidence and vote count remain.')) {
+            return;
+        }
 
+        setDeleting(true);
+        try {
+            await deleteRumor(rumorId, token);
+            toast.success('Rumor deleted');
+            await loadRumor();
         } catch (error: any) {
-            toast.error(error.message || 'Failed to vote');
+            toast.error(error.message || 'Failed to delete rumor');
+        } finally {
+            setDeleting(false);
         }
     };
 
+    const live = useRumorStream(rumorId, (event) => {
+        setRumor(decodeRumor(event.rumor));
+    }, !!rumorId);
+    const integrity = useContentIntegrity(rumor?.contentHash, content, serverIntegrity);
+
     const getStatusBadge = (status: string) => {
         switch (status) {
             case 'ACTIVE':
                 return <span className="badge badge-active">Active</span>;
             case 'LOCKED':
-                return <span className="badge badge-locked">Locked</span>;
+                // Locked rumors the community could not decide stay LOCKED on-chain
+                return verdict?.outcome === 'INCONCLUSIVE'
+                    ? <span className="badge badge-inconclusive">Inconclusive</span>
+                    : <span className="badge badge-locked">Locked</span>;
             case 'VERIFIED':
                 return <span className="badge badge-credible">Verified</span>;
             case 'DEBUNKED':
@@ -167,6 +188,21 @@ export default function RumorDetailPage() {
         );
     }
 
+    if (rumor.statusName === 'DELETED') {
+        return (
+            <div className="container mx-auto px-4 py-8 max-w-4xl">
+                <button
+                    onClick={() => router.back()}
+                    className="text-gray-400 hover:text-white mb-6 flex items-center"
+                >
+                    ← Back
+                </button>
+                <RumorTombstone rumor={rumor} tombstone={tombstone} />
+                {trustLog && <TrustLog log={trustLog} direction="sent" />}
+            </div>
+        );
+    }
+
     const confidencePercent = Math.min(Math.max(rumor.currentConfidence, -100), 100);
 
     return (
@@ -185,6 +221,7 @@ export default function RumorDetailPage() {
                 <div className="flex flex-wrap justify-between items-start gap-4 mb-4">
                     <div className="flex items-center gap-3">
                         {getStatusBadge(rumor.statusName)}
+                        <IntegrityBadge status={integrity} />
                         {rumor.hasEvidence && (
                             <span className="text-xs text-green-400 flex items-center">
                                 <svg className="w-4 h-4 mr-1" fill="currentColor" viewBox="0 0 20 20">
@@ -222,23 +259,16 @@ export default function RumorDetailPage() {
                 {rumor.evidenceHashes.length > 0 && (
                     <div className="mb-6">
                         <h3 className="text-lg font-semibold mb-3">📎 Evidence</h3>
-                        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
-                            {rumor.evidenceHashes.map((hash, i) => (
-                                <a
-                                    key={hash}
-                                    href={getIPFSUrl(hash)}
-                                    // Use IPFS gateway directly if direct viewing needed, or download
-                                    target="_blank"
-                                    rel="noopener noreferrer"
-                                    className="glass rounded-lg p-4 text-center hover:bg-white/10 transition-colors"
-                                >
-                                    <svg className="w-8 h-8 mx-auto text-primary-400 mb-2" fill="currentColor" viewBox="0 0 20 20">
-                                        <path fillRule="evenodd" d="M4 4a2 2 0 012-2h4.586A2 2 0 0112 2.586L15.414 6A2 2 0 0116 7.414V16a2 2 0 01-2 2H6a2 2 0 01-2-2V4z" clipRule="evenodd" />
-                                    </svg>
-                                    <span className="text-sm text-gray-400">Evidence {i + 1}</span>
-                                </a>
-                            ))}
-                        </div>
+                        <EvidenceGallery
+                            evidence={evidence.length > 0 ? evidence : rumor.evidenceHashes.map((hash) => ({
+                                cid: hash,
+                                url: getIPFSUrl(hash),
+                                name: null,
+                                mimeType: null,
+                                size: null,
+                                thumbnailUrl: null,
+                            }))}
+                        />
                     </div>
                 )}
 
@@ -264,15 +294,22 @@ export default function RumorDetailPage() {
                 <div className="glass rounded-lg p-4 flex justify-between items-center">
                     <div>
                         <span className="text-gray-400 text-sm">Posted by</span>
-                        <div className="font-medium">Student #{rumor.authorID}</div>
+                        <div className="font-medium">{isAuthor ? 'You' : 'An anonymous student'}</div>
                     </div>
-                    {author && (
-                        <div className="text-right">
-                            <span className="text-gray-400 text-sm">Author Credibility</span>
-                            <div className="font-medium text-primary-400">{author.credibilityScore} CRED</div>
-                        </div>
-                    )}
                 </div>
+
+                {/* Author actions (the contract does not allow deleting locked rumors) */}
+                {isAuthor && rumor.statusName !== 'LOCKED' && (
+                    <div className="flex justify-end mt-4">
+                        <button
+                            onClick={handleDelete}
+                            disabled={deleting}
+                            className="text-sm text-red-400 hover:text-red-300 disabled:opacity-50"
+                        >
+                            {deleting ? 'Deleting...' : '🗑️ Delete rumor'}
+                        </button>
+                    </div>
+                )}
             </div>
 
             {/* Voting Panel */}
@@ -281,7 +318,15 @@ export default function RumorDetailPage() {
                 userVoted={userVoted}
                 onVote={handleVote}
                 isConnected={!!token}
-                isAuthor={!!user?.walletAddress && user.walletAddress.toLowerCase() === rumor.authorWallet?.toLowerCase()}
+                isAuthor={isAuthor}
+                isLive={live}
+                walletAddress={user?.walletAddress}
+                receipt={voteReceipt}
+            />
+
+            <VoteTimelineChart
+                rumorId={rumorId}
+                version={`${rumor.totalConfirmVotes + rumor.totalDisputeVotes}:${rumor.currentConfidence}:${rumor.statusName}`}
             />
 
             {/* Correlations */}
@@ -299,7 +344,20 @@ export default function RumorDetailPage() {
                                         href={`/rumor/${r.rumorID}`}
                                         className="block glass rounded-lg p-3 hover:bg-white/10 transition-colors"
                                     >
-                                        Rumor #{r.rumorID}
+                                        <div className="flex items-center justify-between gap-3">
+                                            <span className="truncate">
+                                                <span className="text-gray-500 mr-2">#{r.rumorID}</span>
+                                                {r.title || 'Untitled rumor'}
+                                            </span>
+                                            {r.currentConfidence !== null && (
+                                                <span className="text-sm text-gray-400 shrink-0">{r.currentConfidence}%</span>
+                                            )}
+                                        </div>
+                                        {r.reasoning && (
+                                            <p className="text-xs text-gray-500 mt-1">
+                                                AI ({r.aiConfidence}%): {r.reasoning}
+                                            </p>
+                                        )}
                                     </a>
                                 ))}
                             </div>
@@ -316,7 +374,20 @@ export default function RumorDetailPage() {
                                         href={`/rumor/${r.rumorID}`}
                                         className="block glass rounded-lg p-3 hover:bg-white/10 transition-colors"
                                     >
-                                        Rumor #{r.rumorID}
+                                        <div className="flex items-center justify-between gap-3">
+                                            <span className="truncate">
+                                                <span className="text-gray-500 mr-2">#{r.rumorID}</span>
+                                                {r.title || 'Untitled rumor'}
+                                            </span>
+                                            {r.currentConfidence !== null && (
+                                                <span className="text-sm text-gray-400 shrink-0">{r.currentConfidence}%</span>
+                                            )}
+                                        </div>
+                                        {r.reasoning && (
+                                            <p className="text-xs text-gray-500 mt-1">
+                                                AI ({r.aiConfidence}%): {r.reasoning}
+                                            </p>
+                                        )}
                                     </a>
                                 ))}
                             </div>
@@ -324,6 +395,18 @@ export default function RumorDetailPage() {
                     )}
                 </div>
             )}
+
+            {verdict && <VerdictCard verdict={verdict} />}
+
+            <VerificationPreview
+                rumorId={rumorId}
+                token={token}
+                voteCount={rumor.totalConfirmVotes + rumor.totalDisputeVotes}
+            />
+
+            {trustLog && <TrustLog log={trustLog} direction="received" />}
+
+            <SimilarRumors rumorId={rumorId} />
         </div>
     );
 }
@@ -3,7 +3,11 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/components/AuthProvider';
-import { createRumor } from '@/lib/api';
+import { createRumor, checkDuplicates, previewKeywords, DuplicateRumor, KeywordPreview } from '@/lib/api';
+import { createThumbnail } from '@/lib/thumbnail';
+import { normalizeKeyword } from '@/lib/keywords';
+import DuplicateWarning from '@/components/DuplicateWarning';
+import KeywordReview from '@/components/KeywordReview';
 import toast from 'react-hot-toast';
 
 export default function SubmitRumorPage() {
@@ -14,8 +18,21 @@ export default function SubmitRumorPage() {
     const [description, setDescription] = useState('');
     const [evidenceFiles, setEvidenceFiles] = useState<File[]>([]);
     const [keywords, setKeywords] = useState<string[]>([]);
+    const [keywordInput, setKeywordInput] = useState('');
+    // AI keywords the author removed during review
+    const [excludedKeywords, setExcludedKeywords] = useState<string[]>([]);
 
     const [loading, setLoading] = useState(false);
+    const [checking, setChecking] = useState(false);
+    // Duplicates found for the draft text they were checked against
+    const [duplicateCheck, setDuplicateCheck] = useState<{ draft: string; duplicates: DuplicateRumor[]; dismissed: boolean } | null>(null);
+    // Merged keyword list shown for review, for the draft and author keywords it was built from
+    const [keywordReview, setKeywordReview] = useState<{ draft: string; key: string; preview: KeywordPreview } | null>(null);
+
+    const draft = `${title.trim()}\n${description.trim()}`;
+    const reviewKey = `${draft}\n${keywords.join(',')}\n${excludedKeywords.join(',')}`;
+    const reviewReady = keywordReview?.key === reviewKey;
+    const showDuplicates = duplicateCheck?.draft === draft && duplicateCheck.duplicates.length > 0 && !duplicateCheck.dismissed;
 
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files) {
@@ -29,7 +46,7 @@ export default function SubmitRumorPage() {
     };
 
     const addKeyword = (keyword: string) => {
-        const clean = keyword.toLowerCase().trim();
+        const clean = normalizeKeyword(keyword);
         if (clean && !keywords.includes(clean)) {
             setKeywords([...keywords, clean]);
         }
@@ -39,6 +56,41 @@ export default function SubmitRumorPage() {
         setKeywords(keywords.filter(k => k !== keyword));
     };
 
+    const handleKeywordKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            addKeyword(keywordInput);
+            setKeywordInput('');
+        }
+    };
+
+    const loadKeywordReview = async (author: string[], exclude: string[]) => {
+        if (!token) return;
+        setChecking(true);
+        try {
+            const preview = await previewKeywords(title, description, { author, exclude }, token);
+            setKeywordReview({ draft, key: `${draft}\n${author.join(',')}\n${exclude.join(',')}`, preview });
+        } catch (error: any) {
+            toast.error(error.message || 'Failed to load keywords');
+        } finally {
+            setChecking(false);
+        }
+    };
+
+    // Removing a keyword frees a slot, so the merged list is fetched again
+    const removeReviewedKeyword = (keyword: string, source: 'author' | 'ai') => {
+        const author = source === 'author' ? keywords.filter(k => normalizeKeyword(k) !== keyword) : keywords;
+        const exclude = source === 'ai' ? [...excludedKeywords, keyword] : excludedKeywords;
+        setKeywords(author);
+        setExcludedKeywords(exclude);
+        loadKeywordReview(author, exclude);
+    };
+
+    const postAnyway = () => {
+        if (duplicateCheck) setDuplicateCheck({ ...duplicateCheck, dismissed: true });
+        loadKeywordReview(keywords, excludedKeywords);
+    };
+
     const handleSubmit = async () => {
         if (!title.trim() || !description.trim()) {
             toast.error('Please fill in required fields');
@@ -51,17 +103,51 @@ export default function SubmitRumorPage() {
             return;
         }
 
+        // Look for existing rumors about the same event (once per draft) and stop if any turn up
+        if (duplicateCheck?.draft !== draft) {
+            let duplicates: DuplicateRumor[] = [];
+            setChecking(true);
+            try {
+                duplicates = await checkDuplicates(title, description, token);
+            } catch (error) {
+                // The check is advisory; never block a submission on it
+                console.error('Duplicate check failed:', error);
+            } finally {
+                setChecking(false);
+            }
+            setDuplicateCheck({ draft, duplicates, dismissed: false });
+            if (duplicates.length > 0) return;
+        } else if (showDuplicates) {
+            return;
+        }
+
+        // Show the merged author + AI keywords before anything goes on-chain
+        if (!reviewReady) {
+            await loadKeywordReview(keywords, excludedKeywords);
+            return;
+        }
+
         setLoading(true);
         try {
-            // Note: We are not handling manual keywords being sent yet in the API
-            // but for MVP the backend generates them with AI. 
-            // If we want to support manual keywords, backend/rumors.js needs update.
-            // For now, let's just proceed with standard submission.
-
-            const result = await createRumor(title, description, evidenceFiles, token);
+            const thumbnails = await Promise.all(evidenceFiles.map(createThumbnail));
+            // Exactly the list the author reviewed, so /create does not extract keywords again
+            const reviewed = keywordReview.preview.keywords;
+            const result = await createRumor(title, description, evidenceFiles, token, thumbnails, {
+                author: reviewed.filter(k => k.source === 'author').map(k => k.keyword),
+                exclude: excludedKeywords,
+                ai: reviewed.filter(k => k.source === 'ai').map(k => k.keyword),
+            });
 
             if (result.success) {
                 toast.success('Rumor submitted successfully!');
+                for (const report of result.evidenceReport || []) {
+                    if (report.metadataRemoved.length > 0) {
+                        toast(`🧹 Removed from ${report.name}: ${report.metadataRemoved.join(', ')}`, { duration: 6000 });
+                    }
+                    if (report.reusedIn.length > 0) {
+                        toast(`⚠️ ${report.name} matches evidence on rumor ${report.reusedIn.map(id => `#${id}`).join(', ')}`, { duration: 6000 });
+                    }
+                }
                 router.push(`/rumor/${result.rumorId}`);
             }
         } catch (error: any) {
@@ -117,6 +203,32 @@ export default function SubmitRumorPage() {
                     <div className="text-right text-xs text-gray-500 mt-1">{description.length}/2000</div>
                 </div>
 
+                {/* Keywords */}
+                <div>
+                    <label className="block text-sm font-medium mb-2">Keywords (Optional)</label>
+                    <input
+                        type="text"
+                        value={keywordInput}
+                        onChange={e => setKeywordInput(e.target.value)}
+                        onKeyDown={handleKeywordKeyDown}
+                        onBlur={() => { addKeyword(keywordInput); setKeywordInput(''); }}
+                        placeholder="e.g. library, exams — press Enter to add"
+                        className="input w-full"
+                        maxLength={32}
+                    />
+                    {keywords.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mt-2">
+                            {keywords.map(keyword => (
+                                <span key={keyword} className="px-3 py-1 rounded-full text-sm bg-primary-500/20 text-primary-300 flex items-center gap-2">
+                                    #{keyword}
+                                    <button onClick={() => removeKeyword(keyword)} className="text-gray-400 hover:text-red-400">×</button>
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                    <div className="text-xs text-gray-500 mt-1">AI adds more keywords from your text; you can review them before posting.</div>
+                </div>
+
                 {/* Evidence */}
                 <div>
                     <label className="block text-sm font-medium mb-2">Evidence (Optional)</label>
@@ -125,14 +237,15 @@ export default function SubmitRumorPage() {
                             type="file"
                             onChange={handleFileChange}
                             multiple
-                            accept="image/*,video/*,.pdf,.doc,.docx"
+                            accept="image/jpeg,image/png,image/gif,image/webp,video/mp4,application/pdf"
                             className="hidden"
                             id="evidence-upload"
                         />
                         <label htmlFor="evidence-upload" className="cursor-pointer block text-center">
                             <div className="text-4xl mb-2">📎</div>
                             <div className="text-gray-400">Click to upload evidence (max 5 files)</div>
-                            <div className="text-gray-600 text-sm mt-1">Screenshots, documents, videos</div>
+                            <div className="text-gray-600 text-sm mt-1">Images, MP4 videos, PDFs (10MB each)</div>
+                            <div className="text-gray-600 text-xs mt-1">Location, device and author metadata is stripped from images and PDFs</div>
                         </label>
                     </div>
 
@@ -153,14 +266,33 @@ export default function SubmitRumorPage() {
                     )}
                 </div>
 
+                {/* Possible duplicates */}
+                {showDuplicates && (
+                    <DuplicateWarning
+                        duplicates={duplicateCheck.duplicates}
+                        token={token}
+                        onPostAnyway={postAnyway}
+                        posting={checking}
+                    />
+                )}
+
+                {/* Keyword review */}
+                {keywordReview?.draft === draft && !showDuplicates && (
+                    <KeywordReview
+                        preview={keywordReview.preview}
+                        onRemove={removeReviewedKeyword}
+                        disabled={loading || checking}
+                    />
+                )}
+
                 {/* Submit Button */}
                 <div className="pt-4">
                     <button
-                        onClick={handleSubmit}
-                        disabled={loading || !title.trim() || !description.trim()}
+                        onClick={() => handleSubmit()}
+                        disabled={loading || checking || !title.trim() || !description.trim()}
                         className="btn-primary w-full"
                     >
-                        {loading ? 'Submitting...' : 'Submit Rumor →'}
+                        {loading ? 'Submitting...' : checking ? 'Checking...' : reviewReady ? 'Confirm & Submit →' : 'Submit Rumor →'}
                     </button>
                     <p className="text-center text-gray-600 text-xs mt-2">
                         Your rumor will be processed by AI and verified on blockchain (gasless!)
@@ -0,0 +1,213 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { CredibilityHistory as History, CredibilityPoint, getCredibilityHistory } from '@/lib/api';
+import { UserStatus } from '@/lib/decoders';
+
+interface CredibilityHistoryProps {
+    token: string;
+}
+
+const WIDTH = 640;
+const HEIGHT = 160;
+const PAD = { top: 12, right: 12, bottom: 20, left: 36 };
+
+const REASON_LABELS: Record<NonNullable<CredibilityPoint['reason']>['kind'], string> = {
+    AuthorRewarded: 'Your rumor was verified true',
+    AuthorPenalized: 'Your rumor was debunked',
+    VoterRewarded: 'You voted on the winning side',
+    VoterPenalized: 'You voted on the losing side',
+};
+
+const STATUS_LABELS: Record<UserStatus, string> = {
+    NONE: 'Unregistered',
+    NEW_USER: 'New user',
+    CREDIBLE_USER: 'Credible user',
+    DISCREDITED: 'Discredited',
+    BLOCKED: 'Blocked',
+};
+
+function formatRemaining(ms: number) {
+    const total = Math.floor(ms / 1000);
+    const days = Math.floor(total / 86400);
+    const hours = Math.floor((total % 86400) / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const seconds = total % 60;
+    return `${days}d ${hours}h ${minutes}m ${seconds}s`;
+}
+
+// Ticks every second until the discredit period is over
+function DiscreditCountdown({ until, score, threshold }: { until: string; score: number; threshold: number }) {
+    const [now, setNow] = useState(Date.now());
+    const end = new Date(until).getTime();
+
+    useEffect(() => {
+        if (end <= Date.now()) return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [end]);
+
+    const remaining = end - now;
+
+    return (
+        <div className="glass rounded-lg p-4 mb-4 border border-red-500/30">
+            <div className="text-sm text-gray-400">Discredited period</div>
+            {remaining > 0 ? (
+                <>
+                    <div className="text-2xl font-bold text-red-400 font-mono">{formatRemaining(remaining)}</div>
+                    <div className="text-xs text-gray-500 mt-1">
+                        Ends {new Date(until).toLocaleString()}. You regain Credible status on your next credibility
+                        change after that, if you are at {threshold} CRED or more.
+                    </div>
+                </>
+            ) : (
+                <div className="text-sm text-gray-300 mt-1">
+                    The period is over.{' '}
+                    {score >= threshold
+                        ? 'Your status updates on your next credibility change.'
+                        : `Reach ${threshold} CRED to regain Credible status.`}
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default function CredibilityHistory({ token }: CredibilityHistoryProps) {
+    const [history, setHistory] = useState<History | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        getCredibilityHistory(token)
+            .then((data) => { if (!cancelled) setHistory(data); })
+            .catch(() => { if (!cancelled) setHistory(null); });
+        return () => { cancelled = true; };
+    }, [token]);
+
+    if (!history) return null;
+
+    const { points, statusChanges, threshold } = history;
+
+    const countdown = history.status === 'DISCREDITED' && history.discreditedUntil && (
+        <DiscreditCountdown until={history.discreditedUntil} score={history.credibilityScore} threshold={threshold} />
+    );
+
+    if (points.length === 0) {
+        return (
+            <div className="mt-6">
+                {countdown}
+                <p className="text-sm text-gray-400">No credibility changes yet. Post or vote on rumors to build a history.</p>
+            </div>
+        );
+    }
+
+    const times = [...points, ...statusChanges].map((e) => new Date(e.timestamp).getTime());
+    const start = Math.min(...times);
+    const end = Math.max(Date.now(), ...times);
+    const span = Math.max(end - start, 1);
+
+    const x = (t: number) => PAD.left + ((t - start) / span) * (WIDTH - PAD.left - PAD.right);
+    const plotBottom = HEIGHT - PAD.bottom;
+    const maxScore = Math.max(threshold * 2, ...points.map((p) => Math.max(p.oldScore, p.newScore)));
+    const y = (v: number) => plotBottom - (v / maxScore) * (plotBottom - PAD.top);
+
+    // Step path: the score holds until the next change
+    let path = `M${x(start)},${y(points[0].oldScore)}`;
+    for (const p of points) {
+        path += ` H${x(new Date(p.timestamp).getTime())} V${y(p.newScore)}`;
+    }
+    path += ` H${x(end)}`;
+
+    const dateLabel = (t: number) => new Date(t).toLocaleDateString([], { month: 'short', day: 'numeric' });
+
+    return (
+        <div className="mt-6">
+            {countdown}
+
+            <div className="text-xs text-gray-400 flex flex-wrap gap-4 mb-1">
+                <span><span className="text-primary-400">━</span> Credibility</span>
+                <span><span className="text-yellow-500">┄</span> Credible threshold ({threshold})</span>
+                {statusChanges.length > 0 && <span><span className="text-purple-400">┆</span> Status change</span>}
+            </div>
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Credibility over time">
+                <line x1={PAD.left} x2={WIDTH - PAD.right} y1={plotBottom} y2={plotBottom} stroke="#374151" />
+                <line
+                    x1={PAD.left} x2={WIDTH - PAD.right} y1={y(threshold)} y2={y(threshold)}
+                    stroke="#eab308" strokeDasharray="4 3"
+                />
+                {[maxScore, threshold, 0].map((v) => (
+                    <text key={v} x={PAD.left - 6} y={y(v) + 3} fontSize="10" fill="#6b7280" textAnchor="end">{v}</text>
+                ))}
+                {statusChanges.map((s, i) => {
+                    const sx = x(new Date(s.timestamp).getTime());
+                    return (
+                        <line key={i} x1={sx} x2={sx} y1={PAD.top} y2={plotBottom} stroke="#c084fc" strokeDasharray="2 3">
+                            <title>{`${STATUS_LABELS[s.oldStatus]} → ${STATUS_LABELS[s.newStatus]}`}</title>
+                        </line>
+                    );
+                })}
+                <path d={path} fill="none" stroke="#818cf8" strokeWidth="2" />
+                {points.map((p, i) => (
+                    <circle
+                        key={i}
+                        cx={x(new Date(p.timestamp).getTime())}
+                        cy={y(p.newScore)}
+                        r="3"
+                        fill={p.change >= 0 ? '#4ade80' : '#f87171'}
+                    >
+                        <title>
+                            {`${p.change >= 0 ? '+' : ''}${p.change} → ${p.newScore}`}
+                            {p.reason ? ` · ${REASON_LABELS[p.reason.kind]} (#${p.reason.rumorID})` : ''}
+                        </title>
+                    </circle>
+                ))}
+                {[start, end].map((t, i) => (
+                    <text key={i} x={x(t)} y={HEIGHT - 4} fontSize="10" fill="#6b7280" textAnchor={i === 0 ? 'start' : 'end'}>
+                        {dateLabel(t)}
+                    </text>
+                ))}
+            </svg>
+
+            <h3 className="font-semibold mt-6 mb-2">What changed your score</h3>
+            <div className="space-y-2">
+                {[...points].reverse().map((p, i) => (
+                    <div key={i} className="glass rounded-lg p-3 flex items-center justify-between gap-3 text-sm">
+                        <div className="min-w-0">
+                            {p.reason ? (
+                                <>
+                                    <div>{REASON_LABELS[p.reason.kind]}</div>
+                                    <Link href={`/rumor/${p.reason.rumorID}`} className="text-xs text-primary-400 hover:underline truncate block">
+                                        #{p.reason.rumorID} {p.reason.title || 'Untitled rumor'}
+                                    </Link>
+                                </>
+                            ) : (
+                                <div className="text-gray-400">Credibility adjustment</div>
+                            )}
+                            <div className="text-xs text-gray-500 mt-1">{new Date(p.timestamp).toLocaleString()}</div>
+                        </div>
+                        <div className="text-right shrink-0">
+                            <div className={`font-semibold ${p.change >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                                {p.change >= 0 ? '+' : ''}{p.change}
+                            </div>
+                            <div className="text-xs text-gray-500">now {p.newScore}</div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {statusChanges.length > 0 && (
+                <>
+                    <h3 className="font-semibold mt-6 mb-2">Status changes</h3>
+                    <ul className="space-y-1 text-sm text-gray-400">
+                        {[...statusChanges].reverse().map((s, i) => (
+                            <li key={i}>
+                                {new Date(s.timestamp).toLocaleDateString()}:{' '}
+                                {STATUS_LABELS[s.oldStatus]} → <span className="text-gray-200">{STATUS_LABELS[s.newStatus]}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            )}
+        </div>
+    );
+}
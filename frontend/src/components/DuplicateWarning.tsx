@@ -0,0 +1,89 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { DuplicateRumor, voteOnRumor } from '@/lib/api';
+import toast from 'react-hot-toast';
+
+interface DuplicateWarningProps {
+    duplicates: DuplicateRumor[];
+    token: string;
+    onPostAnyway: () => void;
+    posting: boolean;
+}
+
+export default function DuplicateWarning({ duplicates, token, onPostAnyway, posting }: DuplicateWarningProps) {
+    const router = useRouter();
+    const [voting, setVoting] = useState<string | null>(null);
+
+    const vote = async (rumorID: string, voteType: boolean) => {
+        setVoting(rumorID);
+        try {
+            await voteOnRumor(Number(rumorID), voteType, token);
+            toast.success(voteType ? 'Confirmed the existing rumor' : 'Disputed the existing rumor');
+            router.push(`/rumor/${rumorID}`);
+        } catch (error: any) {
+            toast.error(error.message || 'Failed to vote');
+            setVoting(null);
+        }
+    };
+
+    return (
+        <div className="glass rounded-lg p-4 border border-yellow-500/40">
+            <h3 className="font-semibold text-yellow-400 mb-1">🔁 This may already be posted</h3>
+            <p className="text-sm text-gray-400 mb-4">
+                Votes on one rumor count for more than votes split across copies. Vote on an existing rumor, or post yours if it is a different story.
+            </p>
+
+            <div className="space-y-3">
+                {duplicates.map((r) => (
+                    <div key={r.rumorID} className="glass rounded-lg p-3">
+                        <div className="flex items-center justify-between gap-3">
+                            <a href={`/rumor/${r.rumorID}`} target="_blank" rel="noopener noreferrer" className="truncate hover:text-primary-400">
+                                <span className="text-gray-500 mr-2">#{r.rumorID}</span>
+                                {r.title || 'Untitled rumor'}
+                            </a>
+                            <span className="text-sm text-primary-400 shrink-0">
+                                {Math.round(r.similarity * 100)}% match
+                            </span>
+                        </div>
+                        {r.description && (
+                            <p className="text-sm text-gray-400 mt-1 line-clamp-2">{r.description}</p>
+                        )}
+                        <div className="flex items-center justify-between mt-2">
+                            <span className="text-xs text-gray-500">
+                                {r.status} · {r.currentConfidence}% confidence · {new Date(r.createdAt).toLocaleDateString()}
+                            </span>
+                            {r.status === 'ACTIVE' && (
+                                <div className="flex gap-2">
+                                    <button
+                                        onClick={() => vote(r.rumorID, true)}
+                                        disabled={voting !== null}
+                                        className="text-xs px-3 py-1 rounded bg-green-500/20 text-green-400 hover:bg-green-500/30 disabled:opacity-50"
+                                    >
+                                        {voting === r.rumorID ? '...' : '✓ Confirm'}
+                                    </button>
+                                    <button
+                                        onClick={() => vote(r.rumorID, false)}
+                                        disabled={voting !== null}
+                                        className="text-xs px-3 py-1 rounded bg-red-500/20 text-red-400 hover:bg-red-500/30 disabled:opacity-50"
+                                    >
+                                        {voting === r.rumorID ? '...' : '✗ Dispute'}
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <button
+                onClick={onPostAnyway}
+                disabled={posting || voting !== null}
+                className="mt-4 text-sm text-gray-400 hover:text-white underline"
+            >
+                {posting ? 'Submitting...' : 'It\'s a different story — post mine anyway'}
+            </button>
+        </div>
+    );
+}
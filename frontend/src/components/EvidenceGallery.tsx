@@ -0,0 +1,152 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { EvidenceFile } from '@/lib/api';
+import { formatFileSize } from '@/lib/thumbnail';
+
+interface EvidenceGalleryProps {
+    evidence: EvidenceFile[];
+}
+
+type EvidenceKind = 'image' | 'video' | 'pdf' | 'file';
+
+function kindOf(file: EvidenceFile): EvidenceKind {
+    if (!file.mimeType) return 'file';
+    if (file.mimeType.startsWith('image/')) return 'image';
+    if (file.mimeType.startsWith('video/')) return 'video';
+    if (file.mimeType === 'application/pdf') return 'pdf';
+    return 'file';
+}
+
+const KIND_ICONS: Record<EvidenceKind, string> = {
+    image: '🖼️',
+    video: '🎬',
+    pdf: '📄',
+    file: '📎',
+};
+
+function Preview({ file }: { file: EvidenceFile }) {
+    switch (kindOf(file)) {
+        case 'image':
+            return <img src={file.url} alt={file.name || 'Evidence'} className="max-h-[75vh] max-w-full mx-auto rounded-lg object-contain" />;
+        case 'video':
+            return <video src={file.url} controls autoPlay className="max-h-[75vh] max-w-full mx-auto rounded-lg" />;
+        case 'pdf':
+            return <iframe src={file.url} title={file.name || 'Evidence'} className="w-full h-[75vh] rounded-lg bg-white" />;
+        default:
+            return (
+                <div className="text-center py-16">
+                    <div className="text-5xl mb-4">📎</div>
+                    <p className="text-gray-400 mb-4">No inline preview for this file.</p>
+                    <a href={file.url} target="_blank" rel="noopener noreferrer" className="btn-primary">
+                        Open file
+                    </a>
+                </div>
+            );
+    }
+}
+
+export default function EvidenceGallery({ evidence }: EvidenceGalleryProps) {
+    const [openIndex, setOpenIndex] = useState<number | null>(null);
+
+    const close = useCallback(() => setOpenIndex(null), []);
+    const step = useCallback((delta: number) => {
+        setOpenIndex((i) => (i === null ? i : (i + delta + evidence.length) % evidence.length));
+    }, [evidence.length]);
+
+    useEffect(() => {
+        if (openIndex === null) return;
+        const onKey = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') close();
+            if (e.key === 'ArrowRight') step(1);
+            if (e.key === 'ArrowLeft') step(-1);
+        };
+        window.addEventListener('keydown', onKey);
+        return () => window.removeEventListener('keydown', onKey);
+    }, [openIndex, close, step]);
+
+    if (evidence.length === 0) return null;
+
+    const current = openIndex !== null ? evidence[openIndex] : null;
+
+    return (
+        <>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                {evidence.map((file, i) => {
+                    const kind = kindOf(file);
+                    const previewUrl = file.thumbnailUrl || (kind === 'image' ? file.url : null);
+                    return (
+                        <button
+                            key={file.cid}
+                            onClick={() => setOpenIndex(i)}
+                            className="glass rounded-lg overflow-hidden text-left hover:bg-white/10 transition-colors"
+                        >
+                            <div className="relative h-28 bg-black/30 flex items-center justify-center">
+                                {previewUrl ? (
+                                    <img src={previewUrl} alt="" className="w-full h-full object-cover" loading="lazy" />
+                                ) : (
+                                    <span className="text-4xl">{KIND_ICONS[kind]}</span>
+                                )}
+                                {kind === 'video' && previewUrl && (
+                                    <span className="absolute inset-0 flex items-center justify-center text-3xl">▶️</span>
+                                )}
+                            </div>
+                            <div className="p-2">
+                                <div className="text-sm truncate">{file.name || `Evidence ${i + 1}`}</div>
+                                <div className="text-xs text-gray-500">
+                                    {[file.mimeType, file.size !== null ? formatFileSize(file.size) : null].filter(Boolean).join(' · ') || 'Unknown type'}
+                                </div>
+                            </div>
+                        </button>
+                    );
+                })}
+            </div>
+
+            {current && (
+                <div
+                    className="fixed inset-0 z-50 bg-black/90 flex flex-col"
+                    onClick={close}
+                    role="dialog"
+                    aria-modal="true"
+                >
+                    <div className="flex justify-between items-center p-4 text-sm" onClick={(e) => e.stopPropagation()}>
+                        <span className="truncate text-gray-300">
+                            {current.name || `Evidence ${openIndex! + 1}`}
+                            <span className="text-gray-500 ml-2">{openIndex! + 1} / {evidence.length}</span>
+                        </span>
+                        <div className="flex items-center gap-4 shrink-0">
+                            <a href={current.url} target="_blank" rel="noopener noreferrer" className="text-gray-400 hover:text-white">
+                                Open original ↗
+                            </a>
+                            <button onClick={close} className="text-2xl text-gray-400 hover:text-white" aria-label="Close">×</button>
+                        </div>
+                    </div>
+
+                    <div className="flex-1 flex items-center justify-center px-4 pb-4 gap-4">
+                        {evidence.length > 1 && (
+                            <button
+                                onClick={(e) => { e.stopPropagation(); step(-1); }}
+                                className="text-3xl text-gray-400 hover:text-white"
+                                aria-label="Previous"
+                            >
+                                ‹
+                            </button>
+                        )}
+                        <div className="flex-1 max-w-5xl" onClick={(e) => e.stopPropagation()}>
+                            <Preview key={current.cid} file={current} />
+                        </div>
+                        {evidence.length > 1 && (
+                            <button
+                                onClick={(e) => { e.stopPropagation(); step(1); }}
+                                className="text-3xl text-gray-400 hover:text-white"
+                                aria-label="Next"
+                            >
+                                ›
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+        </>
+    );
+}
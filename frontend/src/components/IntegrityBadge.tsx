@@ -0,0 +1,40 @@
+'use client';
+
+import { ContentIntegrity } from '@/hooks/useContentIntegrity';
+
+const BADGES: Record<ContentIntegrity, { label: string; className: string; title: string }> = {
+    verified: {
+        label: '🔒 Integrity verified',
+        className: 'badge-credible',
+        title: 'The text below hashes to the content hash stored on-chain',
+    },
+    mismatch: {
+        label: '⚠️ Integrity mismatch',
+        className: 'badge-discredited',
+        title: 'The text below does NOT match the content hash stored on-chain',
+    },
+    unverifiable: {
+        label: 'Integrity unverifiable',
+        className: 'badge-locked',
+        title: 'This content hash format cannot be checked in the browser',
+    },
+    unavailable: {
+        label: 'Integrity unavailable',
+        className: 'badge-locked',
+        title: 'The anchored content could not be fetched',
+    },
+    checking: {
+        label: 'Verifying integrity…',
+        className: 'badge-locked',
+        title: 'Re-hashing the content fetched from the gateway',
+    },
+};
+
+export default function IntegrityBadge({ status }: { status: ContentIntegrity }) {
+    const badge = BADGES[status];
+    return (
+        <span className={`badge ${badge.className}`} title={badge.title}>
+            {badge.label}
+        </span>
+    );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import { KeywordPreview } from '@/lib/api';
+
+interface KeywordReviewProps {
+    preview: KeywordPreview;
+    onRemove: (keyword: string, source: 'author' | 'ai') => void;
+    disabled: boolean;
+}
+
+export default function KeywordReview({ preview, onRemove, disabled }: KeywordReviewProps) {
+    return (
+        <div className="glass rounded-lg p-4 border border-primary-500/40">
+            <h3 className="font-semibold mb-1">🏷️ Review keywords</h3>
+            <p className="text-sm text-gray-400 mb-3">
+                These are stored on-chain with your rumor and used for #tag search. Remove any that don&apos;t fit.
+            </p>
+
+            {preview.keywords.length === 0 ? (
+                <p className="text-sm text-gray-500">No keywords — your rumor will only be found by text search.</p>
+            ) : (
+                <div className="flex flex-wrap gap-2">
+                    {preview.keywords.map(({ keyword, source }) => (
+                        <span
+                            key={keyword}
+                            className={`px-3 py-1 rounded-full text-sm flex items-center gap-2 ${
+                                source === 'author' ? 'bg-primary-500/20 text-primary-300' : 'bg-white/10 text-gray-300'
+                            }`}
+                            title={source === 'author' ? 'Added by you' : 'Suggested by AI'}
+                        >
+                            #{keyword}
+                            {source === 'ai' && <span className="text-xs text-gray-500">AI</span>}
+                            <button
+                                onClick={() => onRemove(keyword, source)}
+                                disabled={disabled}
+                                className="text-gray-400 hover:text-red-400 disabled:opacity-50"
+                                aria-label={`Remove ${keyword}`}
+                            >
+                                ×
+                            </button>
+                        </span>
+                    ))}
+                </div>
+            )}
+
+            {preview.rejected.length > 0 && (
+                <ul className="mt-3 text-xs text-yellow-400 space-y-1">
+                    {preview.rejected.map(({ keyword, reason }) => (
+                        <li key={keyword}>&quot;{keyword}&quot; was left out: {reason}</li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,146 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { AuthoredRumor, getMyRumors } from '@/lib/api';
+
+interface MyRumorsProps {
+    token: string;
+}
+
+const PAGE_SIZE = 10;
+
+const FILTERS: { value: AuthoredRumor['status'] | ''; label: string }[] = [
+    { value: '', label: 'All' },
+    { value: 'ACTIVE', label: 'Active' },
+    { value: 'LOCKED', label: 'Locked' },
+    { value: 'VERIFIED', label: 'Verified' },
+    { value: 'DEBUNKED', label: 'Debunked' },
+    { value: 'DELETED', label: 'Deleted' },
+];
+
+const STATUS_BADGES: Record<AuthoredRumor['status'], { className: string; label: string }> = {
+    ACTIVE: { className: 'badge-active', label: 'Active' },
+    LOCKED: { className: 'badge-locked', label: 'Locked' },
+    VERIFIED: { className: 'badge-credible', label: 'Verified' },
+    DEBUNKED: { className: 'badge-discredited', label: 'Debunked' },
+    DELETED: { className: 'badge-new', label: 'Deleted' },
+};
+
+const OUTCOME_LABELS: Record<NonNullable<AuthoredRumor['outcome']>, { label: string; className: string }> = {
+    TRUE: { label: '✅ Verified true', className: 'text-green-400' },
+    FALSE: { label: '❌ Debunked', className: 'text-red-400' },
+    INCONCLUSIVE: { label: '❔ Inconclusive', className: 'text-yellow-400' },
+};
+
+export default function MyRumors({ token }: MyRumorsProps) {
+    const [rumors, setRumors] = useState<AuthoredRumor[]>([]);
+    const [total, setTotal] = useState(0);
+    const [counts, setCounts] = useState<Record<string, number>>({});
+    const [filter, setFilter] = useState<AuthoredRumor['status'] | ''>('');
+    const [page, setPage] = useState(0);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        let cancelled = false;
+        setLoading(true);
+        getMyRumors(token, { status: filter || undefined, limit: PAGE_SIZE, offset: page * PAGE_SIZE })
+            .then((data) => {
+                if (cancelled) return;
+                setRumors(data.rumors);
+                setTotal(data.total);
+                setCounts(data.counts);
+            })
+            .catch(() => { if (!cancelled) setRumors([]); })
+            .finally(() => { if (!cancelled) setLoading(false); });
+        return () => { cancelled = true; };
+    }, [token, filter, page]);
+
+    const pages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+    const allCount = Object.values(counts).reduce((sum, n) => sum + n, 0);
+
+    const selectFilter = (value: AuthoredRumor['status'] | '') => {
+        setFilter(value);
+        setPage(0);
+    };
+
+    return (
+        <div className="card mb-8">
+            <h2 className="text-xl font-semibold mb-1">📝 My Rumors</h2>
+            <p className="text-xs text-gray-500 mb-4">Only you can see this list. Rumors stay anonymous to everyone else.</p>
+
+            <div className="flex flex-wrap gap-2 mb-4">
+                {FILTERS.map(({ value, label }) => (
+                    <button
+                        key={label}
+                        onClick={() => selectFilter(value)}
+                        className={`px-3 py-1 rounded-lg text-sm transition-all ${filter === value ? 'bg-primary-600 text-white' : 'glass text-gray-300'
+                            }`}
+                    >
+                        {label} <span className="opacity-60">{value ? counts[value] ?? 0 : allCount}</span>
+                    </button>
+                ))}
+            </div>
+
+            {loading ? (
+                <div className="space-y-2 animate-pulse">
+                    {[0, 1, 2].map((i) => <div key={i} className="h-14 bg-gray-700 rounded-lg"></div>)}
+                </div>
+            ) : rumors.length === 0 ? (
+                <p className="text-gray-400 text-center py-6">
+                    {filter ? 'No rumors with this status' : 'You have not posted any rumors yet'}
+                </p>
+            ) : (
+                <div className="space-y-2">
+                    {rumors.map((rumor) => {
+                        const badge = STATUS_BADGES[rumor.status];
+                        const outcome = rumor.outcome ? OUTCOME_LABELS[rumor.outcome] : null;
+                        return (
+                            <Link
+                                key={rumor.rumorID}
+                                href={`/rumor/${rumor.rumorID}`}
+                                className="glass rounded-lg p-3 flex items-center justify-between gap-3 hover:bg-white/10 transition-colors"
+                            >
+                                <div className="min-w-0">
+                                    <div className="truncate">
+                                        <span className="text-gray-500 mr-2">#{rumor.rumorID}</span>
+                                        {rumor.title || (rumor.status === 'DELETED' ? 'Deleted rumor' : 'Untitled rumor')}
+                                    </div>
+                                    <div className="text-xs text-gray-500 mt-1">
+                                        {rumor.totalVotes} vote{rumor.totalVotes === 1 ? '' : 's'}
+                                        {' · '}{new Date(rumor.createdAt).toLocaleDateString()}
+                                        {outcome && <span className={outcome.className}> · {outcome.label}</span>}
+                                    </div>
+                                </div>
+                                <div className="text-right shrink-0">
+                                    <span className={`badge ${badge.className}`}>{badge.label}</span>
+                                    <div className="text-sm text-gray-400 mt-1">{rumor.currentConfidence}%</div>
+                                </div>
+                            </Link>
+                        );
+                    })}
+                </div>
+            )}
+
+            {total > PAGE_SIZE && (
+                <div className="flex justify-between items-center mt-4 text-sm">
+                    <button
+                        onClick={() => setPage(page - 1)}
+                        disabled={page === 0 || loading}
+                        className="px-4 py-2 rounded-lg glass text-gray-300 hover:bg-white/10 disabled:opacity-50"
+                    >
+                        ← Newer
+                    </button>
+                    <span className="text-gray-400">Page {page + 1} of {pages}</span>
+                    <button
+                        onClick={() => setPage(page + 1)}
+                        disabled={page + 1 >= pages || loading}
+                        className="px-4 py-2 rounded-lg glass text-gray-300 hover:bg-white/10 disabled:opacity-50"
+                    >
+                        Older →
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
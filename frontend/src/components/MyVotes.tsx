@@ -0,0 +1,113 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { getMyVotes, VoteHistoryEntry } from '@/lib/api';
+import { downloadVoteReceipt } from '@/lib/receipt';
+
+interface MyVotesProps {
+    token: string;
+    // Shown on downloaded receipts
+    walletAddress: string;
+}
+
+const PAGE_SIZE = 10;
+
+const OUTCOME_STYLES: Record<VoteHistoryEntry['outcome'], { label: string; className: string }> = {
+    correct: { label: '✓ Correct', className: 'text-green-400' },
+    incorrect: { label: '✗ Incorrect', className: 'text-red-400' },
+    pending: { label: '⏳ Pending', className: 'text-gray-400' },
+    void: { label: 'Rumor deleted', className: 'text-gray-500' },
+};
+
+export default function MyVotes({ token, walletAddress }: MyVotesProps) {
+    const [votes, setVotes] = useState<VoteHistoryEntry[]>([]);
+    const [total, setTotal] = useState(0);
+    const [page, setPage] = useState(0);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        let cancelled = false;
+        setLoading(true);
+        getMyVotes(token, { limit: PAGE_SIZE, offset: page * PAGE_SIZE })
+            .then((data) => {
+                if (cancelled) return;
+                setVotes(data.votes);
+                setTotal(data.total);
+            })
+            .catch(() => { if (!cancelled) setVotes([]); })
+            .finally(() => { if (!cancelled) setLoading(false); });
+        return () => { cancelled = true; };
+    }, [token, page]);
+
+    const pages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+    return (
+        <div className="card mb-8">
+            <h2 className="text-xl font-semibold mb-4">🗳️ My Votes</h2>
+
+            {loading ? (
+                <div className="space-y-2 animate-pulse">
+                    {[0, 1, 2].map((i) => <div key={i} className="h-14 bg-gray-700 rounded-lg"></div>)}
+                </div>
+            ) : votes.length === 0 ? (
+                <p className="text-gray-400 text-center py-6">You have not voted on any rumors yet</p>
+            ) : (
+                <div className="space-y-2">
+                    {votes.map((vote) => {
+                        const outcome = OUTCOME_STYLES[vote.outcome];
+                        return (
+                            <div key={vote.voteID} className="glass rounded-lg p-3 flex items-center justify-between gap-3">
+                                <div className="min-w-0">
+                                    <Link href={`/rumor/${vote.rumorID}`} className="block truncate hover:text-primary-400">
+                                        <span className="text-gray-500 mr-2">#{vote.rumorID}</span>
+                                        {vote.title || (vote.rumorStatus === 'DELETED' ? 'Deleted rumor' : 'Untitled rumor')}
+                                    </Link>
+                                    <div className="text-xs text-gray-500 mt-1">
+                                        <span className={vote.voteType === 'CONFIRM' ? 'text-green-400' : 'text-red-400'}>
+                                            {vote.voteType === 'CONFIRM' ? 'Confirmed' : 'Disputed'}
+                                        </span>
+                                        {' · '}{vote.weight / 100}% weight
+                                        {' · '}{new Date(vote.timestamp).toLocaleDateString()}
+                                        {vote.txHash && (
+                                            <span className="font-mono"> · {vote.txHash.slice(0, 10)}…</span>
+                                        )}
+                                    </div>
+                                </div>
+                                <div className="text-right shrink-0">
+                                    <div className={`text-sm ${outcome.className}`}>{outcome.label}</div>
+                                    <button
+                                        onClick={() => downloadVoteReceipt({ ...vote, voter: walletAddress })}
+                                        className="text-xs text-primary-400 hover:text-primary-300"
+                                    >
+                                        Receipt
+                                    </button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            {total > PAGE_SIZE && (
+                <div className="flex justify-between items-center mt-4 text-sm">
+                    <button
+                        onClick={() => setPage(page - 1)}
+                        disabled={page === 0 || loading}
+                        className="px-4 py-2 rounded-lg glass text-gray-300 hover:bg-white/10 disabled:opacity-50"
+                    >
+                        ← Newer
+                    </button>
+                    <span className="text-gray-400">Page {page + 1} of {pages}</span>
+                    <button
+                        onClick={() => setPage(page + 1)}
+                        disabled={page + 1 >= pages || loading}
+                        className="px-4 py-2 rounded-lg glass text-gray-300 hover:bg-white/10 disabled:opacity-50"
+                    >
+                        Older →
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -23,6 +23,9 @@ export default function Navbar() {
                         <Link href="/" className={`px-3 py-2 rounded-lg ${isActive('/') ? 'text-primary-400' : 'text-gray-400 hover:text-white'}`}>
                             Home
                         </Link>
+                        <Link href="/leaderboard" className={`px-3 py-2 rounded-lg ${isActive('/leaderboard') ? 'text-primary-400' : 'text-gray-400 hover:text-white'}`}>
+                            Leaderboard
+                        </Link>
                         {isLoggedIn && (
                             <>
                                 <Link href="/submit" className={`px-3 py-2 rounded-lg ${isActive('/submit') ? 'text-primary-400' : 'text-gray-400 hover:text-white'}`}>
@@ -1,6 +1,7 @@
 'use client';
 
 import Link from 'next/link';
+import { useRouter } from 'next/navigation';
 
 interface RumorProps {
     rumor: {
@@ -20,6 +21,16 @@ interface RumorProps {
 }
 
 export default function RumorCard({ rumor }: RumorProps) {
+    const router = useRouter();
+
+    // The card itself is a link, so chips navigate programmatically
+    const openKeywordFeed = (e: React.MouseEvent, keyword: string) => {
+        e.preventDefault();
+        e.stopPropagation();
+        if (rumor.isMock) return;
+        router.push(`/?q=${encodeURIComponent(`#${keyword}`)}`);
+    };
+
     const getStatusBadge = (status: string) => {
         switch (status) {
             case 'ACTIVE':
@@ -74,7 +85,11 @@ export default function RumorCard({ rumor }: RumorProps) {
                 {rumor.keywords.length > 0 && (
                     <div className="flex flex-wrap gap-1 mb-4">
                         {rumor.keywords.slice(0, 4).map((keyword) => (
-                            <span key={keyword} className="text-xs bg-gray-700/50 text-gray-400 px-2 py-0.5 rounded">
+                            <span
+                                key={keyword}
+                                onClick={(e) => openKeywordFeed(e, keyword)}
+                                className="text-xs bg-gray-700/50 text-gray-400 px-2 py-0.5 rounded hover:bg-primary-500/20 hover:text-primary-400"
+                            >
                                 #{keyword}
                             </span>
                         ))}
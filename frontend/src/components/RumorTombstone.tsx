@@ -0,0 +1,52 @@
+'use client';
+
+import { Tombstone } from '@/lib/api';
+import { RumorData } from '@/lib/decoders';
+
+interface RumorTombstoneProps {
+    rumor: RumorData;
+    tombstone: Tombstone | null;
+}
+
+export default function RumorTombstone({ rumor, tombstone }: RumorTombstoneProps) {
+    // Tombstone numbers are frozen at deletion; fall back to the rumor's own if the tombstone is unavailable
+    const finalConfidence = tombstone ? Number(tombstone.finalConfidence) : rumor.currentConfidence;
+    const voteCount = tombstone ? Number(tombstone.voteCount) : rumor.totalConfirmVotes + rumor.totalDisputeVotes;
+
+    return (
+        <div className="card mb-6 border border-gray-700 opacity-90">
+            <div className="flex items-center gap-3 mb-4">
+                <span className="text-4xl">🪦</span>
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-300">Rumor #{rumor.rumorID} was deleted</h1>
+                    <p className="text-gray-500 text-sm">
+                        Removed by its author
+                        {tombstone && ` on ${new Date(tombstone.deletedAt).toLocaleDateString()}`}
+                        . The content is no longer shown; the final on-chain record remains.
+                    </p>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4 text-center">
+                <div className="glass rounded-lg p-4">
+                    <div className={`text-2xl font-bold ${finalConfidence >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                        {finalConfidence > 0 ? '+' : ''}{finalConfidence}%
+                    </div>
+                    <div className="text-sm text-gray-400">Final confidence</div>
+                </div>
+                <div className="glass rounded-lg p-4">
+                    <div className="text-2xl font-bold">{voteCount}</div>
+                    <div className="text-sm text-gray-400">Votes cast</div>
+                </div>
+                <div className="glass rounded-lg p-4">
+                    <div className="text-2xl font-bold">{rumor.createdAt.toLocaleDateString()}</div>
+                    <div className="text-sm text-gray-400">Posted</div>
+                </div>
+            </div>
+
+            <p className="text-xs text-gray-500 mt-4">
+                {rumor.totalConfirmVotes} confirm / {rumor.totalDisputeVotes} dispute
+            </p>
+        </div>
+    );
+}
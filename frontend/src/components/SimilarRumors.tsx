@@ -0,0 +1,53 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getSimilarRumors, SimilarRumor } from '@/lib/api';
+
+interface SimilarRumorsProps {
+    rumorId: number;
+}
+
+export default function SimilarRumors({ rumorId }: SimilarRumorsProps) {
+    const [similar, setSimilar] = useState<SimilarRumor[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        let cancelled = false;
+        setLoading(true);
+        getSimilarRumors(rumorId)
+            .then((rumors) => { if (!cancelled) setSimilar(rumors); })
+            .catch(() => { if (!cancelled) setSimilar([]); })
+            .finally(() => { if (!cancelled) setLoading(false); });
+        return () => { cancelled = true; };
+    }, [rumorId]);
+
+    if (loading || similar.length === 0) return null;
+
+    return (
+        <div className="card mt-6">
+            <h3 className="text-xl font-semibold mb-4">🧭 Similar Rumors</h3>
+            <div className="space-y-2">
+                {similar.map((r) => (
+                    <a
+                        key={r.rumorID}
+                        href={`/rumor/${r.rumorID}`}
+                        className="block glass rounded-lg p-3 hover:bg-white/10 transition-colors"
+                    >
+                        <div className="flex items-center justify-between gap-3">
+                            <span className="truncate">
+                                <span className="text-gray-500 mr-2">#{r.rumorID}</span>
+                                {r.title || 'Untitled rumor'}
+                            </span>
+                            <span className="text-sm text-primary-400 shrink-0">
+                                {Math.round(r.similarity * 100)}% match
+                            </span>
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">
+                            {r.status} · {r.currentConfidence}% confidence
+                        </p>
+                    </a>
+                ))}
+            </div>
+        </div>
+    );
+}
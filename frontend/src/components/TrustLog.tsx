@@ -0,0 +1,74 @@
+'use client';
+
+import { TrustLog as TrustLogData, TrustTransfer } from '@/lib/api';
+
+interface TrustLogProps {
+    log: TrustLogData;
+    // 'sent' on a tombstone, 'received' on a live rumor
+    direction: 'sent' | 'received';
+}
+
+function formatAmount(amount: number) {
+    return `${amount > 0 ? '+' : ''}${amount}`;
+}
+
+function TransferRow({ transfer, direction }: { transfer: TrustTransfer; direction: 'sent' | 'received' }) {
+    const otherID = direction === 'sent' ? transfer.targetRumorID : transfer.sourceRumorID;
+    const applied = transfer.status === 'APPLIED';
+
+    return (
+        <div className="glass rounded-lg p-3 flex items-center justify-between gap-3">
+            <div className="min-w-0">
+                <a href={`/rumor/${otherID}`} className="hover:text-primary-400">
+                    {direction === 'sent' ? '→' : '←'} Rumor #{otherID}
+                </a>
+                <span className={`ml-2 text-xs ${transfer.relationship === 'supportive' ? 'text-green-400' : 'text-red-400'}`}>
+                    {transfer.relationship}
+                </span>
+                <div className="text-xs text-gray-500 mt-1">
+                    {new Date(transfer.createdAt).toLocaleString()}
+                    {transfer.txHash && <> · <span className="font-mono">{transfer.txHash.slice(0, 10)}…</span></>}
+                    {!applied && ` · ${transfer.status.toLowerCase()}${transfer.reason ? `: ${transfer.reason}` : ''}`}
+                </div>
+            </div>
+            <span className={`text-lg font-bold shrink-0 ${
+                !applied ? 'text-gray-500 line-through' : transfer.amount >= 0 ? 'text-green-400' : 'text-red-400'
+            }`}>
+                {formatAmount(transfer.amount)}
+            </span>
+        </div>
+    );
+}
+
+export default function TrustLog({ log, direction }: TrustLogProps) {
+    const transfers = direction === 'sent' ? log.sent : log.received;
+    if (direction === 'received' && transfers.length === 0) return null;
+
+    return (
+        <div className="card mt-6">
+            <h3 className="text-xl font-semibold mb-1">⚖️ Trust Redistribution</h3>
+            <p className="text-sm text-gray-400 mb-4">
+                {direction === 'sent'
+                    ? 'Part of this rumor\'s final confidence was passed on to the rumors it was correlated with.'
+                    : 'Confidence this rumor inherited from correlated rumors that were deleted.'}
+            </p>
+
+            {direction === 'sent' && !log.redistribution && (
+                <p className="text-sm text-gray-500">Redistribution is pending.</p>
+            )}
+            {direction === 'sent' && log.redistribution && transfers.length === 0 && (
+                <p className="text-sm text-gray-500">This rumor had no active correlations when it was deleted.</p>
+            )}
+
+            <div className="space-y-2">
+                {transfers.map((t) => (
+                    <TransferRow key={`${t.sourceRumorID}-${t.targetRumorID}`} transfer={t} direction={direction} />
+                ))}
+            </div>
+
+            {direction === 'sent' && log.redistribution?.status === 'FAILED' && (
+                <p className="text-xs text-yellow-400 mt-3">Some transfers failed and will be retried.</p>
+            )}
+        </div>
+    );
+}
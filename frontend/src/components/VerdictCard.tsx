@@ -0,0 +1,65 @@
+'use client';
+
+import { Verdict } from '@/lib/api';
+
+interface VerdictCardProps {
+    verdict: Verdict;
+}
+
+const OUTCOME_STYLES: Record<Verdict['outcome'], { label: string; className: string }> = {
+    TRUE: { label: '✅ Verified true by the community', className: 'text-green-400' },
+    FALSE: { label: '❌ Debunked by the community', className: 'text-red-400' },
+    INCONCLUSIVE: { label: '❔ Inconclusive', className: 'text-yellow-400' },
+};
+
+export default function VerdictCard({ verdict }: VerdictCardProps) {
+    const { inputs, policy } = verdict;
+    const totalWeight = inputs.weightedConfirm + inputs.weightedDispute;
+    const confirmShare = totalWeight > 0 ? Math.round((inputs.weightedConfirm / totalWeight) * 100) : 0;
+    const style = OUTCOME_STYLES[verdict.outcome];
+
+    return (
+        <div className="card mt-6">
+            <h3 className="text-xl font-semibold mb-1">⚖️ Community Verdict</h3>
+            <div className={`font-medium ${style.className}`}>{style.label}</div>
+            <p className="text-sm text-gray-400 mb-4">
+                {verdict.reason}
+                {verdict.status === 'PENDING' && ' · awaiting on-chain verification'}
+                {verdict.status === 'FAILED' && ' · on-chain verification failed and will be retried'}
+            </p>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center mb-4">
+                <div className="glass rounded-lg p-3">
+                    <div className="text-lg font-bold">{inputs.lockedConfidence}%</div>
+                    <div className="text-xs text-gray-400">Locked confidence</div>
+                </div>
+                <div className="glass rounded-lg p-3">
+                    <div className="text-lg font-bold">{inputs.totalVotes}</div>
+                    <div className="text-xs text-gray-400">Votes (quorum {policy.minVotes})</div>
+                </div>
+                <div className="glass rounded-lg p-3">
+                    <div className="text-lg font-bold text-green-400">{confirmShare}%</div>
+                    <div className="text-xs text-gray-400">Confirm weight</div>
+                </div>
+                <div className="glass rounded-lg p-3">
+                    <div className="text-lg font-bold text-red-400">{totalWeight > 0 ? 100 - confirmShare : 0}%</div>
+                    <div className="text-xs text-gray-400">Dispute weight</div>
+                </div>
+            </div>
+
+            <details className="text-xs text-gray-500">
+                <summary className="cursor-pointer hover:text-gray-300">How this was decided</summary>
+                <p className="mt-2">
+                    True at ≥ {policy.trueThreshold}, false at ≤ {policy.falseThreshold}, with at least {policy.minVotes} votes
+                    and {Math.round(policy.minShare * 100)}% of the vote weight on the winning side. Anything else is inconclusive
+                    and stays locked.
+                </p>
+                <p className="mt-1">
+                    Weighted confirm {inputs.weightedConfirm} / dispute {inputs.weightedDispute} (from VotingSystem.getVoteAnalytics)
+                </p>
+                <p className="mt-1 font-mono break-all">Inputs hash: {verdict.inputsHash}</p>
+                {verdict.txHash && <p className="mt-1 font-mono break-all">batchVerify tx: {verdict.txHash}</p>}
+            </details>
+        </div>
+    );
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getVerificationPreview, OutcomePreview, VerificationPreview as PreviewData } from '@/lib/api';
+
+interface VerificationPreviewProps {
+    rumorId: number;
+    // Adds the caller's own stake to the projection
+    token?: string | null;
+    // Changes whenever the vote count does, so the projection follows new votes
+    voteCount: number;
+}
+
+function formatCred(change: number) {
+    return `${change > 0 ? '+' : change < 0 ? '−' : ''}${Math.abs(change)} CRED`;
+}
+
+function changeColor(change: number) {
+    return change > 0 ? 'text-green-400' : change < 0 ? 'text-red-400' : 'text-gray-400';
+}
+
+function OutcomeColumn({ title, preview }: { title: string; preview: OutcomePreview }) {
+    const { author, confirm, dispute } = preview.cohorts;
+    const rows = [
+        { label: 'Author', detail: '', ...author },
+        { label: 'Confirm voters', detail: `${confirm.count} × `, ...confirm },
+        { label: 'Dispute voters', detail: `${dispute.count} × `, ...dispute },
+    ];
+
+    return (
+        <div className="glass rounded-lg p-4">
+            <h4 className="font-medium mb-3">{title}</h4>
+            <div className="space-y-2 text-sm">
+                {rows.map((row) => (
+                    <div key={row.label} className="flex justify-between gap-3">
+                        <span className="text-gray-400">{row.label}</span>
+                        <span className={changeColor(row.change)}>
+                            <span className="text-gray-500">{row.detail}</span>{formatCred(row.change)}
+                        </span>
+                    </div>
+                ))}
+            </div>
+            <div className="border-t border-white/10 mt-3 pt-2 text-xs text-gray-500 flex justify-between">
+                <span>+{preview.totalRewards} rewarded</span>
+                <span>−{preview.totalPenalties} penalized</span>
+            </div>
+        </div>
+    );
+}
+
+export default function VerificationPreview({ rumorId, token, voteCount }: VerificationPreviewProps) {
+    const [preview, setPreview] = useState<PreviewData | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        getVerificationPreview(rumorId, token)
+            .then((data) => { if (!cancelled) setPreview(data); })
+            .catch(() => { if (!cancelled) setPreview(null); });
+        return () => { cancelled = true; };
+    }, [rumorId, token, voteCount]);
+
+    // Nothing left to project once the outcome is on-chain
+    if (!preview || preview.verified) return null;
+
+    const { you } = preview;
+    const stakeLabel = you && (you.isAuthor || you.vote)
+        ? [you.isAuthor && 'You posted this rumor', you.vote && `you voted ${you.vote === 'CONFIRM' ? 'Confirm' : 'Dispute'}`]
+            .filter(Boolean)
+            .join(' and ')
+        : null;
+
+    return (
+        <div className="card mt-6">
+            <h3 className="text-xl font-semibold mb-1">🔮 What Verification Would Mean</h3>
+            <p className="text-sm text-gray-400 mb-4">
+                Projected credibility changes once this rumor is verified or debunked.
+            </p>
+
+            {stakeLabel && you && (
+                <div className="glass rounded-lg p-3 mb-4 text-sm">
+                    {stakeLabel.charAt(0).toUpperCase() + stakeLabel.slice(1)}:{' '}
+                    <span className={changeColor(you.ifTrue)}>{formatCred(you.ifTrue)}</span> if verified,{' '}
+                    <span className={changeColor(you.ifFalse)}>{formatCred(you.ifFalse)}</span> if debunked
+                </div>
+            )}
+
+            <div className="grid md:grid-cols-2 gap-4">
+                <OutcomeColumn title="✅ If verified true" preview={preview.outcomes.true} />
+                <OutcomeColumn title="❌ If debunked" preview={preview.outcomes.false} />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,173 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getVoteTimeline, VoteTimeline, VoteTimelineMarker } from '@/lib/api';
+
+interface VoteTimelineChartProps {
+    rumorId: number;
+    // Changes on every vote or boost, so the chart follows live updates
+    version: string;
+}
+
+const WIDTH = 640;
+const HEIGHT = 150;
+const PAD = { top: 12, right: 12, bottom: 20, left: 40 };
+
+type Series = { t: number; v: number }[];
+
+// Step path: values hold until the next event
+function stepPath(series: Series, x: (t: number) => number, y: (v: number) => number, end: number) {
+    if (series.length === 0) return '';
+    let d = `M${x(series[0].t)},${y(series[0].v)}`;
+    for (let i = 1; i < series.length; i++) {
+        d += ` H${x(series[i].t)} V${y(series[i].v)}`;
+    }
+    return `${d} H${x(end)}`;
+}
+
+function formatTime(t: number, span: number) {
+    const date = new Date(t);
+    return span > 2 * 24 * 3600 * 1000
+        ? date.toLocaleDateString([], { month: 'short', day: 'numeric' })
+        : date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+function markerLabel(marker: VoteTimelineMarker) {
+    if (marker.type === 'LOCK') return `Locked at ${marker.confidence}%`;
+    const sign = (marker.amount ?? 0) > 0 ? '+' : '';
+    return marker.type === 'CORRELATION_BOOST'
+        ? `Correlation boost ${sign}${marker.amount} (${marker.credibleSupportCount} credible supporters)`
+        : `Trust from a deleted ${marker.relationship} rumor ${sign}${marker.amount}`;
+}
+
+export default function VoteTimelineChart({ rumorId, version }: VoteTimelineChartProps) {
+    const [timeline, setTimeline] = useState<VoteTimeline | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        getVoteTimeline(rumorId)
+            .then((data) => { if (!cancelled) setTimeline(data); })
+            .catch(() => { if (!cancelled) setTimeline(null); });
+        return () => { cancelled = true; };
+    }, [rumorId, version]);
+
+    if (!timeline || timeline.points.length === 0) return null;
+
+    const { points, markers } = timeline;
+    const lock = markers.find((m) => m.type === 'LOCK');
+    const adjustments = markers.filter((m) => m.type !== 'LOCK');
+
+    const start = new Date(timeline.createdAt).getTime();
+    const times = [...points, ...markers].map((e) => new Date(e.timestamp).getTime());
+    const end = lock ? new Date(lock.timestamp).getTime() : Math.max(Date.now(), ...times);
+    const span = Math.max(end - start, 1);
+
+    const x = (t: number) => PAD.left + ((t - start) / span) * (WIDTH - PAD.left - PAD.right);
+    const plotBottom = HEIGHT - PAD.bottom;
+
+    // Cumulative weighted scores
+    const confirm: Series = [{ t: start, v: 0 }];
+    const dispute: Series = [{ t: start, v: 0 }];
+    for (const p of points) {
+        const t = new Date(p.timestamp).getTime();
+        confirm.push({ t, v: p.cumulativeConfirm });
+        dispute.push({ t, v: p.cumulativeDispute });
+    }
+    const maxScore = Math.max(1, ...points.map((p) => Math.max(p.cumulativeConfirm, p.cumulativeDispute)));
+    const yScore = (v: number) => plotBottom - (v / maxScore) * (plotBottom - PAD.top);
+
+    // Confidence after every vote and adjustment, in event order
+    const confidence: Series = [
+        { t: start, v: timeline.initialConfidence },
+        ...[...points, ...adjustments]
+            .map((e) => ({ t: new Date(e.timestamp).getTime(), v: e.confidence }))
+            .sort((a, b) => a.t - b.t),
+    ];
+    const yConf = (v: number) => PAD.top + ((100 - v) / 200) * (plotBottom - PAD.top);
+
+    const axisLabels = [start, start + span / 2, end];
+
+    const lockLine = lock && (
+        <line
+            x1={x(end)} x2={x(end)} y1={PAD.top} y2={plotBottom}
+            stroke="#eab308" strokeDasharray="4 3"
+        >
+            <title>{markerLabel(lock)}</title>
+        </line>
+    );
+
+    const timeAxis = axisLabels.map((t, i) => (
+        <text
+            key={i}
+            x={x(t)}
+            y={HEIGHT - 4}
+            fontSize="10"
+            fill="#6b7280"
+            textAnchor={i === 0 ? 'start' : i === 2 ? 'end' : 'middle'}
+        >
+            {formatTime(t, span)}
+        </text>
+    ));
+
+    return (
+        <div className="card mt-6">
+            <h3 className="text-xl font-semibold mb-1">📈 Vote Timeline</h3>
+            <p className="text-sm text-gray-400 mb-4">
+                {timeline.totalVotes} vote{timeline.totalVotes === 1 ? '' : 's'}, weighted by voter credibility. Voters are not shown.
+            </p>
+
+            <div className="text-xs text-gray-400 flex gap-4 mb-1">
+                <span><span className="text-green-400">━</span> Weighted confirm</span>
+                <span><span className="text-red-400">━</span> Weighted dispute</span>
+            </div>
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Cumulative weighted votes">
+                <line x1={PAD.left} x2={WIDTH - PAD.right} y1={plotBottom} y2={plotBottom} stroke="#374151" />
+                <text x={PAD.left - 6} y={PAD.top + 4} fontSize="10" fill="#6b7280" textAnchor="end">{maxScore}</text>
+                <text x={PAD.left - 6} y={plotBottom} fontSize="10" fill="#6b7280" textAnchor="end">0</text>
+                <path d={stepPath(confirm, x, yScore, end)} fill="none" stroke="#4ade80" strokeWidth="2" />
+                <path d={stepPath(dispute, x, yScore, end)} fill="none" stroke="#f87171" strokeWidth="2" />
+                {points.map((p, i) => (
+                    <circle
+                        key={i}
+                        cx={x(new Date(p.timestamp).getTime())}
+                        cy={yScore(p.voteType === 'CONFIRM' ? p.cumulativeConfirm : p.cumulativeDispute)}
+                        r="3"
+                        fill={p.voteType === 'CONFIRM' ? '#4ade80' : '#f87171'}
+                    >
+                        <title>
+                            {`${p.voteType === 'CONFIRM' ? 'Confirm' : 'Dispute'} +${p.score}`}
+                            {p.voterCredibility !== null ? ` · voter credibility ${p.voterCredibility}+` : ''}
+                            {` · ${new Date(p.timestamp).toLocaleString()}`}
+                        </title>
+                    </circle>
+                ))}
+                {lockLine}
+                {timeAxis}
+            </svg>
+
+            <div className="text-xs text-gray-400 flex flex-wrap gap-4 mt-4 mb-1">
+                <span><span className="text-blue-400">━</span> Confidence</span>
+                {adjustments.length > 0 && <span><span className="text-purple-400">◆</span> Correlation boost / trust transfer</span>}
+                {lock && <span><span className="text-yellow-500">┆</span> Locked</span>}
+            </div>
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Confidence over time">
+                <line x1={PAD.left} x2={WIDTH - PAD.right} y1={yConf(0)} y2={yConf(0)} stroke="#374151" strokeDasharray="2 3" />
+                {[100, 0, -100].map((v) => (
+                    <text key={v} x={PAD.left - 6} y={yConf(v) + 3} fontSize="10" fill="#6b7280" textAnchor="end">{v}%</text>
+                ))}
+                <path d={stepPath(confidence, x, yConf, end)} fill="none" stroke="#60a5fa" strokeWidth="2" />
+                {adjustments.map((m, i) => {
+                    const cx = x(new Date(m.timestamp).getTime());
+                    const cy = yConf(m.confidence);
+                    return (
+                        <path key={i} d={`M${cx},${cy - 5} L${cx + 5},${cy} L${cx},${cy + 5} L${cx - 5},${cy} Z`} fill="#c084fc">
+                            <title>{markerLabel(m)}</title>
+                        </path>
+                    );
+                })}
+                {lockLine}
+                {timeAxis}
+            </svg>
+        </div>
+    );
+}
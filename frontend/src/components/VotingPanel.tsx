@@ -1,7 +1,9 @@
 'use client';
 
-import { useState } from 'react';
-import { RumorData } from '@/hooks/useContracts';
+import { useEffect, useState } from 'react';
+import { RumorData } from '@/lib/decoders';
+import { getVotingAllowance, VoteReceipt, VotingAllowance } from '@/lib/api';
+import { downloadVoteReceipt } from '@/lib/receipt';
 
 interface VotingPanelProps {
     rumor: RumorData;
@@ -9,19 +11,53 @@ interface VotingPanelProps {
     onVote: (voteType: 0 | 1) => Promise<void>;
     isConnected: boolean;
     isAuthor?: boolean;
+    isLive?: boolean;
+    walletAddress?: string;
+    // Set right after the user votes in this session
+    receipt?: VoteReceipt | null;
 }
 
-export default function VotingPanel({ rumor, userVoted, onVote, isConnected, isAuthor }: VotingPanelProps) {
+// RumorRegistry._updateConfidence: initial + confirm score − dispute score, clamped to ±100
+function confidenceFor(rumor: RumorData, confirmScore: number, disputeScore: number) {
+    return Math.max(-100, Math.min(100, rumor.initialConfidence + confirmScore - disputeScore));
+}
+
+export default function VotingPanel({ rumor, userVoted, onVote, isConnected, isAuthor, isLive, walletAddress, receipt }: VotingPanelProps) {
     const [voting, setVoting] = useState(false);
     const [selectedVote, setSelectedVote] = useState<0 | 1 | null>(null);
+    const [allowance, setAllowance] = useState<VotingAllowance | null>(null);
+
+    useEffect(() => {
+        if (!walletAddress) {
+            setAllowance(null);
+            return;
+        }
+        let cancelled = false;
+        getVotingAllowance(walletAddress)
+            .then((data) => { if (!cancelled) setAllowance(data); })
+            .catch(() => { if (!cancelled) setAllowance(null); });
+        return () => { cancelled = true; };
+    }, [walletAddress, userVoted]);
 
     const isActive = rumor.statusName === 'ACTIVE';
     const totalVotes = rumor.totalConfirmVotes + rumor.totalDisputeVotes;
-    const confirmPercent = totalVotes > 0 ? (rumor.totalConfirmVotes / totalVotes * 100).toFixed(0) : 50;
-    const disputePercent = totalVotes > 0 ? (rumor.totalDisputeVotes / totalVotes * 100).toFixed(0) : 50;
+    const totalScore = rumor.weightedConfirmScore + rumor.weightedDisputeScore;
+    const confirmPercent = totalScore > 0 ? (rumor.weightedConfirmScore / totalScore * 100).toFixed(0) : 50;
+    const disputePercent = totalScore > 0 ? (rumor.weightedDisputeScore / totalScore * 100).toFixed(0) : 50;
+
+    const outOfVotes = allowance !== null && allowance.remaining === 0;
+    const noPower = allowance !== null && allowance.weight === 0;
+
+    // A vote recomputes confidence from the totals, dropping any correlation boost on top of them
+    const formulaConfidence = confidenceFor(rumor, rumor.weightedConfirmScore, rumor.weightedDisputeScore);
+    const projected = allowance && selectedVote !== null
+        ? selectedVote === 0
+            ? confidenceFor(rumor, rumor.weightedConfirmScore + allowance.score, rumor.weightedDisputeScore)
+            : confidenceFor(rumor, rumor.weightedConfirmScore, rumor.weightedDisputeScore + allowance.score)
+        : null;
 
     const handleVote = async (type: 0 | 1) => {
-        if (!isConnected || userVoted || !isActive || voting) return;
+        if (!isConnected || userVoted || !isActive || voting || outOfVotes || noPower) return;
 
         setVoting(true);
         setSelectedVote(type);
@@ -29,18 +65,27 @@ export default function VotingPanel({ rumor, userVoted, onVote, isConnected, isA
             await onVote(type);
         } finally {
             setVoting(false);
+            setSelectedVote(null);
         }
     };
 
     return (
         <div className="card">
-            <h3 className="text-xl font-semibold mb-4">🗳️ Vote on this Rumor</h3>
+            <div className="flex justify-between items-center mb-4">
+                <h3 className="text-xl font-semibold">🗳️ Vote on this Rumor</h3>
+                {isLive && (
+                    <span className="text-xs text-green-400 flex items-center gap-1" title="Vote counts update live">
+                        <span className="w-2 h-2 bg-green-400 rounded-full animate-pulse"></span>
+                        Live
+                    </span>
+                )}
+            </div>
 
             {/* Vote Stats */}
             <div className="mb-6">
                 <div className="flex justify-between text-sm mb-2">
-                    <span className="text-green-400">✓ Confirm: {rumor.totalConfirmVotes}</span>
-                    <span className="text-red-400">✗ Dispute: {rumor.totalDisputeVotes}</span>
+                    <span className="text-green-400">✓ Confirm: {rumor.weightedConfirmScore} pts</span>
+                    <span className="text-red-400">✗ Dispute: {rumor.weightedDisputeScore} pts</span>
                 </div>
                 <div className="h-4 bg-gray-700 rounded-full overflow-hidden flex">
                     <div
@@ -53,11 +98,28 @@ export default function VotingPanel({ rumor, userVoted, onVote, isConnected, isA
                     ></div>
                 </div>
                 <div className="flex justify-between text-xs text-gray-500 mt-1">
-                    <span>{confirmPercent}%</span>
-                    <span>{disputePercent}%</span>
+                    <span>{confirmPercent}% · {rumor.totalConfirmVotes} vote{rumor.totalConfirmVotes === 1 ? '' : 's'}</span>
+                    <span>{rumor.totalDisputeVotes} vote{rumor.totalDisputeVotes === 1 ? '' : 's'} · {disputePercent}%</span>
                 </div>
+                {totalVotes > 0 && (
+                    <p className="text-xs text-gray-500 mt-1 text-center">Split by credibility-weighted score, not vote count</p>
+                )}
             </div>
 
+            {/* Your voting power */}
+            {isConnected && allowance && isActive && !isAuthor && !userVoted && (
+                <div className="glass rounded-lg p-3 mb-4 text-sm flex flex-wrap justify-between gap-2">
+                    <span>
+                        Your vote counts <span className="font-semibold">{allowance.score} pts</span>
+                        <span className="text-gray-400"> ({allowance.weight / 100}% weight)</span>
+                    </span>
+                    <span className={outOfVotes ? 'text-yellow-400' : 'text-gray-400'}>
+                        {allowance.remaining}/{allowance.maxVotesPerHour} votes left this hour
+                        {outOfVotes && ` · resets at ${new Date(allowance.resetsAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+                    </span>
+                </div>
+            )}
+
             {/* Voting Buttons */}
             {!isConnected ? (
                 <div className="text-center py-4 text-gray-400">
@@ -84,12 +146,53 @@ export default function VotingPanel({ rumor, userVoted, onVote, isConnected, isA
                         </svg>
                         You have voted on this rumor
                     </div>
+                    {receipt && (
+                        <div className="mt-3 text-xs text-gray-500">
+                            {receipt.blockNumber !== null && <span>Block {receipt.blockNumber} · </span>}
+                            <span className="font-mono">{receipt.txHash ? `${receipt.txHash.slice(0, 10)}…${receipt.txHash.slice(-8)}` : ''}</span>
+                            <button onClick={() => downloadVoteReceipt(receipt)} className="ml-2 text-primary-400 hover:text-primary-300">
+                                Download receipt
+                            </button>
+                        </div>
+                    )}
+                </div>
+            ) : noPower ? (
+                <div className="text-center py-4 text-gray-400">
+                    <p>Your account has no voting power</p>
+                </div>
+            ) : selectedVote !== null && !voting ? (
+                <div className="glass rounded-lg p-4 text-center">
+                    <p className="mb-1">
+                        {selectedVote === 0 ? 'Confirm' : 'Dispute'} this rumor?
+                    </p>
+                    {projected !== null && (
+                        <p className="text-sm text-gray-400 mb-1">
+                            Confidence {rumor.currentConfidence}% → <span className="font-semibold text-white">{projected}%</span>
+                        </p>
+                    )}
+                    {formulaConfidence !== rumor.currentConfidence && (
+                        <p className="text-xs text-gray-500 mb-1">
+                            Votes recompute confidence from the weighted totals, so the current correlation adjustment is dropped.
+                        </p>
+                    )}
+                    <div className="grid grid-cols-2 gap-4 mt-3">
+                        <button onClick={() => setSelectedVote(null)} className="glass rounded-lg py-2 hover:bg-white/10">
+                            Cancel
+                        </button>
+                        <button
+                            onClick={() => handleVote(selectedVote)}
+                            disabled={outOfVotes}
+                            className={`${selectedVote === 0 ? 'btn-confirm' : 'btn-dispute'} py-2 ${outOfVotes ? 'opacity-50 cursor-not-allowed' : ''}`}
+                        >
+                            Cast vote
+                        </button>
+                    </div>
                 </div>
             ) : (
                 <div className="grid grid-cols-2 gap-4">
                     <button
-                        onClick={() => handleVote(0)}
-                        disabled={voting}
+                        onClick={() => setSelectedVote(0)}
+                        disabled={voting || outOfVotes}
                         className={`btn-confirm py-4 text-lg flex items-center justify-center gap-2 ${voting && selectedVote === 0 ? 'opacity-75' : ''
                             }`}
                     >
@@ -103,8 +206,8 @@ export default function VotingPanel({ rumor, userVoted, onVote, isConnected, isA
                         Confirm
                     </button>
                     <button
-                        onClick={() => handleVote(1)}
-                        disabled={voting}
+                        onClick={() => setSelectedVote(1)}
+                        disabled={voting || outOfVotes}
                         className={`btn-dispute py-4 text-lg flex items-center justify-center gap-2 ${voting && selectedVote === 1 ? 'opacity-75' : ''
                             }`}
                     >
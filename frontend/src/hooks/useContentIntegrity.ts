@@ -0,0 +1,61 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getIPFSUrl } from '@/lib/api';
+import { verifyCID, IntegrityStatus } from '@/lib/cid';
+
+export type ContentIntegrity = IntegrityStatus | 'checking' | 'unavailable';
+
+/**
+ * Verify, in the browser, that the content shown for a rumor is what was anchored on-chain.
+ * Fetches the bytes behind contentHash from the gateway, re-hashes them and checks
+ * that the displayed title/description match the verified bytes.
+ * @param contentHash - On-chain content CID
+ * @param content - Content as returned by the backend
+ * @param serverIntegrity - The backend's own verdict (a backend mismatch is final)
+ */
+export function useContentIntegrity(
+    contentHash: string | undefined,
+    content: { title: string; description: string } | null,
+    serverIntegrity?: string
+): ContentIntegrity {
+    const [status, setStatus] = useState<ContentIntegrity>('checking');
+
+    useEffect(() => {
+        if (serverIntegrity === 'mismatch') {
+            setStatus('mismatch');
+            return;
+        }
+        if (!contentHash || !content) {
+            setStatus(contentHash ? 'checking' : 'unavailable');
+            return;
+        }
+
+        let cancelled = false;
+        setStatus('checking');
+
+        (async () => {
+            try {
+                const res = await fetch(getIPFSUrl(contentHash));
+                if (!res.ok) throw new Error(`Gateway returned ${res.status}`);
+                const bytes = new Uint8Array(await res.arrayBuffer());
+
+                let result = await verifyCID(contentHash, bytes);
+                if (result === 'verified') {
+                    const anchored = JSON.parse(new TextDecoder().decode(bytes));
+                    if (anchored.title !== content.title || anchored.description !== content.description) {
+                        result = 'mismatch';
+                    }
+                }
+                if (!cancelled) setStatus(result);
+            } catch (error) {
+                console.error('Integrity check failed:', error);
+                if (!cancelled) setStatus('unavailable');
+            }
+        })();
+
+        return () => { cancelled = true; };
+    }, [contentHash, content, serverIntegrity]);
+
+    return status;
+}
@@ -8,43 +8,22 @@ import {
     RUMOR_REGISTRY_ABI,
     VOTING_SYSTEM_ABI,
     CREDIBILITY_TOKEN_ABI,
+    CORRELATION_MANAGER_ABI,
     CONTRACT_ADDRESSES
 } from '@/lib/contracts';
-
-export interface StudentData {
-    studentID: string;
-    walletAddress: string;
-    credibilityScore: number;
-    status: number;
-    statusName: string;
-    votingPower: number;
-    registeredAt: Date;
-    totalPosts: number;
-    totalVotes: number;
-    accuratePredictions: number;
-    inaccuratePredictions: number;
-}
-
-export interface RumorData {
-    rumorID: number;
-    authorID: number;
-    authorWallet: string;
-    contentHash: string;
-    evidenceHashes: string[];
-    hasEvidence: boolean;
-    initialConfidence: number;
-    currentConfidence: number;
-    status: number;
-    statusName: string;
-    visible: boolean;
-    createdAt: Date;
-    totalConfirmVotes: number;
-    totalDisputeVotes: number;
-    keywords: string[];
-}
-
-const STATUS_NAMES = ['NONE', 'NEW_USER', 'CREDIBLE_USER', 'DISCREDITED', 'BLOCKED'];
-const RUMOR_STATUS_NAMES = ['ACTIVE', 'LOCKED', 'VERIFIED', 'DEBUNKED', 'DELETED'];
+import {
+    StudentData,
+    RumorData,
+    VoteData,
+    CorrelationData,
+    VoteType,
+    VOTE_TYPES,
+    decodeStudent,
+    decodeRumor,
+    decodeVote,
+    decodeCorrelation,
+    enumIndex,
+} from '@/lib/decoders';
 
 export function useContracts() {
     const { signer, provider, isConnected, address } = useWallet();
@@ -53,11 +32,13 @@ export function useContracts() {
         rumorRegistry: ethers.Contract | null;
         votingSystem: ethers.Contract | null;
         credibilityToken: ethers.Contract | null;
+        correlationManager: ethers.Contract | null;
     }>({
         identityRegistry: null,
         rumorRegistry: null,
         votingSystem: null,
         credibilityToken: null,
+        correlationManager: null,
     });
 
     useEffect(() => {
@@ -85,6 +66,13 @@ export function useContracts() {
                     CREDIBILITY_TOKEN_ABI,
                     signerOrProvider
                 ),
+                correlationManager: CONTRACT_ADDRESSES.CORRELATION_MANAGER
+                    ? new ethers.Contract(
+                        CONTRACT_ADDRESSES.CORRELATION_MANAGER,
+                        CORRELATION_MANAGER_ABI,
+                        signerOrProvider
+                    )
+                    : null,
             });
         }
     }, [provider, signer]);
@@ -113,19 +101,7 @@ export function useContracts() {
             const student = await contracts.identityRegistry.getStudent(targetAddress);
             if (student.studentID.toString() === '0') return null;
 
-            return {
-                studentID: student.studentID.toString(),
-                walletAddress: student.walletAddress,
-                credibilityScore: Number(student.credibilityScore),
-                status: Number(student.status),
-                statusName: STATUS_NAMES[Number(student.status)] || 'UNKNOWN',
-                votingPower: Number(student.votingPower),
-                registeredAt: new Date(Number(student.registeredAt) * 1000),
-                totalPosts: Number(student.totalPosts),
-                totalVotes: Number(student.totalVotes),
-                accuratePredictions: Number(student.accuratePredictions),
-                inaccuratePredictions: Number(student.inaccuratePredictions),
-            };
+            return decodeStudent(student);
         } catch (error) {
             console.error('Error getting student:', error);
             return null;
@@ -154,23 +130,7 @@ export function useContracts() {
             const rumor = await contracts.rumorRegistry.getRumor(rumorID);
             if (rumor.rumorID.toString() === '0') return null;
 
-            return {
-                rumorID: Number(rumor.rumorID),
-                authorID: Number(rumor.authorID),
-                authorWallet: rumor.authorWallet,
-                contentHash: rumor.contentHash,
-                evidenceHashes: rumor.evidenceHashes,
-                hasEvidence: rumor.hasEvidence,
-                initialConfidence: Number(rumor.initialConfidence),
-                currentConfidence: Number(rumor.currentConfidence),
-                status: Number(rumor.status),
-                statusName: RUMOR_STATUS_NAMES[Number(rumor.status)] || 'UNKNOWN',
-                visible: rumor.visible,
-                createdAt: new Date(Number(rumor.createdAt) * 1000),
-                totalConfirmVotes: Number(rumor.totalConfirmVotes),
-                totalDisputeVotes: Number(rumor.totalDisputeVotes),
-                keywords: rumor.keywords,
-            };
+            return decodeRumor(rumor);
         } catch (error) {
             console.error('Error getting rumor:', error);
             return null;
@@ -221,11 +181,11 @@ export function useContracts() {
     }, [contracts.rumorRegistry, signer]);
 
     // Vote on rumor
-    const voteOnRumor = useCallback(async (rumorID: number, voteType: 0 | 1): Promise<boolean> => {
+    const voteOnRumor = useCallback(async (rumorID: number, voteType: VoteType): Promise<boolean> => {
         if (!contracts.votingSystem || !signer) throw new Error('Not connected');
 
         try {
-            const tx = await contracts.votingSystem.voteOnRumor(rumorID, voteType);
+            const tx = await contracts.votingSystem.voteOnRumor(rumorID, enumIndex(VOTE_TYPES, voteType));
             await tx.wait();
             return true;
         } catch (error) {
@@ -234,6 +194,37 @@ export function useContracts() {
         }
     }, [contracts.votingSystem, signer]);
 
+    // Get vote
+    const getVote = useCallback(async (voteID: number): Promise<VoteData | null> => {
+        if (!contracts.votingSystem) return null;
+
+        try {
+            const vote = await contracts.votingSystem.getVote(voteID);
+            if (vote.voteID.toString() === '0') return null;
+
+            return decodeVote(vote);
+        } catch (error) {
+            console.error('Error getting vote:', error);
+            return null;
+        }
+    }, [contracts.votingSystem]);
+
+    // Get every correlation recorded for a rumor
+    const getCorrelations = useCallback(async (rumorID: number): Promise<CorrelationData[]> => {
+        if (!contracts.correlationManager) return [];
+
+        try {
+            const hashes: string[] = await contracts.correlationManager.getCorrelations(rumorID);
+            const correlations = await Promise.all(
+                hashes.map((hash) => contracts.correlationManager!.getCorrelation(hash))
+            );
+            return correlations.map(decodeCorrelation);
+        } catch (error) {
+            console.error('Error getting correlations:', error);
+            return [];
+        }
+    }, [contracts.correlationManager]);
+
     // Check if user has voted
     const hasVoted = useCallback(async (rumorID: number, walletAddress?: string): Promise<boolean> => {
         if (!contracts.votingSystem) return false;
@@ -271,7 +262,9 @@ export function useContracts() {
         getTotalRumors,
         createRumor,
         voteOnRumor,
+        getVote,
         hasVoted,
+        getCorrelations,
         getCredibilityBalance,
     };
 }
@@ -0,0 +1,64 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { getStreamUrl } from '@/lib/api';
+import { VoteType } from '@/lib/decoders';
+
+export type RumorStreamEventName = 'RumorCreated' | 'VoteCast' | 'ConfidenceUpdated' | 'RumorLocked';
+
+export interface RumorStreamEvent {
+    type: RumorStreamEventName;
+    rumorID: string;
+    // Indexed rumor snapshot after the event (same shape as GET /api/rumors items)
+    rumor: any;
+    voteType?: VoteType;
+    weight?: string;
+    newConfidence?: string;
+    finalConfidence?: string;
+}
+
+const EVENT_NAMES: RumorStreamEventName[] = ['RumorCreated', 'VoteCast', 'ConfidenceUpdated', 'RumorLocked'];
+
+/**
+ * Subscribe to live rumor events over Server-Sent Events.
+ * @param rumorId - Subscribe to a single rumor, or pass null for the global feed
+ * @param onEvent - Called for every event; the latest callback is always used
+ * @returns Whether the stream is currently connected
+ */
+export function useRumorStream(
+    rumorId: number | null,
+    onEvent: (event: RumorStreamEvent) => void,
+    enabled: boolean = true
+): boolean {
+    const [connected, setConnected] = useState(false);
+    const handlerRef = useRef(onEvent);
+    handlerRef.current = onEvent;
+
+    useEffect(() => {
+        if (!enabled || typeof EventSource === 'undefined') return;
+
+        // EventSource reconnects on its own after network errors
+        const source = new EventSource(getStreamUrl(rumorId ?? undefined));
+
+        source.addEventListener('connected', () => setConnected(true));
+        source.onerror = () => setConnected(false);
+
+        EVENT_NAMES.forEach((type) => {
+            source.addEventListener(type, (message) => {
+                try {
+                    const payload = JSON.parse((message as MessageEvent).data);
+                    handlerRef.current({ type, ...payload });
+                } catch (error) {
+                    console.error('Invalid stream event:', error);
+                }
+            });
+        });
+
+        return () => {
+            source.close();
+            setConnected(false);
+        };
+    }, [rumorId, enabled]);
+
+    return connected;
+}
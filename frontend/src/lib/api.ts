@@ -1,4 +1,8 @@
+import { RumorStatus, UserStatus, VoteType } from '@/lib/decoders';
+
 const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:5000';
+// Any IPFS-style gateway (`<gateway>/<cid>`); the backend serves every configured store
+const IPFS_GATEWAY = process.env.NEXT_PUBLIC_IPFS_GATEWAY || `${BACKEND_URL}/api/content`;
 
 export interface RumorContent {
     title: string;
@@ -7,6 +11,23 @@ export interface RumorContent {
     evidenceHashes: string[];
 }
 
+export interface RumorListResponse {
+    rumors: any[];
+    total: number;
+    counts: Record<string, number>;
+    totalVotes: number;
+}
+
+export interface EvidenceFile {
+    cid: string;
+    url: string;
+    // null for evidence uploaded before metadata was recorded
+    name: string | null;
+    mimeType: string | null;
+    size: number | null;
+    thumbnailUrl: string | null;
+}
+
 export interface PreparedRumor {
     contentHash: string;
     evidenceHashes: string[];
@@ -50,16 +71,66 @@ export async function loginWithToken(token: string): Promise<{ user: any }> {
 
 
 // Rumor APIs
+// Author keywords, plus AI keywords the author removed during review
+export interface KeywordSelection {
+    author: string[];
+    exclude: string[];
+    // Reviewed AI keywords; when set, /create uses them instead of extracting again
+    ai?: string[];
+}
+
+export interface RejectedKeyword {
+    keyword: string;
+    reason: string;
+}
+
+export interface KeywordPreview {
+    keywords: { keyword: string; source: 'author' | 'ai' }[];
+    rejected: RejectedKeyword[];
+}
+
+// The merged keyword list /create will use for a draft
+export async function previewKeywords(title: string, description: string, keywords: KeywordSelection, token: string): Promise<KeywordPreview> {
+    const res = await fetch(`${BACKEND_URL}/api/rumors/keywords`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ title, description, keywords: keywords.author, excludeKeywords: keywords.exclude }),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error);
+    return data;
+}
+
+// What the backend did with each evidence file on upload
+export interface EvidenceReport {
+    name: string;
+    cid: string;
+    metadataRemoved: string[];   // e.g. "GPS location", "camera details"
+    reusedIn: number[];          // rumors already using a perceptually identical image
+}
+
 export async function createRumor(
     title: string,
     description: string,
     evidenceFiles: File[],
-    token: string
-): Promise<{ success: boolean; rumorId: string; contentHash: string }> {
+    token: string,
+    thumbnails: (Blob | null)[] = [],
+    keywords: KeywordSelection = { author: [], exclude: [] }
+): Promise<{ success: boolean; rumorId: string; contentHash: string; keywords: string[]; rejectedKeywords: RejectedKeyword[]; evidenceReport?: EvidenceReport[] }> {
     const formData = new FormData();
     formData.append('title', title);
     formData.append('description', description);
+    formData.append('keywords', JSON.stringify(keywords.author));
+    formData.append('excludeKeywords', JSON.stringify(keywords.exclude));
+    if (keywords.ai) formData.append('aiKeywords', JSON.stringify(keywords.ai));
     evidenceFiles.forEach(file => formData.append('evidence', file));
+    // Thumbnail names carry the index of the evidence file they preview
+    thumbnails.forEach((thumb, i) => {
+        if (thumb) formData.append('thumbnails', thumb, `thumb-${i}.jpg`);
+    });
 
     const res = await fetch(`${BACKEND_URL}/api/rumors/create`, {
         method: 'POST',
@@ -73,7 +144,20 @@ export async function createRumor(
     return data;
 }
 
-export async function voteOnRumor(rumorId: number, voteType: boolean, token: string): Promise<void> {
+// Returned by POST /api/votes; fields from the VoteCast event may be null if it was not found
+export interface VoteReceipt {
+    voteID: string | null;
+    rumorID: string;
+    voteType: VoteType;
+    weight: number | null;
+    voter?: string;
+    txHash: string | null;
+    blockNumber: number | null;
+    timestamp: string | null;
+    votingSystem?: string;
+}
+
+export async function voteOnRumor(rumorId: number, voteType: boolean, token: string): Promise<VoteReceipt | null> {
     const res = await fetch(`${BACKEND_URL}/api/votes`, {
         method: 'POST',
         headers: {
@@ -84,6 +168,7 @@ export async function voteOnRumor(rumorId: number, voteType: boolean, token: str
     });
     const data = await res.json();
     if (!res.ok) throw new Error(data.error);
+    return data.receipt || null;
 }
 
 
@@ -110,7 +195,7 @@ export async function getRumors(options?: {
     limit?: number;
     offset?: number;
     search?: string;
-}): Promise<{ rumors: any[]; total: number }> {
+}): Promise<RumorListResponse> {
     const params = new URLSearchParams();
     if (options?.status) params.append('status', options.status);
     if (options?.limit) params.append('limit', options.limit.toString());
@@ -123,9 +208,11 @@ export async function getRumors(options?: {
     return data;
 }
 
-// Single rumor detail via backend API
-export async function getRumorById(rumorId: number): Promise<any> {
-    const res = await fetch(`${BACKEND_URL}/api/rumors/${rumorId}`);
+// Single rumor detail via backend API; with a token it includes `isAuthor`
+export async function getRumorById(rumorId: number, token?: string | null): Promise<any> {
+    const res = await fetch(`${BACKEND_URL}/api/rumors/${rumorId}`, {
+        headers: token ? { 'Authorization': `Bearer ${token}` } : {},
+    });
     if (!res.ok) {
         if (res.status === 404) return null;
         const data = await res.json();
@@ -134,6 +221,142 @@ export async function getRumorById(rumorId: number): Promise<any> {
     return await res.json();
 }
 
+// What remains of a rumor after its author deletes it
+export interface Tombstone {
+    finalConfidence: string;
+    voteCount: string;
+    deletedAt: string;
+    // From the backend's redistribution log, not the (never set) on-chain flag
+    trustRedistributed: boolean;
+}
+
+// Trust passed from a deleted rumor to a correlated one (off-chain audit log)
+export interface TrustTransfer {
+    sourceRumorID: string;
+    targetRumorID: string;
+    relationship: 'supportive' | 'contradictory';
+    amount: number;
+    status: 'APPLIED' | 'SKIPPED' | 'FAILED';
+    reason: string | null;
+    txHash: string | null;
+    createdAt: string;
+}
+
+export interface TrustLog {
+    redistribution: {
+        finalConfidence: number;
+        voteCount: number;
+        relatedCount: number;
+        status: 'COMPLETED' | 'FAILED';
+        deactivationTxHash: string | null;
+        createdAt: string;
+    } | null;
+    sent: TrustTransfer[];
+    received: TrustTransfer[];
+}
+
+export async function deleteRumor(rumorId: number, token: string): Promise<{ success: boolean; txHash: string; tombstone: Tombstone | null }> {
+    const res = await fetch(`${BACKEND_URL}/api/rumors/${rumorId}`, {
+        method: 'DELETE',
+        headers: {
+            'Authorization': `Bearer ${token}`,
+        },
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error);
+    return data;
+}
+
+// The caller's own rumors (profile). Carries no author ID or wallet.
+export interface AuthoredRumor {
+    rumorID: string;
+    title: string | null;
+    status: RumorStatus;
+    currentConfidence: number;
+    totalVotes: number;
+    createdAt: string;
+    // Null while voting is open, before a verdict, or once deleted
+    outcome: 'TRUE' | 'FALSE' | 'INCONCLUSIVE' | null;
+}
+
+export async function getMyRumors(
+    token: string,
+    { status, limit = 20, offset = 0 }: { status?: string; limit?: number; offset?: number } = {}
+): Promise<{ rumors: AuthoredRumor[]; total: number; counts: Record<AuthoredRumor['status'], number> }> {
+    const params = new URLSearchParams({ limit: String(limit), offset: String(offset) });
+    if (status) params.set('status', status);
+
+    const res = await fetch(`${BACKEND_URL}/api/rumors/mine?${params}`, {
+        headers: {
+            'Authorization': `Bearer ${token}`,
+        },
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error);
+    return data;
+}
+
+// Credibility score over time; only ever served to the student themselves
+export type CredibilityReasonKind = 'AuthorRewarded' | 'AuthorPenalized' | 'VoterRewarded' | 'VoterPenalized';
+
+export interface CredibilityPoint {
+    timestamp: string;
+    oldScore: number;
+    newScore: number;
+    change: number;
+    reason: { kind: CredibilityReasonKind; rumorID: string; title: string | null } | null;
+}
+
+export interface StatusChange {
+    timestamp: string;
+    oldStatus: UserStatus;
+    newStatus: UserStatus;
+}
+
+export interface CredibilityHistory {
+    studentID: string;
+    credibilityScore: number;
+    status: UserStatus;
+    discreditedUntil: string | null;
+    threshold: number;
+    points: CredibilityPoint[];
+    statusChanges: StatusChange[];
+}
+
+export async function getCredibilityHistory(token: string): Promise<CredibilityHistory> {
+    const res = await fetch(`${BACKEND_URL}/api/users/me/credibility-history`, {
+        headers: {
+            'Authorization': `Bearer ${token}`,
+        },
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error);
+    return data;
+}
+
+// Community verdict for a locked rumor, with everything needed to recompute it
+export interface Verdict {
+    rumorID: string;
+    outcome: 'TRUE' | 'FALSE' | 'INCONCLUSIVE';
+    reason: string;
+    inputs: {
+        lockedConfidence: number;
+        totalVotes: number;
+        weightedConfirm: number;
+        weightedDispute: number;
+    };
+    policy: {
+        trueThreshold: number;
+        falseThreshold: number;
+        minVotes: number;
+        minShare: number;
+    };
+    inputsHash: string;
+    status: 'PENDING' | 'SUBMITTED' | 'FAILED' | 'INCONCLUSIVE';
+    txHash: string | null;
+    decidedAt: string;
+}
+
 // User APIs
 export async function getUserProfile(address: string): Promise<any> {
     const res = await fetch(`${BACKEND_URL}/api/users/${address}`);
@@ -152,12 +375,59 @@ export async function getUserStats(address: string): Promise<any> {
     return data;
 }
 
+export interface VoteHistoryEntry {
+    voteID: string;
+    rumorID: string;
+    title: string | null;
+    rumorStatus: string | null;
+    voteType: VoteType;
+    weight: number;
+    timestamp: string;
+    txHash: string | null;
+    blockNumber: number | null;
+    // `void` for deleted rumors, which are never resolved
+    outcome: 'correct' | 'incorrect' | 'pending' | 'void';
+}
+
+// The caller's own votes; only ever served to their token
+export async function getMyVotes(
+    token: string,
+    { limit = 20, offset = 0 }: { limit?: number; offset?: number } = {}
+): Promise<{ votes: VoteHistoryEntry[]; total: number }> {
+    const res = await fetch(`${BACKEND_URL}/api/users/me/votes?limit=${limit}&offset=${offset}`, {
+        headers: {
+            'Authorization': `Bearer ${token}`,
+        },
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error);
+    return data;
+}
+
 export async function checkUserVoted(address: string, rumorId: number): Promise<boolean> {
     const res = await fetch(`${BACKEND_URL}/api/users/${address}/votes/${rumorId}`);
     const data = await res.json();
     return data.voted;
 }
 
+export interface VotingAllowance {
+    // Basis points (10000 = 100%)
+    weight: number;
+    // What one vote adds to the weighted confirm/dispute score
+    score: number;
+    votesThisHour: number;
+    maxVotesPerHour: number;
+    remaining: number;
+    resetsAt: string;
+}
+
+export async function getVotingAllowance(address: string): Promise<VotingAllowance> {
+    const res = await fetch(`${BACKEND_URL}/api/users/${address}/voting-power`);
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error);
+    return data;
+}
+
 // Correlation APIs
 export async function getCorrelations(rumorId: number): Promise<{ supportive: any[]; contradictory: any[] }> {
     const res = await fetch(`${BACKEND_URL}/api/correlations/${rumorId}`);
@@ -166,7 +436,174 @@ export async function getCorrelations(rumorId: number): Promise<{ supportive: an
     return data;
 }
 
+export interface SimilarRumor {
+    rumorID: string;
+    title: string | null;
+    currentConfidence: string;
+    status: RumorStatus;
+    similarity: number;
+}
+
+export async function getSimilarRumors(rumorId: number, k: number = 5): Promise<SimilarRumor[]> {
+    const res = await fetch(`${BACKEND_URL}/api/rumors/${rumorId}/similar?k=${k}`);
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error);
+    return data.similar;
+}
+
+export interface DuplicateRumor extends SimilarRumor {
+    description: string | null;
+    createdAt: string;
+}
+
+// Pre-submit check for existing rumors about the same event
+export async function checkDuplicates(title: string, description: string, token: string): Promise<DuplicateRumor[]> {
+    const res = await fetch(`${BACKEND_URL}/api/rumors/duplicates`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ title, description }),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error);
+    return data.duplicates;
+}
+
+// Projected credibility changes if a rumor were verified true or false
+export interface CohortChange {
+    count: number;
+    change: number;
+}
+
+export interface OutcomePreview {
+    totalRewards: number;
+    totalPenalties: number;
+    cohorts: {
+        author: CohortChange;
+        confirm: CohortChange;
+        dispute: CohortChange;
+    };
+}
+
+export interface VerificationPreview {
+    rumorID: string;
+    status: RumorStatus;
+    verified: { isTrue: boolean } | null;
+    outcomes: { true: OutcomePreview; false: OutcomePreview };
+    you: {
+        isAuthor: boolean;
+        vote: VoteType | null;
+        ifTrue: number;
+        ifFalse: number;
+    } | null;
+}
+
+// With a token, `you` is the caller's own stake
+export async function getVerificationPreview(rumorId: number, token?: string | null): Promise<VerificationPreview> {
+    const res = await fetch(`${BACKEND_URL}/api/verification/${rumorId}/preview`, {
+        headers: token ? { 'Authorization': `Bearer ${token}` } : {},
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error);
+    return data;
+}
+
+// Vote timeline
+export interface VoteTimelinePoint {
+    timestamp: string;
+    voteType: VoteType;
+    weight: number;
+    score: number;
+    // Rounded down to the nearest 10; null when read from the index
+    voterCredibility: number | null;
+    cumulativeConfirm: number;
+    cumulativeDispute: number;
+    confidence: number;
+}
+
+export interface VoteTimelineMarker {
+    type: 'LOCK' | 'CORRELATION_BOOST' | 'TRUST_TRANSFER';
+    timestamp: string;
+    confidence: number;
+    amount?: number;
+    credibleSupportCount?: number;
+    relationship?: 'supportive' | 'contradictory';
+}
+
+export interface VoteTimeline {
+    rumorID: string;
+    status: RumorStatus;
+    createdAt: string;
+    initialConfidence: number;
+    currentConfidence: number;
+    totalVotes: number;
+    points: VoteTimelinePoint[];
+    markers: VoteTimelineMarker[];
+}
+
+export async function getVoteTimeline(rumorId: number): Promise<VoteTimeline> {
+    const res = await fetch(`${BACKEND_URL}/api/rumors/${rumorId}/votes`);
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error);
+    return data;
+}
+
+// Leaderboard (pseudonymous: student IDs only)
+export type LeaderboardBoard = 'accuracy' | 'credibility' | 'improved';
+
+export interface LeaderboardEntry {
+    rank: number;
+    studentID: string;
+    status: UserStatus;
+    credibilityScore: number;
+    accuratePredictions: number;
+    inaccuratePredictions: number;
+    // Percent with one decimal; null before any prediction resolves
+    accuracy: number | null;
+    // Net credibility change over the last 7 days (improved board only)
+    weeklyChange?: number;
+}
+
+export async function getLeaderboard(board: LeaderboardBoard, limit = 25): Promise<{ board: LeaderboardBoard; minResolved: number; entries: LeaderboardEntry[] }> {
+    const res = await fetch(`${BACKEND_URL}/api/leaderboard?board=${board}&limit=${limit}`);
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error);
+    return data;
+}
+
+export async function getLeaderboardListing(token: string): Promise<{ studentID: string; optedOut: boolean }> {
+    const res = await fetch(`${BACKEND_URL}/api/leaderboard/me`, {
+        headers: {
+            'Authorization': `Bearer ${token}`,
+        },
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error);
+    return data;
+}
+
+export async function setLeaderboardOptOut(token: string, optedOut: boolean): Promise<{ studentID: string; optedOut: boolean }> {
+    const res = await fetch(`${BACKEND_URL}/api/leaderboard/me`, {
+        method: 'PUT',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ optedOut }),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error);
+    return data;
+}
+
+// Live updates (Server-Sent Events)
+export function getStreamUrl(rumorId?: number): string {
+    return rumorId ? `${BACKEND_URL}/api/stream/rumors/${rumorId}` : `${BACKEND_URL}/api/stream`;
+}
+
 // IPFS Gateway URL
 export function getIPFSUrl(hash: string): string {
-    return `https://gateway.pinata.cloud/ipfs/${hash}`;
+    return `${IPFS_GATEWAY}/${hash}`;
 }
@@ -0,0 +1,158 @@
+// Browser-side CID computation, mirroring backend/src/services/cidService.js.
+// Lets the UI check that fetched bytes hash to the contentHash anchored on-chain.
+
+export type IntegrityStatus = 'verified' | 'mismatch' | 'unverifiable';
+
+// UnixFS importer defaults (kubo)
+const CHUNK_SIZE = 262144;
+const MAX_LINKS = 174;
+const UNIXFS_FILE = 2;
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+    const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+}
+
+function base32(bytes: Uint8Array): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    for (let i = 0; i < bytes.length; i++) {
+        value = (value << 8) | bytes[i];
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    return output;
+}
+
+function base58(bytes: Uint8Array): string {
+    const digits = [0];
+    for (let b = 0; b < bytes.length; b++) {
+        let carry = bytes[b];
+        for (let i = 0; i < digits.length; i++) {
+            carry += digits[i] << 8;
+            digits[i] = carry % 58;
+            carry = Math.floor(carry / 58);
+        }
+        while (carry > 0) {
+            digits.push(carry % 58);
+            carry = Math.floor(carry / 58);
+        }
+    }
+    let output = '';
+    for (let i = 0; i < bytes.length && bytes[i] === 0; i++) output += '1';
+    for (let i = digits.length - 1; i >= 0; i--) output += BASE58_ALPHABET[digits[i]];
+    return output;
+}
+
+async function sha256Multihash(bytes: Uint8Array): Promise<Uint8Array> {
+    // Copy into a plain ArrayBuffer-backed view (subarrays may share larger buffers)
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new Uint8Array(bytes)));
+    return concat([new Uint8Array([0x12, 0x20]), digest]);
+}
+
+function varint(value: number): Uint8Array {
+    const bytes: number[] = [];
+    while (value >= 0x80) {
+        bytes.push((value % 0x80) | 0x80);
+        value = Math.floor(value / 0x80);
+    }
+    bytes.push(value);
+    return new Uint8Array(bytes);
+}
+
+function varintField(field: number, value: number): Uint8Array {
+    return concat([varint(field << 3), varint(value)]);
+}
+
+function bytesField(field: number, bytes: Uint8Array): Uint8Array {
+    return concat([varint((field << 3) | 2), varint(bytes.length), bytes]);
+}
+
+interface DagNode {
+    multihash: Uint8Array;
+    filesize: number;
+    tsize: number;
+}
+
+function unixfsData(filesize: number, data?: Uint8Array, blocksizes: number[] = []): Uint8Array {
+    return concat([
+        varintField(1, UNIXFS_FILE),
+        data && data.length > 0 ? bytesField(2, data) : new Uint8Array(0),
+        varintField(3, filesize),
+        ...blocksizes.map((size) => varintField(4, size)),
+    ]);
+}
+
+// dag-pb serializes Links (field 2) before Data (field 1)
+function dagPbNode(links: DagNode[], data: Uint8Array): Uint8Array {
+    return concat([
+        ...links.map((link) => bytesField(2, concat([
+            bytesField(1, link.multihash),
+            bytesField(2, new Uint8Array(0)),
+            varintField(3, link.tsize),
+        ]))),
+        bytesField(1, data),
+    ]);
+}
+
+async function unixfsRoot(bytes: Uint8Array): Promise<DagNode> {
+    const leaf = async (chunk: Uint8Array): Promise<DagNode> => {
+        const serialized = dagPbNode([], unixfsData(chunk.length, chunk));
+        return { multihash: await sha256Multihash(serialized), filesize: chunk.length, tsize: serialized.length };
+    };
+
+    if (bytes.length <= CHUNK_SIZE) return leaf(bytes);
+
+    let level: DagNode[] = [];
+    for (let offset = 0; offset < bytes.length; offset += CHUNK_SIZE) {
+        level.push(await leaf(bytes.subarray(offset, offset + CHUNK_SIZE)));
+    }
+
+    while (level.length > 1) {
+        const parents: DagNode[] = [];
+        for (let i = 0; i < level.length; i += MAX_LINKS) {
+            const children = level.slice(i, i + MAX_LINKS);
+            const filesize = children.reduce((sum, c) => sum + c.filesize, 0);
+            const serialized = dagPbNode(children, unixfsData(filesize, undefined, children.map((c) => c.filesize)));
+            parents.push({
+                multihash: await sha256Multihash(serialized),
+                filesize,
+                tsize: serialized.length + children.reduce((sum, c) => sum + c.tsize, 0),
+            });
+        }
+        level = parents;
+    }
+
+    return level[0];
+}
+
+/** CIDv1 (raw, sha2-256) in base32 ("bafkrei…") */
+export async function computeCID(bytes: Uint8Array): Promise<string> {
+    return 'b' + base32(concat([new Uint8Array([0x01, 0x55]), await sha256Multihash(bytes)]));
+}
+
+/** CIDv0 ("Qm…") that `ipfs add` assigns with default settings */
+export async function computeCIDv0(bytes: Uint8Array): Promise<string> {
+    return base58((await unixfsRoot(bytes)).multihash);
+}
+
+/** Check bytes against the CID they were fetched by */
+export async function verifyCID(cid: string, bytes: Uint8Array): Promise<IntegrityStatus> {
+    if (typeof crypto === 'undefined' || !crypto.subtle) return 'unverifiable';
+    if (cid.startsWith('Qm')) return (await computeCIDv0(bytes)) === cid ? 'verified' : 'mismatch';
+    if (cid.startsWith('bafkrei')) return (await computeCID(bytes)) === cid ? 'verified' : 'mismatch';
+    return 'unverifiable';
+}
@@ -49,6 +49,16 @@ export const VOTING_SYSTEM_ABI = [
     "function voteOnRumor(uint256 rumorID, uint8 voteType) external returns (uint256)",
 ];
 
+export const CORRELATION_MANAGER_ABI = [
+    // Events
+    "event CorrelationAdded(uint256 indexed rumorA, uint256 indexed rumorB, uint8 relationshipType, uint256 aiConfidence)",
+
+    // Read functions
+    "function getCorrelations(uint256 rumorID) view returns (bytes32[])",
+    "function getCorrelation(bytes32 correlationHash) view returns (tuple(uint256 rumorA, uint256 rumorB, uint8 relationshipType, uint256 aiConfidence, bool active, uint256 createdAt))",
+    "function getRelatedRumors(uint256 rumorID) view returns (uint256[] supportive, uint256[] contradictory)",
+];
+
 export const CREDIBILITY_TOKEN_ABI = [
     "function balanceOf(address account) view returns (uint256)",
     "function totalSupply() view returns (uint256)",
@@ -61,4 +71,5 @@ export const CONTRACT_ADDRESSES = {
     CREDIBILITY_TOKEN: process.env.NEXT_PUBLIC_CREDIBILITY_TOKEN_ADDRESS || '',
     RUMOR_REGISTRY: process.env.NEXT_PUBLIC_RUMOR_REGISTRY_ADDRESS || '',
     VOTING_SYSTEM: process.env.NEXT_PUBLIC_VOTING_SYSTEM_ADDRESS || '',
+    CORRELATION_MANAGER: process.env.NEXT_PUBLIC_CORRELATION_MANAGER_ADDRESS || '',
 };
@@ -0,0 +1,207 @@
+// Contract enums and struct decoders shared by the hooks and pages.
+// Enum names and struct field lists come from lib/generated/contractTypes.ts
+// (generated from contracts/*.sol); decoders accept either an ethers Result
+// straight from a contract call or the backend's JSON for the same struct.
+
+import {
+    USER_STATUSES,
+    RUMOR_STATUSES,
+    VOTE_TYPES,
+    RELATIONSHIP_TYPES,
+    UserStatus,
+    RumorStatus,
+    VoteType,
+    RelationshipType,
+    STUDENT_FIELDS,
+    RUMOR_FIELDS,
+    VOTE_FIELDS,
+    CORRELATION_FIELDS,
+} from '@/lib/generated/contractTypes';
+
+export * from '@/lib/generated/contractTypes';
+
+export interface StudentData {
+    studentID: string;
+    walletAddress: string;
+    credibilityScore: number;
+    status: number;
+    statusName: UserStatus;
+    votingPower: number;
+    registeredAt: Date;
+    totalPosts: number;
+    totalVotes: number;
+    accuratePredictions: number;
+    inaccuratePredictions: number;
+    // Null unless the student has been discredited
+    discreditedUntil: Date | null;
+}
+
+// The author is left out: the backend never serves it, and the UI must not show it
+export interface RumorData {
+    rumorID: number;
+    contentHash: string;
+    evidenceHashes: string[];
+    hasEvidence: boolean;
+    initialConfidence: number;
+    currentConfidence: number;
+    status: number;
+    statusName: RumorStatus;
+    visible: boolean;
+    createdAt: Date;
+    totalConfirmVotes: number;
+    totalDisputeVotes: number;
+    // Sums of voterWeight / 100 per side; these drive confidence, not the raw counts
+    weightedConfirmScore: number;
+    weightedDisputeScore: number;
+    keywords: string[];
+}
+
+export interface VoteData {
+    voteID: number;
+    rumorID: number;
+    voterID: number;
+    voterWallet: string;
+    voteType: number;
+    voteTypeName: VoteType;
+    // Basis points at the time of the vote
+    voterWeight: number;
+    voterCredibility: number;
+    timestamp: Date;
+}
+
+export interface CorrelationData {
+    rumorA: number;
+    rumorB: number;
+    relationshipType: number;
+    relationshipName: RelationshipType;
+    aiConfidence: number;
+    active: boolean;
+    createdAt: Date;
+}
+
+type Numeric = bigint | number | string;
+
+// A struct as returned by its getter; reading a field the contract dropped fails to compile
+type RawStruct<F extends readonly string[]> = { [K in F[number]]?: any };
+
+const MAX_SAFE = BigInt(Number.MAX_SAFE_INTEGER);
+
+/**
+ * uint256/int256 (bigint, number or decimal string) to a JS number.
+ * Throws instead of silently losing precision past 2^53.
+ */
+export function toSafeNumber(value: Numeric): number {
+    const big = typeof value === 'bigint' ? value : BigInt(typeof value === 'number' ? Math.trunc(value) : value.trim());
+    if (big > MAX_SAFE || big < -MAX_SAFE) {
+        throw new RangeError(`${big} does not fit in a JS number`);
+    }
+    return Number(big);
+}
+
+// IDs that are only displayed or passed back to the API stay exact as strings
+export function toIdString(value: Numeric): string {
+    return (typeof value === 'bigint' ? value : BigInt(value)).toString();
+}
+
+/**
+ * Unix seconds from the chain, or an ISO string from the backend
+ */
+export function toDate(value: Numeric | Date): Date {
+    if (value instanceof Date) return value;
+    if (typeof value === 'string' && !/^\d+$/.test(value.trim())) return new Date(value);
+    return new Date(toSafeNumber(value) * 1000);
+}
+
+// Timestamps the contracts leave at 0 until set
+export function toOptionalDate(value: Numeric | Date | null | undefined): Date | null {
+    if (value === null || value === undefined || value === '') return null;
+    const date = toDate(value);
+    return date.getTime() === 0 ? null : date;
+}
+
+/**
+ * Enum name from an on-chain index (uint8) or an already-decoded name
+ */
+export function decodeEnum<T extends string>(names: readonly T[], value: Numeric | T): T {
+    if (typeof value === 'string' && (names as readonly string[]).includes(value)) return value as T;
+    const name = names[toSafeNumber(value)];
+    if (name === undefined) {
+        throw new RangeError(`Unknown enum value ${value} (expected one of ${names.join(', ')})`);
+    }
+    return name;
+}
+
+// Index to send to a contract for an enum name
+export function enumIndex<T extends string>(names: readonly T[], name: T): number {
+    const index = names.indexOf(name);
+    if (index === -1) throw new RangeError(`Unknown enum name ${name}`);
+    return index;
+}
+
+export function decodeStudent(raw: RawStruct<typeof STUDENT_FIELDS>): StudentData {
+    const statusName = decodeEnum(USER_STATUSES, raw.status);
+    return {
+        studentID: toIdString(raw.studentID),
+        walletAddress: raw.walletAddress,
+        credibilityScore: toSafeNumber(raw.credibilityScore),
+        status: enumIndex(USER_STATUSES, statusName),
+        statusName,
+        votingPower: toSafeNumber(raw.votingPower),
+        registeredAt: toDate(raw.registeredAt),
+        totalPosts: toSafeNumber(raw.totalPosts),
+        totalVotes: toSafeNumber(raw.totalVotes),
+        accuratePredictions: toSafeNumber(raw.accuratePredictions),
+        inaccuratePredictions: toSafeNumber(raw.inaccuratePredictions),
+        discreditedUntil: toOptionalDate(raw.discreditedUntil),
+    };
+}
+
+export function decodeRumor(raw: RawStruct<typeof RUMOR_FIELDS>): RumorData {
+    const statusName = decodeEnum(RUMOR_STATUSES, raw.status);
+    return {
+        rumorID: toSafeNumber(raw.rumorID),
+        contentHash: raw.contentHash,
+        evidenceHashes: [...(raw.evidenceHashes || [])],
+        hasEvidence: raw.hasEvidence,
+        // Older stream snapshots carry no initial confidence
+        initialConfidence: toSafeNumber(raw.initialConfidence ?? raw.currentConfidence),
+        currentConfidence: toSafeNumber(raw.currentConfidence),
+        status: enumIndex(RUMOR_STATUSES, statusName),
+        statusName,
+        visible: raw.visible,
+        createdAt: toDate(raw.createdAt),
+        totalConfirmVotes: toSafeNumber(raw.totalConfirmVotes),
+        totalDisputeVotes: toSafeNumber(raw.totalDisputeVotes),
+        weightedConfirmScore: toSafeNumber(raw.weightedConfirmScore ?? 0),
+        weightedDisputeScore: toSafeNumber(raw.weightedDisputeScore ?? 0),
+        keywords: [...(raw.keywords || [])],
+    };
+}
+
+export function decodeVote(raw: RawStruct<typeof VOTE_FIELDS>): VoteData {
+    const voteTypeName = decodeEnum(VOTE_TYPES, raw.voteType);
+    return {
+        voteID: toSafeNumber(raw.voteID),
+        rumorID: toSafeNumber(raw.rumorID),
+        voterID: toSafeNumber(raw.voterID),
+        voterWallet: raw.voterWallet,
+        voteType: enumIndex(VOTE_TYPES, voteTypeName),
+        voteTypeName,
+        voterWeight: toSafeNumber(raw.voterWeight),
+        voterCredibility: toSafeNumber(raw.voterCredibility),
+        timestamp: toDate(raw.timestamp),
+    };
+}
+
+export function decodeCorrelation(raw: RawStruct<typeof CORRELATION_FIELDS>): CorrelationData {
+    const relationshipName = decodeEnum(RELATIONSHIP_TYPES, raw.relationshipType);
+    return {
+        rumorA: toSafeNumber(raw.rumorA),
+        rumorB: toSafeNumber(raw.rumorB),
+        relationshipType: enumIndex(RELATIONSHIP_TYPES, relationshipName),
+        relationshipName,
+        aiConfidence: toSafeNumber(raw.aiConfidence),
+        active: raw.active,
+        createdAt: toDate(raw.createdAt),
+    };
+}
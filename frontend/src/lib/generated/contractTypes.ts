@@ -0,0 +1,33 @@
+// Generated by scripts/generate-contract-types.js from contracts/*.sol. Do not edit.
+// Run `npm run generate:types` from the repo root after changing a contract enum or struct.
+
+// CorrelationManager.sol: RelationshipType
+export const RELATIONSHIP_TYPES = ['SUPPORTIVE', 'CONTRADICTORY'] as const;
+export type RelationshipType = (typeof RELATIONSHIP_TYPES)[number];
+
+// IdentityRegistry.sol: UserStatus
+export const USER_STATUSES = ['NONE', 'NEW_USER', 'CREDIBLE_USER', 'DISCREDITED', 'BLOCKED'] as const;
+export type UserStatus = (typeof USER_STATUSES)[number];
+
+// RumorRegistry.sol: RumorStatus
+export const RUMOR_STATUSES = ['ACTIVE', 'LOCKED', 'VERIFIED', 'DEBUNKED', 'DELETED'] as const;
+export type RumorStatus = (typeof RUMOR_STATUSES)[number];
+
+// VotingSystem.sol: VoteType
+export const VOTE_TYPES = ['CONFIRM', 'DISPUTE'] as const;
+export type VoteType = (typeof VOTE_TYPES)[number];
+
+// CorrelationManager.sol: Correlation struct layout (a public mapping getter omits its array fields)
+export const CORRELATION_FIELDS = ['rumorA', 'rumorB', 'relationshipType', 'aiConfidence', 'active', 'createdAt'] as const;
+
+// IdentityRegistry.sol: Student struct layout (a public mapping getter omits its array fields)
+export const STUDENT_FIELDS = ['studentID', 'walletAddress', 'emailHMAC', 'credibilityScore', 'status', 'votingPower', 'registeredAt', 'totalPosts', 'totalVotes', 'accuratePredictions', 'inaccuratePredictions', 'discreditedUntil', 'postsToday', 'lastPostDate', 'votesThisHour', 'lastVoteHour'] as const;
+
+// RumorRegistry.sol: Rumor struct layout (a public mapping getter omits its array fields)
+export const RUMOR_FIELDS = ['rumorID', 'authorID', 'authorWallet', 'contentHash', 'evidenceHashes', 'hasEvidence', 'initialConfidence', 'currentConfidence', 'lockedConfidence', 'status', 'visible', 'createdAt', 'lockedAt', 'totalConfirmVotes', 'totalDisputeVotes', 'weightedConfirmScore', 'weightedDisputeScore', 'keywords'] as const;
+
+// RumorRegistry.sol: Tombstone struct layout (a public mapping getter omits its array fields)
+export const TOMBSTONE_FIELDS = ['originalRumorID', 'finalConfidence', 'voteCount', 'relatedRumorIDs', 'deletedAt', 'deletedBy', 'trustRedistributed'] as const;
+
+// VotingSystem.sol: Vote struct layout (a public mapping getter omits its array fields)
+export const VOTE_FIELDS = ['voteID', 'rumorID', 'voterID', 'voterWallet', 'voteType', 'voterWeight', 'voterCredibility', 'timestamp'] as const;
@@ -0,0 +1,22 @@
+// Keyword normalization, kept identical to normalizeKeyword in
+// backend/src/services/keywordService.js so the author's list and the
+// reviewed (server-normalized) list use the same spelling.
+
+// Built at runtime: the tsconfig target predates the `u` flag
+const NON_KEYWORD_CHARS = new RegExp('[^\\p{L}\\p{N}-]', 'gu');
+
+/**
+ * Lowercase, no leading '#', spaces become '-', only letters, digits and '-' kept.
+ * Returns '' if nothing usable remains.
+ */
+export function normalizeKeyword(keyword: string): string {
+    return keyword
+        .normalize('NFKC')
+        .toLowerCase()
+        .trim()
+        .replace(/^#+/, '')
+        .replace(/\s+/g, '-')
+        .replace(NON_KEYWORD_CHARS, '')
+        .replace(/-{2,}/g, '-')
+        .replace(/^-|-$/g, '');
+}
@@ -0,0 +1,16 @@
+// Vote receipts, downloaded as JSON so voters can prove how they voted
+
+import { VoteReceipt } from './api';
+
+export function downloadVoteReceipt(receipt: VoteReceipt) {
+    const blob = new Blob([JSON.stringify(receipt, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `vote-receipt-rumor-${receipt.rumorID}${receipt.voteID ? `-vote-${receipt.voteID}` : ''}.json`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,76 @@
+// Browser-side evidence thumbnails (uploaded next to the evidence files)
+
+const MAX_DIMENSION = 320;
+const JPEG_QUALITY = 0.7;
+const VIDEO_TIMEOUT_MS = 5000;
+
+function drawToJpeg(source: CanvasImageSource, width: number, height: number): Promise<Blob | null> {
+    const scale = Math.min(1, MAX_DIMENSION / Math.max(width, height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+
+    const context = canvas.getContext('2d');
+    if (!context) return Promise.resolve(null);
+    context.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+    return new Promise((resolve) => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+}
+
+function imageThumbnail(url: string): Promise<Blob | null> {
+    return new Promise((resolve) => {
+        const img = new Image();
+        img.onload = () => drawToJpeg(img, img.naturalWidth, img.naturalHeight).then(resolve);
+        img.onerror = () => resolve(null);
+        img.src = url;
+    });
+}
+
+function videoThumbnail(url: string): Promise<Blob | null> {
+    return new Promise((resolve) => {
+        const video = document.createElement('video');
+        // Zero-length or undecodable videos may never seek; give up rather than hold the submission
+        const timer = setTimeout(() => finish(null), VIDEO_TIMEOUT_MS);
+        const finish = (blob: Blob | null) => {
+            clearTimeout(timer);
+            video.onloadedmetadata = video.onseeked = video.onerror = null;
+            video.removeAttribute('src');
+            resolve(blob);
+        };
+
+        video.muted = true;
+        video.preload = 'auto';
+        video.onloadedmetadata = () => {
+            // A frame slightly in avoids black first frames
+            video.currentTime = Math.min(1, video.duration / 2 || 0);
+        };
+        video.onseeked = () => drawToJpeg(video, video.videoWidth, video.videoHeight).then(finish, () => finish(null));
+        video.onerror = () => finish(null);
+        video.src = url;
+    });
+}
+
+/**
+ * Create a small JPEG preview for an image or video file.
+ * Returns null for other types (e.g. PDFs) or when the file cannot be decoded.
+ */
+export async function createThumbnail(file: File): Promise<Blob | null> {
+    const isImage = file.type.startsWith('image/');
+    const isVideo = file.type.startsWith('video/');
+    if (!isImage && !isVideo) return null;
+
+    const url = URL.createObjectURL(file);
+    try {
+        return await (isImage ? imageThumbnail(url) : videoThumbnail(url));
+    } catch {
+        return null;
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+}
+
+export function formatFileSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
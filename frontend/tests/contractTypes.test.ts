@@ -0,0 +1,75 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { parseContracts, render, checkAbis, readAbiSources, OUTPUT } from '../../scripts/generate-contract-types';
+
+const FRONTEND_ABI = 'frontend/src/lib/contracts.ts';
+
+// ABI sources with one replacement applied to the frontend ABI
+function withFrontendAbi(search: string, replacement: string) {
+    return readAbiSources().map(({ relative, source }) => {
+        if (relative !== FRONTEND_ABI) return { relative, source };
+        expect(source).toContain(search);
+        return { relative, source: source.replace(search, replacement) };
+    });
+}
+
+describe('generated contract types', () => {
+    it('are up to date with contracts/*.sol', () => {
+        expect(fs.readFileSync(OUTPUT, 'utf8')).toBe(render(parseContracts()));
+    });
+
+    it('list enum values in declaration order', () => {
+        const { enums, structs } = parseContracts();
+        expect(enums.get('UserStatus')?.values).toEqual(['NONE', 'NEW_USER', 'CREDIBLE_USER', 'DISCREDITED', 'BLOCKED']);
+        expect(enums.get('RumorStatus')?.values[3]).toBe('DEBUNKED');
+        expect(structs.get('Rumor')?.fields[0]).toEqual({ type: 'uint256', name: 'rumorID' });
+    });
+});
+
+describe('ABI drift check', () => {
+    it('passes for the ABIs in the tree', () => {
+        const { problems, checked } = checkAbis(parseContracts());
+        expect(problems).toEqual([]);
+        expect(checked).toBeGreaterThan(0);
+    });
+
+    it('reports reordered tuple fields', () => {
+        const sources = withFrontendAbi(
+            'int256 initialConfidence, int256 currentConfidence',
+            'int256 currentConfidence, int256 initialConfidence'
+        );
+        const { problems } = checkAbis(parseContracts(), sources);
+
+        expect(problems).toHaveLength(1);
+        expect(problems[0]).toContain(`${FRONTEND_ABI}: getRumor tuple does not match RumorRegistry.sol struct Rumor`);
+    });
+
+    it('reports a changed field type', () => {
+        const sources = withFrontendAbi('uint8 status, bool visible', 'uint256 status, bool visible');
+        const { problems } = checkAbis(parseContracts(), sources);
+
+        expect(problems).toHaveLength(1);
+        expect(problems[0]).toContain('getRumor');
+    });
+
+    it('reports a field the struct gained', () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'contracts-'));
+        try {
+            fs.writeFileSync(path.join(dir, 'Registry.sol'), `
+                contract Registry {
+                    enum Level { LOW, HIGH }
+                    struct Item { uint256 itemID; Level level; string note; }
+                }
+            `);
+            const sources = [{ relative: 'fixture.js', source: 'function getItem(uint256 id) view returns (tuple(uint256 itemID, uint8 level))' }];
+            const { problems, checked } = checkAbis(parseContracts(dir), sources);
+
+            expect(checked).toBe(1);
+            expect(problems).toHaveLength(1);
+            expect(problems[0]).toContain('expected: uint256 itemID, uint8 level, string note');
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
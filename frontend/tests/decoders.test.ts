@@ -0,0 +1,210 @@
+import {
+    RUMOR_STATUSES,
+    USER_STATUSES,
+    VOTE_TYPES,
+    decodeEnum,
+    decodeRumor,
+    decodeStudent,
+    decodeVote,
+    enumIndex,
+    toDate,
+    toOptionalDate,
+    toSafeNumber,
+} from '@/lib/decoders';
+
+// BigInt() rather than literals: the tsconfig target predates them
+// Shaped like an ethers Result for IdentityRegistry.getStudent
+function chainStudent(overrides: Record<string, unknown> = {}) {
+    return {
+        studentID: BigInt(7),
+        walletAddress: '0x00000000000000000000000000000000000000aa',
+        emailHMAC: '0x' + '11'.repeat(32),
+        credibilityScore: BigInt(42),
+        status: BigInt(2),
+        votingPower: BigInt(10000),
+        registeredAt: BigInt(1700000000),
+        totalPosts: BigInt(3),
+        totalVotes: BigInt(12),
+        accuratePredictions: BigInt(8),
+        inaccuratePredictions: BigInt(4),
+        discreditedUntil: BigInt(0),
+        ...overrides,
+    };
+}
+
+function chainRumor(overrides: Record<string, unknown> = {}) {
+    return {
+        rumorID: BigInt(5),
+        authorID: BigInt(7),
+        authorWallet: '0x00000000000000000000000000000000000000aa',
+        contentHash: 'bafkreiexample',
+        evidenceHashes: ['bafkreievidence'],
+        hasEvidence: true,
+        initialConfidence: BigInt(20),
+        currentConfidence: -BigInt(15),
+        status: BigInt(0),
+        visible: true,
+        createdAt: BigInt(1700000000),
+        totalConfirmVotes: BigInt(2),
+        totalDisputeVotes: BigInt(5),
+        weightedConfirmScore: BigInt(30),
+        weightedDisputeScore: BigInt(65),
+        keywords: ['library'],
+        ...overrides,
+    };
+}
+
+describe('toSafeNumber', () => {
+    it('accepts bigints, numbers and decimal strings', () => {
+        expect(toSafeNumber(BigInt(42))).toBe(42);
+        expect(toSafeNumber(-7)).toBe(-7);
+        expect(toSafeNumber(' 123 ')).toBe(123);
+    });
+
+    it('accepts the largest safe integer', () => {
+        expect(toSafeNumber(BigInt(Number.MAX_SAFE_INTEGER))).toBe(Number.MAX_SAFE_INTEGER);
+        expect(toSafeNumber(-BigInt(Number.MAX_SAFE_INTEGER))).toBe(-Number.MAX_SAFE_INTEGER);
+    });
+
+    it('throws instead of losing precision past 2^53', () => {
+        expect(() => toSafeNumber(BigInt('9007199254740992'))).toThrow(RangeError);
+        expect(() => toSafeNumber(BigInt('-9007199254740992'))).toThrow(RangeError);
+        expect(() => toSafeNumber('1' + '0'.repeat(77))).toThrow(RangeError);
+    });
+});
+
+describe('toDate / toOptionalDate', () => {
+    it('reads unix seconds from the chain and ISO strings from the backend', () => {
+        expect(toDate(BigInt(1700000000)).toISOString()).toBe('2023-11-14T22:13:20.000Z');
+        expect(toDate('1700000000').toISOString()).toBe('2023-11-14T22:13:20.000Z');
+        expect(toDate('2023-11-14T22:13:20.000Z').getTime()).toBe(1700000000000);
+    });
+
+    it('treats unset (0) timestamps as null', () => {
+        expect(toOptionalDate(BigInt(0))).toBeNull();
+        expect(toOptionalDate(null)).toBeNull();
+        expect(toOptionalDate(BigInt(1700000000))).toEqual(new Date(1700000000000));
+    });
+});
+
+describe('decodeEnum', () => {
+    it('maps on-chain indexes to the contract enum names', () => {
+        expect(decodeEnum(USER_STATUSES, BigInt(3))).toBe('DISCREDITED');
+        expect(decodeEnum(USER_STATUSES, 4)).toBe('BLOCKED');
+        expect(decodeEnum(RUMOR_STATUSES, BigInt(3))).toBe('DEBUNKED');
+        expect(decodeEnum(RUMOR_STATUSES, '4')).toBe('DELETED');
+        expect(decodeEnum(VOTE_TYPES, BigInt(1))).toBe('DISPUTE');
+    });
+
+    it('passes already-decoded names through', () => {
+        expect(decodeEnum(RUMOR_STATUSES, 'LOCKED')).toBe('LOCKED');
+    });
+
+    it('rejects indexes the contract does not define', () => {
+        expect(() => decodeEnum(USER_STATUSES, BigInt(5))).toThrow(RangeError);
+        expect(() => decodeEnum(RUMOR_STATUSES, 'ARCHIVED' as never)).toThrow();
+    });
+
+    it('round-trips with enumIndex', () => {
+        for (const name of USER_STATUSES) {
+            expect(decodeEnum(USER_STATUSES, enumIndex(USER_STATUSES, name))).toBe(name);
+        }
+        expect(() => enumIndex(VOTE_TYPES, 'ABSTAIN' as never)).toThrow(RangeError);
+    });
+});
+
+describe('decodeStudent', () => {
+    it('decodes a contract result', () => {
+        const student = decodeStudent(chainStudent({ status: BigInt(3), discreditedUntil: BigInt(1700600000) }));
+
+        expect(student.studentID).toBe('7');
+        expect(student.credibilityScore).toBe(42);
+        expect(student.status).toBe(3);
+        expect(student.statusName).toBe('DISCREDITED');
+        expect(student.registeredAt).toEqual(new Date(1700000000000));
+        expect(student.discreditedUntil).toEqual(new Date(1700600000000));
+    });
+
+    it('leaves discreditedUntil null until it is set', () => {
+        expect(decodeStudent(chainStudent()).discreditedUntil).toBeNull();
+    });
+
+    it('keeps student IDs beyond 2^53 exact', () => {
+        expect(decodeStudent(chainStudent({ studentID: BigInt('18446744073709551616') })).studentID).toBe('18446744073709551616');
+    });
+
+    it('throws on a score that does not fit in a JS number', () => {
+        expect(() => decodeStudent(chainStudent({ credibilityScore: BigInt('1152921504606846976') }))).toThrow(RangeError);
+    });
+});
+
+describe('decodeRumor', () => {
+    it('decodes a contract result', () => {
+        const rumor = decodeRumor(chainRumor({ status: BigInt(3) }));
+
+        expect(rumor.rumorID).toBe(5);
+        expect(rumor.status).toBe(3);
+        expect(rumor.statusName).toBe('DEBUNKED');
+        expect(rumor.initialConfidence).toBe(20);
+        expect(rumor.currentConfidence).toBe(-15);
+        expect(rumor.weightedDisputeScore).toBe(65);
+        expect(rumor.createdAt).toEqual(new Date(1700000000000));
+        expect(rumor.keywords).toEqual(['library']);
+    });
+
+    it('decodes the backend JSON for the same rumor', () => {
+        const rumor = decodeRumor({
+            rumorID: '5',
+            contentHash: 'bafkreiexample',
+            evidenceHashes: [],
+            hasEvidence: false,
+            initialConfidence: '20',
+            currentConfidence: '-15',
+            status: 'LOCKED',
+            visible: false,
+            createdAt: '2023-11-14T22:13:20.000Z',
+            totalConfirmVotes: '2',
+            totalDisputeVotes: '5',
+            weightedConfirmScore: '30',
+            weightedDisputeScore: '65',
+            keywords: [],
+        });
+
+        expect(rumor.status).toBe(1);
+        expect(rumor.statusName).toBe('LOCKED');
+        expect(rumor.currentConfidence).toBe(-15);
+        expect(rumor.createdAt).toEqual(new Date(1700000000000));
+    });
+
+    it('falls back to the current confidence when the initial one is missing', () => {
+        const rumor = decodeRumor(chainRumor({ initialConfidence: null, weightedConfirmScore: undefined }));
+        expect(rumor.initialConfidence).toBe(-15);
+        expect(rumor.weightedConfirmScore).toBe(0);
+    });
+
+    it('never carries the author', () => {
+        const rumor = decodeRumor(chainRumor());
+        expect(rumor).not.toHaveProperty('authorID');
+        expect(rumor).not.toHaveProperty('authorWallet');
+    });
+});
+
+describe('decodeVote', () => {
+    it('decodes the vote type and weight', () => {
+        const vote = decodeVote({
+            voteID: BigInt(1),
+            rumorID: BigInt(5),
+            voterID: BigInt(9),
+            voterWallet: '0x00000000000000000000000000000000000000bb',
+            voteType: BigInt(1),
+            voterWeight: BigInt(15000),
+            voterCredibility: BigInt(55),
+            timestamp: BigInt(1700000000),
+        });
+
+        expect(vote.voteType).toBe(1);
+        expect(vote.voteTypeName).toBe('DISPUTE');
+        expect(vote.voterWeight).toBe(15000);
+        expect(vote.timestamp).toEqual(new Date(1700000000000));
+    });
+});
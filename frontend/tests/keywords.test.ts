@@ -0,0 +1,27 @@
+import { normalizeKeyword } from '@/lib/keywords';
+import { normalizeKeyword as backendNormalizeKeyword } from '../../backend/src/services/keywordService';
+
+// The submit form normalizes author keywords itself and must agree with /create
+const SAMPLES = [
+    'Library',
+    '  #Exam Schedule ',
+    '##dean',
+    'c++ & python',
+    'ＦＵＬＬＷＩＤＴＨ',
+    'Café-au-lait',
+    'north -- campus',
+    '-trailing-',
+    'user@example.com',
+    '#',
+];
+
+describe('normalizeKeyword', () => {
+    it.each(SAMPLES)('matches the backend for %p', (keyword) => {
+        expect(normalizeKeyword(keyword)).toBe(backendNormalizeKeyword(keyword));
+    });
+
+    it('strips hashes and punctuation and joins words with dashes', () => {
+        expect(normalizeKeyword('  #Exam Schedule! ')).toBe('exam-schedule');
+        expect(normalizeKeyword('#')).toBe('');
+    });
+});
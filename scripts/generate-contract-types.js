@@ -0,0 +1,174 @@
+/**
+ * Generates frontend/src/lib/generated/contractTypes.ts from the enums and
+ * structs in contracts/*.sol, then checks that every `getX(...) returns
+ * (tuple(...))` ABI fragment in the frontend and backend still matches the
+ * field order and types of struct X.
+ *
+ * Usage:
+ *   node scripts/generate-contract-types.js          # regenerate
+ *   node scripts/generate-contract-types.js --check  # fail if stale or an ABI drifted
+ *
+ * The parser, renderer and ABI check are exported for the tests in
+ * frontend/tests/contractTypes.test.ts.
+ */
+
+const fs = require("fs");
+const path = require("path");
+
+const ROOT = path.join(__dirname, "..");
+const CONTRACTS_DIR = path.join(ROOT, "contracts");
+const OUTPUT = path.join(ROOT, "frontend/src/lib/generated/contractTypes.ts");
+
+// Hand-written ABIs decoded against the structs
+const ABI_SOURCES = [
+    "frontend/src/lib/contracts.ts",
+    "backend/src/services/blockchainService.js",
+];
+
+function stripComments(source) {
+    return source.replace(/\/\*[\s\S]*?\*\//g, "").replace(/\/\/.*$/gm, "");
+}
+
+function parseContracts(contractsDir = CONTRACTS_DIR) {
+    const enums = new Map();
+    const structs = new Map();
+
+    const files = fs.readdirSync(contractsDir).filter((f) => f.endsWith(".sol")).sort();
+    for (const file of files) {
+        const source = stripComments(fs.readFileSync(path.join(contractsDir, file), "utf8"));
+
+        for (const [, name, body] of source.matchAll(/\benum\s+(\w+)\s*\{([^}]*)\}/g)) {
+            if (enums.has(name)) throw new Error(`Enum ${name} is declared twice (${enums.get(name).file}, ${file})`);
+            const values = body.split(",").map((v) => v.trim()).filter(Boolean);
+            enums.set(name, { file, values });
+        }
+
+        for (const [, name, body] of source.matchAll(/\bstruct\s+(\w+)\s*\{([^}]*)\}/g)) {
+            if (structs.has(name)) throw new Error(`Struct ${name} is declared twice (${structs.get(name).file}, ${file})`);
+            const fields = body.split(";").map((f) => f.trim()).filter(Boolean).map((f) => {
+                const [type, fieldName] = f.split(/\s+/);
+                return { type, name: fieldName };
+            });
+            structs.set(name, { file, fields });
+        }
+    }
+
+    return { enums, structs };
+}
+
+// UserStatus -> USER_STATUS
+function constantCase(name) {
+    return name.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toUpperCase();
+}
+
+function plural(name) {
+    return name.endsWith("S") ? `${name}ES` : `${name}S`;
+}
+
+// Type as it appears in an ABI fragment: enums are uint8, `uint` is uint256
+function abiType(type, enums) {
+    const array = type.endsWith("[]") ? "[]" : "";
+    const base = array ? type.slice(0, -2) : type;
+    if (enums.has(base)) return `uint8${array}`;
+    if (base === "uint") return `uint256${array}`;
+    if (base === "int") return `int256${array}`;
+    return type;
+}
+
+function render({ enums, structs }) {
+    const lines = [
+        "// Generated by scripts/generate-contract-types.js from contracts/*.sol. Do not edit.",
+        "// Run `npm run generate:types` from the repo root after changing a contract enum or struct.",
+        "",
+    ];
+
+    for (const [name, { file, values }] of enums) {
+        const constant = plural(constantCase(name));
+        lines.push(
+            `// ${file}: ${name}`,
+            `export const ${constant} = [${values.map((v) => `'${v}'`).join(", ")}] as const;`,
+            `export type ${name} = (typeof ${constant})[number];`,
+            ""
+        );
+    }
+
+    for (const [name, { file, fields }] of structs) {
+        lines.push(
+            `// ${file}: ${name} struct layout (a public mapping getter omits its array fields)`,
+            `export const ${constantCase(name)}_FIELDS = [${fields.map((f) => `'${f.name}'`).join(", ")}] as const;`,
+            ""
+        );
+    }
+
+    return lines.join("\n");
+}
+
+function readAbiSources() {
+    return ABI_SOURCES.map((relative) => ({ relative, source: fs.readFileSync(path.join(ROOT, relative), "utf8") }));
+}
+
+// Every `function getX(...) view returns (tuple(...))` whose X is a struct
+function checkAbis({ enums, structs }, sources = readAbiSources()) {
+    const problems = [];
+    let checked = 0;
+
+    for (const { relative, source } of sources) {
+        for (const [, fn, tuple] of source.matchAll(/function\s+get(\w+)\([^)]*\)\s+view\s+returns\s+\(tuple\(([^)]*)\)\)/g)) {
+            const struct = structs.get(fn);
+            if (!struct) continue;
+            checked++;
+
+            const actual = tuple.split(",").map((f) => f.trim().split(/\s+/).join(" "));
+            const expected = struct.fields.map((f) => `${abiType(f.type, enums)} ${f.name}`);
+            if (actual.join(", ") !== expected.join(", ")) {
+                problems.push(
+                    `${relative}: get${fn} tuple does not match ${struct.file} struct ${fn}\n` +
+                    `    expected: ${expected.join(", ")}\n` +
+                    `    found:    ${actual.join(", ")}`
+                );
+            }
+        }
+    }
+
+    return { problems, checked };
+}
+
+function main() {
+    const check = process.argv.includes("--check");
+    const parsed = parseContracts();
+    const generated = render(parsed);
+    const current = fs.existsSync(OUTPUT) ? fs.readFileSync(OUTPUT, "utf8") : null;
+
+    const problems = [];
+    if (current !== generated) {
+        if (check) {
+            problems.push(`${path.relative(ROOT, OUTPUT)} is out of date with contracts/*.sol (run npm run generate:types)`);
+        } else {
+            fs.mkdirSync(path.dirname(OUTPUT), { recursive: true });
+            fs.writeFileSync(OUTPUT, generated);
+            console.log(`📝 Wrote ${path.relative(ROOT, OUTPUT)}`);
+        }
+    }
+
+    const abis = checkAbis(parsed);
+    problems.push(...abis.problems);
+
+    if (problems.length > 0) {
+        problems.forEach((p) => console.error(`❌ ${p}`));
+        process.exit(1);
+    }
+
+    console.log(`✅ ${parsed.enums.size} enums, ${parsed.structs.size} structs, ${abis.checked} ABI tuples in sync`);
+}
+
+if (require.main === module) {
+    main();
+}
+
+module.exports = {
+    parseContracts,
+    render,
+    checkAbis,
+    readAbiSources,
+    OUTPUT,
+};